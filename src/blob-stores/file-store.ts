@@ -0,0 +1,78 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { BlobStore } from "../interfaces/blob-store.ts";
+
+/**
+ * Keeps blobs as files in a local directory. Only suitable when all
+ * producers and workers share the filesystem.
+ *
+ * Expiring blobs are moved to an `expiring` subdirectory, with their
+ * modification time set to their expiry.
+ */
+export class FileBlobStore implements BlobStore {
+  private path: string;
+  private expiringPath: string;
+
+  constructor(options: { path: string }) {
+    this.path = path.resolve(options.path);
+    this.expiringPath = path.join(this.path, "expiring");
+  }
+
+  async put(key: string, data: string): Promise<void> {
+    await fs.mkdir(this.path, { recursive: true });
+    await fs.writeFile(this.blobPath(key), data, "utf8");
+  }
+
+  async get(key: string): Promise<string> {
+    try {
+      return await fs.readFile(this.blobPath(key), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      return await fs.readFile(this.blobPath(key, true), "utf8");
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.blobPath(key), { force: true });
+    await fs.rm(this.blobPath(key, true), { force: true });
+  }
+
+  async expire(key: string, at: Date): Promise<void> {
+    await fs.mkdir(this.expiringPath, { recursive: true });
+    const expiring = this.blobPath(key, true);
+    try {
+      await fs.rename(this.blobPath(key), expiring);
+    } catch (error) {
+      // Already expiring, only its expiry moves
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+    await fs.utimes(expiring, at, at);
+  }
+
+  async prune(): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.expiringPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw error;
+    }
+
+    const now = Date.now();
+    for (const file of files) {
+      const filePath = path.join(this.expiringPath, file);
+      const stat = await fs.stat(filePath).catch(() => undefined);
+      if (stat && stat.mtimeMs <= now) {
+        await fs.rm(filePath, { force: true });
+      }
+    }
+  }
+
+  private blobPath(key: string, expiring = false): string {
+    // Keys are generated by the queue, but never leave the directory
+    if (!/^[\w-]+$/.test(key)) {
+      throw new Error(`Invalid blob key ${key}`);
+    }
+    return path.join(expiring ? this.expiringPath : this.path, key);
+  }
+}
@@ -0,0 +1,352 @@
+import { parseArgs } from "node:util";
+import type { Queue } from "../core/queue.ts";
+import type { FinishedJobStatus, JobInfo, JobStatus } from "../interfaces/job.ts";
+import { createQueueFromUrl } from "./driver-url.ts";
+import { errorMessage, processIo, usageError, type CliIo } from "./io.ts";
+
+export const ADMIN_USAGE = `Usage: adapter-queue admin <command> --driver <url> [options]
+
+Commands:
+  stats                     Count the jobs per status
+  list                      List jobs, oldest first
+  show <id>                 Show a job with its payload
+  retry <id>                Put a failed job back in the queue
+  retry --all-failed        Put every failed job back in the queue
+  delete <id>               Delete a job that isn't running
+  purge                     Delete finished jobs, needs --status and --older-than
+  move <id> --to <queue>    Move a job to another queue
+
+Options:
+  --driver <url>            Driver URL, e.g. sqlite:///var/lib/jobs.db
+  --queue <name>            Queue name (default: "default")
+  --status <status>         Status of the listed or purged jobs
+  --name <name>             Job name of the listed jobs
+  --limit <n>               Jobs listed at most (default: 100)
+  --older-than <age>        Age of the purged jobs, e.g. 30m, 12h or 7d
+  --to <queue>              Queue jobs are moved to, a name for the same driver
+                            or a driver URL, e.g. file:///var/lib/jobs/retries
+  --json                    Print stats and lists as JSON
+  -h, --help                Show this help
+
+Payloads are shown as stored when they were encoded with a custom serializer,
+encryption or a claim-check store, and such jobs can't be moved from here.`;
+
+const STATUSES: readonly JobStatus[] = [
+  "waiting",
+  "waiting-children",
+  "delayed",
+  "reserved",
+  "done",
+  "failed",
+  "cancelled",
+];
+const FINISHED_STATUSES: readonly FinishedJobStatus[] = ["done", "failed", "cancelled"];
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+type AdminOptions = ReturnType<typeof parseCliArgs>["values"];
+
+/**
+ * Runs `adapter-queue admin`.
+ *
+ * @param args - Command line arguments after `admin`
+ * @param io - Streams to write to
+ * @returns Promise resolving to the process exit code, 1 when the job wasn't
+ * found or couldn't be changed
+ * @throws QueueError named "QueueErrorUsage" when the arguments are invalid
+ */
+export async function runAdmin(
+  args: string[],
+  io: CliIo = processIo
+): Promise<number> {
+  const { values, positionals } = parseCliArgs(args);
+  if (values.help) {
+    io.stdout.write(`${ADMIN_USAGE}\n`);
+    return 0;
+  }
+  const [command, ...rest] = positionals;
+  if (command === undefined) {
+    throw usageError("Expected a command");
+  }
+  const run = commands[command];
+  if (!run) {
+    throw usageError(`Unknown command: ${command}`);
+  }
+  if (!values.driver) {
+    throw usageError("--driver is required");
+  }
+  if (values.status !== undefined && !STATUSES.includes(values.status as JobStatus)) {
+    throw usageError(`Unknown status: ${values.status}`);
+  }
+  if (values["all-failed"] && command !== "retry") {
+    throw usageError("--all-failed only applies to retry");
+  }
+  // Checked before connecting, so usage errors don't wait for the driver
+  const id = run.takesId ? jobId(rest, values) : noArguments(rest);
+  run.validate?.(values);
+
+  const { queue, close } = await createQueueFromUrl(values.driver, {
+    name: values.queue ?? "default",
+  });
+  try {
+    return await run.execute({ queue, id, values, io });
+  } finally {
+    await close();
+  }
+}
+
+interface CommandContext {
+  queue: Queue<any, any>;
+  /** Job ID of the commands taking one */
+  id: string | undefined;
+  values: AdminOptions;
+  io: CliIo;
+}
+
+interface Command {
+  /** Whether the command takes a job ID, `retry` takes `--all-failed` instead */
+  takesId?: boolean;
+  /** Throws usage errors for invalid options */
+  validate?(values: AdminOptions): void;
+  execute(context: CommandContext): Promise<number>;
+}
+
+const commands: Record<string, Command> = {
+  stats: {
+    async execute({ queue, values, io }) {
+      const counts = await queue.countJobs();
+      if (values.json) {
+        io.stdout.write(`${JSON.stringify(counts)}\n`);
+        return 0;
+      }
+      const width = Math.max(...STATUSES.map((status) => status.length)) + 2;
+      for (const status of STATUSES) {
+        io.stdout.write(`${status.padEnd(width)}${counts[status]}\n`);
+      }
+      return 0;
+    },
+  },
+
+  list: {
+    validate: (values) => {
+      positiveInteger(values, "limit");
+    },
+    async execute({ queue, values, io }) {
+      const jobs = await queue.listJobs({
+        status: values.status as JobStatus | undefined,
+        name: values.name,
+        limit: positiveInteger(values, "limit"),
+      });
+      if (values.json) {
+        io.stdout.write(`${JSON.stringify(jobs)}\n`);
+        return 0;
+      }
+      io.stdout.write(formatTable(jobs));
+      return 0;
+    },
+  },
+
+  show: {
+    takesId: true,
+    async execute({ queue, id, io }) {
+      const job = await queue.inspectJob(id!);
+      if (!job) return notFound(io, id!);
+      io.stdout.write(`${JSON.stringify(job, null, 2)}\n`);
+      return 0;
+    },
+  },
+
+  retry: {
+    takesId: true,
+    async execute({ queue, id, io }) {
+      if (id !== undefined) {
+        if (await queue.retry(id)) {
+          io.stdout.write(`Retried job ${id}\n`);
+          return 0;
+        }
+        io.stderr.write(`Job ${id} isn't a failed job with its payload still stored\n`);
+        return 1;
+      }
+
+      // Pages by ID, so jobs that can't be retried don't hold up the others
+      // and jobs failing again meanwhile aren't retried twice
+      let retried = 0;
+      let after: string | undefined;
+      while (true) {
+        const failed = await queue.listJobs({ status: "failed", limit: 1000, after });
+        for (const job of failed) {
+          if (await queue.retry(job.id)) retried++;
+        }
+        if (failed.length < 1000) break;
+        after = failed[failed.length - 1]!.id;
+      }
+      io.stdout.write(`Retried ${retried} failed jobs\n`);
+      return 0;
+    },
+  },
+
+  delete: {
+    takesId: true,
+    async execute({ queue, id, io }) {
+      if (!(await queue.removeJob(id!))) return notFound(io, id!);
+      io.stdout.write(`Deleted job ${id}\n`);
+      return 0;
+    },
+  },
+
+  purge: {
+    validate: (values) => {
+      finishedStatus(values);
+      olderThan(values);
+    },
+    async execute({ queue, values, io }) {
+      const status = finishedStatus(values);
+      const before = new Date(Date.now() - olderThan(values));
+      const purged = await queue.purge(status, before);
+      io.stdout.write(`Purged ${purged} ${status} jobs\n`);
+      return 0;
+    },
+  },
+
+  move: {
+    takesId: true,
+    validate: (values) => {
+      if (!values.to) throw usageError("--to is required");
+      if (isDriverUrl(values.to)) return;
+      if (values.to === (values.queue ?? "default")) {
+        throw usageError("--to must name another queue");
+      }
+      if (values.driver!.startsWith("file:")) {
+        throw usageError("File queues are directories, pass a driver URL to --to");
+      }
+    },
+    async execute({ queue, id, values, io }) {
+      const target = isDriverUrl(values.to!)
+        ? await createQueueFromUrl(values.to!, { name: queue.name })
+        : await createQueueFromUrl(values.driver!, { name: values.to! });
+      try {
+        const movedId = await queue.moveJob(id!, target.queue);
+        if (movedId === undefined) return notFound(io, id!);
+        io.stdout.write(`Moved job ${id} to ${values.to} as job ${movedId}\n`);
+        return 0;
+      } finally {
+        await target.close();
+      }
+    },
+  },
+};
+
+function parseCliArgs(args: string[]) {
+  try {
+    return parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        driver: { type: "string" },
+        queue: { type: "string" },
+        status: { type: "string" },
+        name: { type: "string" },
+        limit: { type: "string" },
+        "all-failed": { type: "boolean" },
+        "older-than": { type: "string" },
+        to: { type: "string" },
+        json: { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (error) {
+    throw usageError(errorMessage(error));
+  }
+}
+
+function jobId(args: string[], values: AdminOptions): string | undefined {
+  if (values["all-failed"]) {
+    noArguments(args);
+    return undefined;
+  }
+  const [id] = args;
+  if (id === undefined || args.length > 1) {
+    throw usageError("Expected exactly one job ID");
+  }
+  return id;
+}
+
+function noArguments(args: string[]): undefined {
+  if (args.length > 0) {
+    throw usageError(`Unexpected argument: ${args[0]}`);
+  }
+  return undefined;
+}
+
+function positiveInteger(values: AdminOptions, option: "limit"): number | undefined {
+  const value = values[option];
+  if (value === undefined) return undefined;
+
+  const number = Number(value);
+  if (!Number.isInteger(number) || number <= 0) {
+    throw usageError(`--${option} must be a positive integer, got ${value}`);
+  }
+  return number;
+}
+
+function finishedStatus(values: AdminOptions): FinishedJobStatus {
+  const status = FINISHED_STATUSES.find((status) => status === values.status);
+  if (!status) {
+    throw usageError(`--status must be one of ${FINISHED_STATUSES.join(", ")}`);
+  }
+  return status;
+}
+
+/**
+ * Parses `--older-than` into milliseconds.
+ */
+function olderThan(values: AdminOptions): number {
+  const value = values["older-than"];
+  const match = value?.match(/^(\d+(?:\.\d+)?)([smhd])$/);
+  if (!match) {
+    throw usageError(`--older-than must be an age like 30m, 12h or 7d, got ${value}`);
+  }
+  return Number(match[1]) * DURATION_UNITS[match[2]!]!;
+}
+
+function isDriverUrl(value: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(value);
+}
+
+function notFound(io: CliIo, id: string): number {
+  io.stderr.write(`Job ${id} not found\n`);
+  return 1;
+}
+
+function formatTable(jobs: JobInfo[]): string {
+  const rows = [
+    ["ID", "STATUS", "NAME", "ATTEMPTS", "PUSHED", "FINISHED", "ERROR"],
+    ...jobs.map((job) => [
+      job.id,
+      job.status,
+      job.name ?? "-",
+      job.attempts?.toString() ?? "-",
+      job.pushedAt?.toISOString() ?? "-",
+      job.finishedAt?.toISOString() ?? "-",
+      // Keeps every job on one line
+      job.error?.split("\n")[0] ?? "",
+    ]),
+  ];
+  const widths = rows[0]!.map((_, column) =>
+    Math.max(...rows.map((row) => row[column]!.length))
+  );
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column]!))
+        .join("  ")
+        .trimEnd()
+    )
+    .join("\n")
+    .concat("\n");
+}
@@ -0,0 +1,103 @@
+import { QueueError, type Queue } from "../core/queue.ts";
+import type { QueueOptions } from "../interfaces/plugin.ts";
+
+/**
+ * A queue created from a driver URL, with the connection it opened.
+ */
+export interface QueueConnection {
+  queue: Queue<any, any>;
+  /** Closes the connection opened for the queue */
+  close(): Promise<void>;
+}
+
+/**
+ * Creates a queue from a driver URL. Drivers are imported when used, so only
+ * the peer dependency of the chosen driver has to be installed.
+ *
+ * - `file:<directory>` or `file://<directory>`
+ * - `sqlite:<path>` or `sqlite://<path>`, e.g. `sqlite:///var/lib/jobs.db`
+ * - `redis://…` or `rediss://…`
+ * - `mongodb://…` or `mongodb+srv://…`
+ * - `https://sqs.<region>.amazonaws.com/<account>/<queue>`, failed jobs are
+ *   left in the queue unless `?onFailure=delete` is given
+ *
+ * @param url - The driver URL
+ * @param options - Options of the queue, its `name` also names the jobs of
+ * the SQLite, Redis and Mongoose drivers
+ * @throws QueueError named "QueueErrorUnsupportedDriver" for other URLs
+ */
+export async function createQueueFromUrl(
+  url: string,
+  options: QueueOptions
+): Promise<QueueConnection> {
+  const scheme = url.slice(0, url.indexOf(":")).toLowerCase();
+  // Paths may be written with or without the `//` of URLs
+  const path = url.slice(scheme.length + 1).replace(/^\/\//, "");
+
+  switch (scheme) {
+    case "file": {
+      const { FileQueue } = await import("../drivers/file.ts");
+      return { queue: new FileQueue({ ...options, path }), close: async () => {} };
+    }
+    case "sqlite": {
+      const { default: Database } = await import("better-sqlite3");
+      const { SQLiteQueue } = await import("../drivers/sqlite.ts");
+      const database = new Database(path);
+      return {
+        queue: new SQLiteQueue({ ...options, database }),
+        close: async () => {
+          database.close();
+        },
+      };
+    }
+    case "redis":
+    case "rediss": {
+      const { createClient } = await import("redis");
+      const { RedisQueue } = await import("../drivers/redis.ts");
+      const client = createClient({ url });
+      await client.connect();
+      return {
+        queue: new RedisQueue(client, options.name, options),
+        close: async () => {
+          await client.quit();
+        },
+      };
+    }
+    case "mongodb":
+    case "mongodb+srv": {
+      const { default: mongoose } = await import("mongoose");
+      const { MongooseQueue } = await import("../drivers/mongoose.ts");
+      await mongoose.connect(url);
+      return {
+        queue: new MongooseQueue(options),
+        close: async () => {
+          await mongoose.disconnect();
+        },
+      };
+    }
+    case "https": {
+      const { hostname, searchParams, origin, pathname } = new URL(url);
+      if (!hostname.startsWith("sqs.")) break;
+
+      const { SQSClient } = await import("@aws-sdk/client-sqs");
+      const { SqsQueue } = await import("../drivers/sqs.ts");
+      const client = new SQSClient({ region: hostname.split(".")[1] });
+      // SqsQueue deletes failed messages with `onFailure: "leaveInQueue"` and
+      // keeps them with "delete", so the URL flag names the outcome instead
+      const onFailure =
+        searchParams.get("onFailure") === "delete" ? "leaveInQueue" : "delete";
+      return {
+        queue: new SqsQueue(client, origin + pathname, { ...options, onFailure }),
+        close: async () => {
+          client.destroy();
+        },
+      };
+    }
+  }
+
+  throw new QueueError({
+    name: "QueueErrorUnsupportedDriver",
+    message: `Unsupported driver URL: ${url}`,
+    cause: undefined,
+  });
+}
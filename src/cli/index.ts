@@ -0,0 +1,45 @@
+#!/usr/bin/env node
+import { QueueError } from "../core/queue.ts";
+import { ADMIN_USAGE, runAdmin } from "./admin.ts";
+import { runWorker, WORKER_USAGE } from "./worker.ts";
+
+const USAGE = `Usage: adapter-queue <command> [options]
+
+Commands:
+  worker <module>   Run the queue exported by a module
+  admin <command>   Inspect and manage the jobs of a queue
+
+Run \`adapter-queue <command> --help\` for the options of a command.`;
+
+const commands: Record<string, { run(args: string[]): Promise<number>; usage: string }> = {
+  worker: { run: runWorker, usage: WORKER_USAGE },
+  admin: { run: runAdmin, usage: ADMIN_USAGE },
+};
+
+async function main(argv: string[]): Promise<number> {
+  const [name, ...args] = argv;
+  if (name === undefined || name === "--help" || name === "-h") {
+    console.log(USAGE);
+    return name === undefined ? 1 : 0;
+  }
+
+  const command = commands[name];
+  if (!command) {
+    console.error(`Unknown command: ${name}\n\n${USAGE}`);
+    return 1;
+  }
+
+  try {
+    return await command.run(args);
+  } catch (error) {
+    if (error instanceof QueueError && error.name === "QueueErrorUsage") {
+      console.error(`${error.message}\n\n${command.usage}`);
+    } else {
+      console.error(error);
+    }
+    return 1;
+  }
+}
+
+// Exits right away, a forced stop may leave jobs and connections behind
+process.exit(await main(process.argv.slice(2)));
@@ -0,0 +1,28 @@
+import { QueueError } from "../core/queue.ts";
+
+/**
+ * Streams and signal source of a CLI command, the process ones by default.
+ */
+export interface CliIo {
+  stdout: NodeJS.WritableStream;
+  stderr: NodeJS.WritableStream;
+  /** Emits "SIGINT" and "SIGTERM" */
+  signals: NodeJS.EventEmitter;
+}
+
+export const processIo: CliIo = {
+  stdout: process.stdout,
+  stderr: process.stderr,
+  signals: process,
+};
+
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Error for invalid arguments, printed with the usage of the command.
+ */
+export function usageError(message: string): QueueError {
+  return new QueueError({ name: "QueueErrorUsage", message, cause: undefined });
+}
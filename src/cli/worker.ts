@@ -0,0 +1,263 @@
+import { parseArgs } from "node:util";
+import { constants } from "node:os";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import type { Queue } from "../core/queue.ts";
+import { createQueueFromUrl, type QueueConnection } from "./driver-url.ts";
+import { errorMessage, processIo, usageError, type CliIo } from "./io.ts";
+
+export const WORKER_USAGE = `Usage: adapter-queue worker <module> [options]
+
+Runs the queue exported by <module> as \`queue\` or \`default\`. Modules may
+export \`handlers\` instead, with \`driver\` (a driver URL), \`name\` and
+queue \`options\`, the first two overridden by the flags below.
+
+Options:
+  --driver <url>            Driver URL of a handlers module, e.g. sqlite:///var/lib/jobs.db
+  --name <name>             Queue name of a handlers module (default: "default")
+  --concurrency <n>         Jobs processed at the same time
+  --batch-size <n>          Jobs reserved per poll
+  --timeout <seconds>       Time between polls while the queue is empty (default: 3)
+  --once                    Process the available jobs and exit
+  --max-jobs <n>            Exit once this many jobs started and finished
+  --max-runtime <seconds>   Exit after running this long
+  --shutdown-timeout <s>    Time in-flight jobs get to finish when stopping (default: 30)
+  --log-format <format>     "text" or "json" (default: "text")
+  -h, --help                Show this help
+
+SIGINT and SIGTERM stop the worker gracefully, a second signal exits right away.`;
+
+type LogFormat = "text" | "json";
+type Log = (level: "info" | "error", message: string, fields?: Record<string, unknown>) => void;
+
+/**
+ * Runs `adapter-queue worker`.
+ *
+ * @param args - Command line arguments after `worker`
+ * @param io - Streams to write to and the source of stop signals
+ * @returns Promise resolving to the process exit code
+ * @throws QueueError named "QueueErrorUsage" when the arguments are invalid
+ */
+export async function runWorker(
+  args: string[],
+  io: CliIo = processIo
+): Promise<number> {
+  const { values, positionals } = parseCliArgs(args);
+  if (values.help) {
+    io.stdout.write(`${WORKER_USAGE}\n`);
+    return 0;
+  }
+  const [modulePath] = positionals;
+  if (!modulePath || positionals.length > 1) {
+    throw usageError("Expected exactly one module");
+  }
+  const logFormat = values["log-format"] ?? "text";
+  if (logFormat !== "text" && logFormat !== "json") {
+    throw usageError(`Unknown log format: ${logFormat}`);
+  }
+  const concurrency = positiveNumber(values, "concurrency");
+  const batchSize = positiveNumber(values, "batch-size");
+  const timeout = positiveNumber(values, "timeout", true) ?? 3;
+  const maxJobs = positiveNumber(values, "max-jobs");
+  const maxRuntime = positiveNumber(values, "max-runtime");
+  const shutdownTimeout = positiveNumber(values, "shutdown-timeout", true) ?? 30;
+
+  const { queue, close } = await loadQueue(modulePath, values.driver, values.name);
+  const log = createLog(logFormat, io.stdout, queue.name);
+  logEvents(queue, log);
+
+  // Resolves with the exit code when the worker can't stop gracefully
+  let forceExit!: (code: number) => void;
+  const forced = new Promise<number>((resolve) => (forceExit = resolve));
+  let stopping = false;
+  const stop = (reason: string) => {
+    if (stopping) return;
+    stopping = true;
+    log("info", "Stopping worker", { reason });
+    queue.stop({ timeoutMs: shutdownTimeout * 1000 }).catch((error) => {
+      log("error", "Worker did not stop in time", { error: errorMessage(error) });
+      forceExit(1);
+    });
+  };
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (!stopping) return stop(signal);
+    log("error", "Exiting without waiting for jobs", { reason: signal });
+    forceExit(128 + (constants.signals[signal] ?? 0));
+  };
+  io.signals.on("SIGINT", onSignal);
+  io.signals.on("SIGTERM", onSignal);
+
+  let started = 0;
+  if (maxJobs !== undefined) {
+    queue.on("beforeExec", () => {
+      if (++started >= maxJobs) stop("max-jobs");
+    });
+  }
+  const runtimeTimer =
+    maxRuntime !== undefined
+      ? setTimeout(() => stop("max-runtime"), maxRuntime * 1000)
+      : undefined;
+
+  log("info", "Worker started", { concurrency, once: values.once ?? false });
+  let code: number;
+  try {
+    code = await Promise.race([
+      queue
+        .run(!values.once, timeout, { concurrency, batchSize })
+        .then(() => 0),
+      forced,
+    ]);
+    if (code === 0) log("info", "Worker stopped");
+  } catch (error) {
+    log("error", "Worker failed", { error: errorMessage(error) });
+    code = 1;
+  } finally {
+    clearTimeout(runtimeTimer);
+    io.signals.off("SIGINT", onSignal);
+    io.signals.off("SIGTERM", onSignal);
+  }
+
+  // Jobs may still be running after a forced exit, the connection goes with the process
+  if (code === 0 || !stopping) await close();
+  return code;
+}
+
+function parseCliArgs(args: string[]) {
+  try {
+    return parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        driver: { type: "string" },
+        name: { type: "string" },
+        concurrency: { type: "string" },
+        "batch-size": { type: "string" },
+        timeout: { type: "string" },
+        once: { type: "boolean" },
+        "max-jobs": { type: "string" },
+        "max-runtime": { type: "string" },
+        "shutdown-timeout": { type: "string" },
+        "log-format": { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (error) {
+    throw usageError(errorMessage(error));
+  }
+}
+
+function positiveNumber(
+  values: Record<string, string | boolean | undefined>,
+  option: string,
+  allowZero = false
+): number | undefined {
+  const value = values[option];
+  if (typeof value !== "string") return undefined;
+
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0 || (number === 0 && !allowZero)) {
+    throw usageError(`--${option} must be a positive number, got ${value}`);
+  }
+  return number;
+}
+
+/**
+ * Imports the worker module and returns its queue, or a queue created from
+ * its handlers and driver URL.
+ */
+async function loadQueue(
+  modulePath: string,
+  driver: string | undefined,
+  name: string | undefined
+): Promise<QueueConnection> {
+  const exports = await import(pathToFileURL(path.resolve(modulePath)).href);
+
+  const queue = exports.queue ?? exports.default;
+  if (isQueue(queue)) {
+    if (driver !== undefined || name !== undefined) {
+      throw usageError("--driver and --name only apply to modules exporting handlers");
+    }
+    return { queue, close: async () => {} };
+  }
+
+  if (typeof exports.handlers !== "object" || exports.handlers === null) {
+    throw usageError(`${modulePath} exports neither a queue nor handlers`);
+  }
+  const url = driver ?? exports.driver;
+  if (typeof url !== "string") {
+    throw usageError(`${modulePath} exports handlers without a driver, pass --driver`);
+  }
+
+  const connection = await createQueueFromUrl(url, {
+    ...exports.options,
+    name: name ?? exports.name ?? "default",
+  });
+  connection.queue.setHandlers(exports.handlers);
+  return connection;
+}
+
+function isQueue(value: unknown): value is Queue<any, any> {
+  // Duck typed, the module may load another copy of the package
+  return (
+    typeof (value as Queue | undefined)?.run === "function" &&
+    typeof (value as Queue | undefined)?.stop === "function"
+  );
+}
+
+function logEvents(queue: Queue<any, any>, log: Log): void {
+  const startedAt = new Map<string, number>();
+  const duration = (id: string) => {
+    const start = startedAt.get(id);
+    startedAt.delete(id);
+    return start === undefined ? undefined : Date.now() - start;
+  };
+
+  queue.on("beforeExec", ({ id, name }) => {
+    startedAt.set(id, Date.now());
+    log("info", "Job started", { id, job: name });
+  });
+  queue.on("afterComplete", ({ id, name }) => {
+    log("info", "Job completed", { id, job: name, durationMs: duration(id) });
+  });
+  queue.on("retrying", ({ id, name, error, delaySeconds }) => {
+    log("error", "Job failed, retrying", {
+      id,
+      job: name,
+      durationMs: duration(id),
+      delaySeconds,
+      error: errorMessage(error),
+    });
+  });
+  queue.on("afterFail", ({ id, name, error }) => {
+    log("error", "Job failed", {
+      id,
+      job: name,
+      durationMs: duration(id),
+      error: errorMessage(error),
+    });
+  });
+  queue.on("stalled", ({ id, name }) => {
+    log("error", "Job stalled", { id, job: name });
+  });
+}
+
+function createLog(format: LogFormat, stream: NodeJS.WritableStream, queue: string): Log {
+  return (level, message, fields = {}) => {
+    const time = new Date().toISOString();
+    const defined = Object.entries(fields).filter(([, value]) => value !== undefined);
+
+    if (format === "json") {
+      const entry = { time, level, queue, message, ...Object.fromEntries(defined) };
+      stream.write(`${JSON.stringify(entry)}\n`);
+      return;
+    }
+    const details = defined.map(([key, value]) => ` ${key}=${formatValue(value)}`);
+    stream.write(`${time} ${level.toUpperCase()} [${queue}] ${message}${details.join("")}\n`);
+  };
+}
+
+function formatValue(value: unknown): string {
+  const text = String(value);
+  return /[\s"=]/.test(text) ? JSON.stringify(text) : text;
+}
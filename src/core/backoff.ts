@@ -0,0 +1,39 @@
+import type { BackoffPolicy } from "../interfaces/job.ts";
+
+/**
+ * Computes how many seconds to wait before retrying a failed job.
+ *
+ * @param policy - Backoff policy, undefined retries immediately
+ * @param attempt - The attempt that just failed, starting at 1
+ * @param error - The error that caused the failure
+ * @returns Delay in seconds (never negative)
+ */
+export function computeBackoff(
+  policy: BackoffPolicy | undefined,
+  attempt: number,
+  error: unknown
+): number {
+  if (!policy) return 0;
+
+  if (typeof policy === "function") {
+    return Math.max(0, policy(attempt, error));
+  }
+
+  switch (policy.type) {
+    case "fixed":
+      return Math.max(0, policy.delaySeconds);
+    case "exponential": {
+      let delay = policy.delaySeconds * 2 ** (attempt - 1);
+      if (policy.maxDelaySeconds !== undefined) {
+        delay = Math.min(delay, policy.maxDelaySeconds);
+      }
+      if (policy.jitter) {
+        // "Equal jitter": keep half of the delay, randomize the other half
+        delay = delay / 2 + Math.random() * (delay / 2);
+      }
+      return Math.max(0, delay);
+    }
+    default:
+      return 0;
+  }
+}
@@ -0,0 +1,63 @@
+import { promisify } from "node:util";
+import { brotliCompress, brotliDecompress, gzip, gunzip } from "node:zlib";
+import type {
+  CompressionAlgorithm,
+  CompressionOptions,
+} from "../interfaces/serializer.ts";
+
+// The async API runs on the libuv thread pool, so large payloads don't
+// block the event loop and the timers of running jobs
+const codecs: Record<
+  CompressionAlgorithm,
+  {
+    compress(data: Buffer): Promise<Buffer>;
+    decompress(data: Buffer): Promise<Buffer>;
+  }
+> = {
+  gzip: { compress: promisify(gzip), decompress: promisify(gunzip) },
+  brotli: {
+    compress: promisify(brotliCompress),
+    decompress: promisify(brotliDecompress),
+  },
+};
+
+/**
+ * Compresses a serialized payload, as base64.
+ *
+ * @param data - The serialized payload
+ * @param options - Algorithm and size threshold
+ * @returns Promise resolving to the compressed payload, or undefined when the
+ * payload is below the threshold or compressing it doesn't make it smaller
+ */
+export async function compressPayload(
+  data: string,
+  options: CompressionOptions
+): Promise<string | undefined> {
+  const algorithm = options.algorithm ?? "gzip";
+  const size = Buffer.byteLength(data, "utf8");
+  if (size < (options.thresholdBytes ?? 1024)) return undefined;
+
+  const compressed = (
+    await codecs[algorithm].compress(Buffer.from(data, "utf8"))
+  ).toString("base64");
+  return compressed.length < size ? compressed : undefined;
+}
+
+/**
+ * Reverses `compressPayload`.
+ *
+ * @param data - The compressed payload, as base64
+ * @param algorithm - The algorithm recorded with the job
+ * @returns Promise resolving to the serialized payload
+ * @throws Error when the algorithm is unknown or the data is corrupt
+ */
+export async function decompressPayload(
+  data: string,
+  algorithm: string
+): Promise<string> {
+  const codec = codecs[algorithm as CompressionAlgorithm];
+  if (!codec) {
+    throw new Error(`Unknown compression algorithm ${algorithm}`);
+  }
+  return (await codec.decompress(Buffer.from(data, "base64"))).toString("utf8");
+}
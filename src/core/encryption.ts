@@ -0,0 +1,56 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/**
+ * Encrypts a serialized payload with AES-256-GCM.
+ *
+ * @param data - The serialized payload
+ * @param key - 32-byte key
+ * @param associatedData - Authenticated but not encrypted, e.g. the queue and
+ * job name, so the payload doesn't decrypt when copied to another job
+ * @returns Base64 of the random IV, the authentication tag and the ciphertext
+ */
+export function encryptPayload(
+  data: string,
+  key: Uint8Array,
+  associatedData: string
+): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(associatedData, "utf8"));
+  const ciphertext = Buffer.concat([
+    cipher.update(data, "utf8"),
+    cipher.final(),
+  ]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+/**
+ * Reverses `encryptPayload`.
+ *
+ * @param data - The encrypted payload, as base64
+ * @param key - The key it was encrypted with
+ * @param associatedData - The associated data it was encrypted with
+ * @throws Error when the key or associated data is wrong, or the data was
+ * tampered with
+ */
+export function decryptPayload(
+  data: string,
+  key: Uint8Array,
+  associatedData: string
+): string {
+  const bytes = Buffer.from(data, "base64");
+  if (bytes.length < IV_BYTES + TAG_BYTES) {
+    throw new Error("Encrypted payload is too short");
+  }
+  const decipher = createDecipheriv(ALGORITHM, key, bytes.subarray(0, IV_BYTES));
+  decipher.setAuthTag(bytes.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  decipher.setAAD(Buffer.from(associatedData, "utf8"));
+  return Buffer.concat([
+    decipher.update(bytes.subarray(IV_BYTES + TAG_BYTES)),
+    decipher.final(),
+  ]).toString("utf8");
+}
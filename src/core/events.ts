@@ -0,0 +1,88 @@
+import type { EventEmitter } from "events";
+import type { QueueEventMap } from "../interfaces/job.ts";
+
+/**
+ * Listener arguments of every queue event, the shape `EventEmitter` expects.
+ */
+export type QueueEventArgs<TJobMap> = {
+  [E in keyof QueueEventMap<TJobMap>]: [event: QueueEventMap<TJobMap>[E]];
+};
+
+/**
+ * Names of all events emitted by a queue.
+ */
+export const QUEUE_EVENT_TYPES = [
+  "beforePush",
+  "afterPush",
+  "beforeExec",
+  "afterExec",
+  "afterError",
+  "progress",
+  "afterComplete",
+  "afterFail",
+  "retrying",
+  "stalled",
+  "delayedPromoted",
+  "idle",
+  "drained",
+] as const satisfies ReadonlyArray<keyof QueueEventMap>;
+
+/**
+ * Subscribes to `types` right away and yields their events in emission order.
+ * Events are buffered until read. Listeners are removed once the iterator
+ * returns, e.g. when a `for await` loop exits, or when `signal` is aborted.
+ *
+ * @param emitter - The emitter to listen to
+ * @param types - Names of the events to yield
+ * @param signal - Ends the iteration when aborted
+ */
+export function eventIterator<T>(
+  emitter: EventEmitter,
+  types: readonly string[],
+  signal?: AbortSignal
+): AsyncIterableIterator<T> {
+  const buffer: T[] = [];
+  let wake: (() => void) | undefined;
+  let done = false;
+
+  const listener = (event: T) => {
+    buffer.push(event);
+    wake?.();
+  };
+  const close = () => {
+    if (done) return;
+    done = true;
+    for (const type of types) {
+      emitter.off(type, listener);
+    }
+    signal?.removeEventListener("abort", close);
+    wake?.();
+  };
+
+  for (const type of types) {
+    emitter.on(type, listener);
+  }
+  if (signal?.aborted) close();
+  signal?.addEventListener("abort", close, { once: true });
+
+  return {
+    async next(): Promise<IteratorResult<T>> {
+      while (buffer.length === 0 && !done) {
+        await new Promise<void>((resolve) => (wake = resolve));
+        wake = undefined;
+      }
+      const event = buffer.shift();
+      return event === undefined
+        ? { done: true, value: undefined }
+        : { done: false, value: event };
+    },
+    async return(): Promise<IteratorResult<T>> {
+      close();
+      buffer.length = 0;
+      return { done: true, value: undefined };
+    },
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+  };
+}
@@ -0,0 +1,303 @@
+import { Queue, QueueError } from "./queue.ts";
+import type { QueuePlugin } from "../interfaces/plugin.ts";
+
+export interface QueueManagerOptions {
+  /**
+   * Plugins shared by every registered queue, e.g. one `ecsTaskProtection`
+   * plugin for the whole process. Their `init` hook runs once when the
+   * manager starts and their cleanup once every queue stopped.
+   */
+  plugins?: QueuePlugin[];
+}
+
+/**
+ * Worker settings of a queue registered with a {@link QueueManager}.
+ */
+export interface ManagedQueueOptions {
+  /** Jobs processed at the same time, overrides the queue's `concurrency` */
+  concurrency?: number;
+  /** Jobs reserved per poll, overrides the queue's `batchSize` */
+  batchSize?: number;
+  /** Seconds between polls while the queue is empty (default: 3) */
+  timeout?: number;
+}
+
+/**
+ * Job counts of a queue, since it was registered with the manager.
+ */
+export interface QueueStats {
+  /** Jobs whose handler is running */
+  active: number;
+  completed: number;
+  /** Jobs that failed permanently */
+  failed: number;
+  /** Failed attempts that were retried */
+  retried: number;
+  /** Reservations that timed out and were put back */
+  stalled: number;
+}
+
+export interface QueueManagerStats {
+  queues: Array<QueueStats & { name: string; running: boolean }>;
+  /** Counts summed over all queues */
+  totals: QueueStats & { running: number };
+}
+
+interface ManagedQueue {
+  queue: Queue<any, any>;
+  options: ManagedQueueOptions;
+  stats: QueueStats;
+}
+
+/**
+ * Runs the workers of several queues in one process, possibly on different
+ * drivers, and stops them together.
+ *
+ * @example
+ * ```typescript
+ * const protection = new EcsProtectionManager();
+ * const manager = new QueueManager({
+ *   plugins: [ecsTaskProtection({ manager: protection })],
+ * });
+ *
+ * manager
+ *   .register(emailQueue, { concurrency: 10 })
+ *   .register(imageQueue, { concurrency: 2, timeout: 20 })
+ *   .register(reportQueue);
+ *
+ * process.once('SIGTERM', () => manager.stopAll({ timeoutMs: 30_000 }));
+ * await manager.startAll();
+ * await protection.cleanup();
+ * ```
+ */
+export class QueueManager {
+  private plugins: QueuePlugin[];
+  private managed = new Map<string, ManagedQueue>();
+  private controller?: AbortController;
+  /** Settles once the workers stopped and the shared plugins were disposed */
+  private exited?: Promise<void>;
+
+  constructor(options: QueueManagerOptions = {}) {
+    this.plugins = options.plugins ?? [];
+  }
+
+  /**
+   * Adds a queue, whose worker is started by `startAll()`. The shared plugins
+   * are added to the queue right away.
+   *
+   * @param queue - The queue, with its handlers set before `startAll()`
+   * @param options - Worker settings of the queue
+   * @returns The manager, for chaining
+   * @throws QueueError named "QueueErrorDuplicateQueue" when a queue with the
+   * same name is registered, or "QueueErrorManagerRunning" when the manager
+   * was already started
+   */
+  register(queue: Queue<any, any>, options: ManagedQueueOptions = {}): this {
+    if (this.exited) {
+      throw new QueueError({
+        name: "QueueErrorManagerRunning",
+        message: `Can't register queue ${queue.name} while the manager is running`,
+        cause: undefined,
+      });
+    }
+    if (this.managed.has(queue.name)) {
+      throw new QueueError({
+        name: "QueueErrorDuplicateQueue",
+        message: `A queue named ${queue.name} is already registered`,
+        cause: undefined,
+      });
+    }
+
+    const stats: QueueStats = { active: 0, completed: 0, failed: 0, retried: 0, stalled: 0 };
+    queue.on("beforeExec", () => stats.active++);
+    queue.on("afterExec", () => stats.active--);
+    queue.on("afterError", () => stats.active--);
+    queue.on("afterComplete", () => stats.completed++);
+    queue.on("afterFail", () => stats.failed++);
+    queue.on("retrying", () => stats.retried++);
+    queue.on("stalled", () => stats.stalled++);
+
+    // Shared plugins are initialized by the manager, so the queue only gets their hooks
+    for (const plugin of this.plugins) {
+      queue.use({
+        beforePoll: plugin.beforePoll?.bind(plugin),
+        beforeJob: plugin.beforeJob?.bind(plugin),
+        afterJob: plugin.afterJob?.bind(plugin),
+      });
+    }
+
+    this.managed.set(queue.name, { queue, options, stats });
+    return this;
+  }
+
+  /**
+   * Returns a registered queue.
+   *
+   * @param name - The queue name
+   */
+  get(name: string): Queue<any, any> | undefined {
+    return this.managed.get(name)?.queue;
+  }
+
+  /**
+   * Registered queues, in registration order.
+   */
+  get queues(): Queue<any, any>[] {
+    return [...this.managed.values()].map(({ queue }) => queue);
+  }
+
+  /**
+   * Initializes the shared plugins, then runs the worker of every registered
+   * queue. When a worker fails, the others are stopped.
+   *
+   * @param options.repeat - Keep polling for jobs until `stopAll()` (default:
+   * true). When false every worker stops once its queue is empty.
+   * @returns Promise that resolves once every worker stopped and the shared
+   * plugins were disposed
+   * @throws QueueError named "QueueErrorManagerRunning" when already started,
+   * or the error of the first worker that failed
+   */
+  async startAll(options: { repeat?: boolean } = {}): Promise<void> {
+    if (this.exited) {
+      throw new QueueError({
+        name: "QueueErrorManagerRunning",
+        message: "The queue manager is already running",
+        cause: undefined,
+      });
+    }
+
+    const controller = new AbortController();
+    this.controller = controller;
+    const done = this.runAll(options.repeat ?? true, controller);
+    this.exited = done.then(
+      () => undefined,
+      () => undefined
+    );
+
+    try {
+      await done;
+    } finally {
+      this.controller = undefined;
+      this.exited = undefined;
+    }
+  }
+
+  /**
+   * Stops the workers one at a time, in reverse registration order, each
+   * finishing its in-flight jobs like `Queue.stop()` before the next one is
+   * stopped, then disposes the shared plugins.
+   *
+   * @param options.timeoutMs - Maximum time to wait. When exceeded the promise
+   * rejects with a `QueueErrorStopTimeout` error while the workers keep
+   * shutting down in the background.
+   * @returns Promise that resolves once every worker stopped and the shared
+   * plugins were disposed
+   */
+  async stopAll(options: { timeoutMs?: number } = {}): Promise<void> {
+    const exited = this.exited;
+    if (!exited) return;
+    const stopped = this.stopInOrder(exited);
+
+    if (options.timeoutMs === undefined) {
+      return stopped;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        reject(
+          new QueueError({
+            name: "QueueErrorStopTimeout",
+            message: `Queues did not stop within ${options.timeoutMs}ms`,
+            cause: undefined,
+          })
+        );
+      }, options.timeoutMs);
+    });
+
+    try {
+      await Promise.race([stopped, timedOut]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async stopInOrder(exited: Promise<void>): Promise<void> {
+    for (const queue of this.queues.reverse()) {
+      await queue.stop();
+    }
+    // Workers still initializing when the others stopped
+    this.controller?.abort();
+    await exited;
+  }
+
+  /**
+   * Whether the manager was started and hasn't stopped yet.
+   */
+  get isRunning(): boolean {
+    return this.exited !== undefined;
+  }
+
+  /**
+   * Job counts of every registered queue and their totals.
+   */
+  stats(): QueueManagerStats {
+    const queues = [...this.managed.values()].map(({ queue, stats }) => ({
+      name: queue.name,
+      running: queue.isRunning,
+      ...stats,
+    }));
+
+    const totals = { running: 0, active: 0, completed: 0, failed: 0, retried: 0, stalled: 0 };
+    for (const { running, ...counts } of queues) {
+      if (running) totals.running++;
+      totals.active += counts.active;
+      totals.completed += counts.completed;
+      totals.failed += counts.failed;
+      totals.retried += counts.retried;
+      totals.stalled += counts.stalled;
+    }
+    return { queues, totals };
+  }
+
+  private async runAll(repeat: boolean, controller: AbortController): Promise<void> {
+    const queues = this.queues;
+    const disposers: Array<() => Promise<void>> = [];
+    let failure: { error: unknown } | undefined;
+
+    try {
+      // Each shared plugin is initialized exactly once, for all queues
+      const [first] = queues;
+      if (first) {
+        for (const plugin of this.plugins) {
+          const dispose = await plugin.init?.({ queue: first, queues });
+          if (dispose) disposers.push(dispose);
+        }
+      }
+
+      await Promise.all(
+        [...this.managed.values()].map(({ queue, options }) =>
+          queue
+            .run(repeat, options.timeout ?? 3, {
+              concurrency: options.concurrency,
+              batchSize: options.batchSize,
+              signal: controller.signal,
+            })
+            .catch((error) => {
+              failure ??= { error };
+              controller.abort();
+            })
+        )
+      );
+    } finally {
+      // Disposed in reverse order, after every worker stopped
+      for (const dispose of disposers.reverse()) {
+        await dispose().catch((error) => {
+          console.error("Plugin dispose error:", error);
+        });
+      }
+    }
+
+    if (failure) throw failure.error;
+  }
+}
@@ -1,14 +1,54 @@
 import { EventEmitter } from "events";
+import { randomUUID } from "crypto";
 import type {
   JobStatus,
   JobMeta,
   QueueMessage,
   QueueEvent,
+  QueueEventMap,
   BaseJobRequest,
   JobContext,
   JobHandlers,
+  BackoffPolicy,
+  RetryOptions,
+  DeadLetterPayload,
+  JobProgress,
+  JobResult,
+  BaseJobOptions,
+  FlowJob,
+  FlowNode,
+  RateLimitOptions,
+  BulkJob,
+  AddJobResult,
+  PushResult,
+  JobInfo,
+  JobFilter,
+  JobCounts,
+  FinishedJobStatus,
 } from "../interfaces/job.ts";
-import type { QueuePlugin, QueueOptions } from "../interfaces/plugin.ts";
+import type {
+  QueuePlugin,
+  QueueOptions,
+  RunOptions,
+} from "../interfaces/plugin.ts";
+import type { JobSchemas, StandardSchemaV1 } from "../interfaces/schema.ts";
+import type {
+  CompressionOptions,
+  EncryptionOptions,
+  Serializer,
+} from "../interfaces/serializer.ts";
+import type { ClaimCheckOptions } from "../interfaces/blob-store.ts";
+import { jsonSerializer, typedJsonSerializer } from "../serializers/json.ts";
+import { msgpackSerializer } from "../serializers/msgpack.ts";
+import { computeBackoff } from "./backoff.ts";
+import { compressPayload, decompressPayload } from "./compression.ts";
+import { decryptPayload, encryptPayload } from "./encryption.ts";
+import { InProcessRateLimiter } from "./rate-limit.ts";
+import {
+  eventIterator,
+  QUEUE_EVENT_TYPES,
+  type QueueEventArgs,
+} from "./events.ts";
 
 /**
  * Abstract queue class providing event-based job processing.
@@ -46,10 +86,42 @@ import type { QueuePlugin, QueueOptions } from "../interfaces/plugin.ts";
 export abstract class Queue<
   TJobMap = Record<string, any>,
   TJobRequest extends BaseJobRequest<any> = BaseJobRequest<any>
-> extends EventEmitter {
+> extends EventEmitter<QueueEventArgs<TJobMap>> {
   protected ttrDefault = 300;
+  protected concurrency = 1;
+  protected batchSize = 1;
+  protected maxAttempts = 1;
+  protected backoff?: BackoffPolicy;
+  protected jobOptions: Record<string, RetryOptions>;
+  protected rateLimits: Record<string, RateLimitOptions>;
+  protected schemas: JobSchemas;
+  protected serializer: Serializer = jsonSerializer;
+  protected compression?: CompressionOptions;
+  protected encryption?: EncryptionOptions;
+  protected claimCheck?: ClaimCheckOptions;
+  protected deadLetter?: Queue<any, any>;
+  protected resultRetentionSeconds = 86400;
   protected plugins: QueuePlugin[];
   protected pluginDisposers: Array<() => Promise<void>> = [];
+  /** Active `run()` calls mapped to the controller that stops them. */
+  private activeRuns = new Map<Promise<void>, AbortController>();
+  /** Jobs being handled by this instance mapped to the controller that aborts them. */
+  private runningJobs = new Map<string, AbortController>();
+  /** Time of the last pruning of expired job results. */
+  private lastResultPrune = 0;
+  /** Rate limits of drivers without shared storage. */
+  private rateLimiter = new InProcessRateLimiter();
+  /** Time each reserved message's reservation expires, from its TTR. */
+  private reservedUntil = new WeakMap<QueueMessage, number>();
+  /** Payloads of decoded messages as stored by the driver, to push them again */
+  private storedPayloads = new WeakMap<QueueMessage, unknown>();
+  /** Serializers that decode stored jobs, by the name recorded with each job */
+  private serializers = new Map<string, Serializer>(
+    [jsonSerializer, typedJsonSerializer, msgpackSerializer].map((serializer) => [
+      serializer.name,
+      serializer,
+    ])
+  );
   public readonly name: string;
 
   /**
@@ -69,18 +141,85 @@ export abstract class Queue<
    */
   protected supportsLongPolling = false;
 
+  /**
+   * Indicates whether this queue driver supports `cancel()`.
+   * While a job runs, drivers that support cancellation are polled every
+   * `cancelPollIntervalMs` so jobs cancelled from other processes are aborted too.
+   */
+  protected supportsCancellation = false;
+  protected cancelPollIntervalMs = 1000;
+
+  /**
+   * Indicates whether this queue driver honours the `deduplicationId` job option.
+   */
+  protected supportsDeduplication = false;
+
+  /**
+   * Indicates whether this queue driver supports `addFlow()`, tracking which
+   * jobs wait for children and releasing them once their children completed.
+   */
+  protected supportsFlows = false;
+
+  /**
+   * Indicates whether this queue driver can extend the reservation of a
+   * running job, for `JobContext.extend()`.
+   */
+  protected supportsExtension = false;
+
+  /**
+   * Indicates whether this queue driver supports the admin methods that
+   * inspect and change stored jobs, such as `listJobs()` and `retry()`.
+   */
+  protected supportsAdmin = false;
+
   /**
    * Creates a new Queue instance.
    *
    * @param options - Configuration options
    * @param options.name - Required name for the queue
    * @param options.ttrDefault - Default time-to-run for jobs in seconds (default: 300)
+   * @param options.concurrency - Maximum number of jobs processed at the same time (default: 1)
+   * @param options.batchSize - Maximum number of jobs reserved per poll (default: 1)
+   * @param options.maxAttempts - Maximum number of attempts per job (default: 1)
+   * @param options.backoff - Delay policy between attempts
+   * @param options.jobOptions - Per job name retry settings
+   * @param options.rateLimits - Per job name rate limits
+   * @param options.schemas - Per job name payload schemas
+   * @param options.serializer - How payloads are stored (default: JSON)
+   * @param options.compression - Compresses payloads above a size threshold
+   * @param options.encryption - Keyring encrypting payloads with AES-256-GCM
+   * @param options.claimCheck - Offloads large payloads to a blob store
+   * @param options.deadLetter - Queue receiving jobs that failed permanently
+   * @param options.resultRetentionSeconds - How long finished job results are kept (default: 86400)
    * @param options.plugins - Array of plugins to use with this queue
+   * @throws QueueError named "QueueErrorEncryption" when the encryption keyring
+   * is invalid
    */
   constructor(options: QueueOptions) {
     super();
     this.name = options.name;
     if (options.ttrDefault) this.ttrDefault = options.ttrDefault;
+    if (options.concurrency) this.concurrency = options.concurrency;
+    if (options.batchSize) this.batchSize = options.batchSize;
+    if (options.maxAttempts) this.maxAttempts = options.maxAttempts;
+    this.backoff = options.backoff;
+    this.jobOptions = options.jobOptions ?? {};
+    this.rateLimits = options.rateLimits ?? {};
+    this.schemas = options.schemas ?? {};
+    if (options.serializer) {
+      this.serializer = options.serializer;
+      this.serializers.set(options.serializer.name, options.serializer);
+    }
+    this.compression = options.compression;
+    if (options.encryption) {
+      validateKeyring(options.encryption);
+      this.encryption = options.encryption;
+    }
+    this.claimCheck = options.claimCheck;
+    this.deadLetter = options.deadLetter;
+    if (options.resultRetentionSeconds !== undefined) {
+      this.resultRetentionSeconds = options.resultRetentionSeconds;
+    }
     this.plugins = options.plugins || [];
   }
 
@@ -90,7 +229,11 @@ export abstract class Queue<
    * @template K - The job name type from TJobMap
    * @param name - The name of the job type to add
    * @param request - Job request containing payload and options
-   * @returns Promise that resolves to the unique job ID
+   * @returns Promise that resolves to the unique job ID, or to a {@link JobHandle}
+   * when `handle: true` is passed. With a `deduplicationId` matching a pending
+   * job, that job's ID is returned instead.
+   * @throws QueueError named "QueueErrorDeduplicationNotSupported" if `deduplicationId`
+   * is given and the driver can't deduplicate jobs
    *
    * @example
    * ```typescript
@@ -109,13 +252,461 @@ export abstract class Queue<
    *   ttr: 3600,
    *   delaySeconds: 60
    * });
+   *
+   * // Retry up to 5 times with exponential backoff
+   * await queue.addJob('send-email', {
+   *   payload: { to: 'user@example.com', subject: 'Hello', body: 'World' },
+   *   maxAttempts: 5,
+   *   backoff: { type: 'exponential', delaySeconds: 10, jitter: true }
+   * });
+   *
+   * // Wait for the handler's return value
+   * const job = await queue.addJob('resize-image', {
+   *   payload: { url: 'https://example.com/a.png', width: 100, height: 100 },
+   *   handle: true
+   * });
+   * const thumbnailUrl = await job.waitUntilFinished({ timeoutMs: 30000 });
+   *
+   * // Add the refund once, however often the webhook is replayed within an hour
+   * await queue.addJob('refund', {
+   *   payload: { paymentId },
+   *   deduplicationId: `refund:${paymentId}`,
+   *   deduplicationSeconds: 3600
+   * });
    * ```
    */
+  addJob<K extends keyof TJobMap & string>(
+    name: K,
+    request: TJobRequest & { payload: TJobMap[K]; handle?: false }
+  ): Promise<string>;
+  addJob<K extends keyof TJobMap & string>(
+    name: K,
+    request: TJobRequest & { payload: TJobMap[K]; handle: true }
+  ): Promise<JobHandle>;
   async addJob<K extends keyof TJobMap & string>(
     name: K,
-    request: TJobRequest & { payload: TJobMap[K] }
+    request: TJobRequest & { payload: TJobMap[K]; handle?: boolean }
+  ): Promise<string | JobHandle> {
+    const { payload, handle, ...options } = request;
+    const validated = await this.validatePayload(name, payload);
+    const id = await this.pushJob(name, validated, options);
+    return handle ? new JobHandle(this, id) : id;
+  }
+
+  /**
+   * Adds a tree of jobs where every parent runs only after all of its children
+   * completed. Parents read their children's results with
+   * `getChildrenResults()` on the job context. When a child fails permanently
+   * or is cancelled, its parent fails too. When adding one of the jobs fails,
+   * the jobs of the flow added so far are cancelled before the error is thrown.
+   *
+   * @param flow - The parent job with its `children`, which can have children of their own
+   * @returns Promise resolving to the IDs of the added jobs, in the shape of the flow
+   * @throws QueueError named "QueueErrorFlowsNotSupported" if the driver can't track dependencies
+   *
+   * @example
+   * ```typescript
+   * const flow = await queue.addFlow({
+   *   name: 'merge-document',
+   *   payload: { documentId },
+   *   children: pages.map((page) => ({ name: 'ocr-page', payload: { documentId, page } }))
+   * });
+   *
+   * queue.setHandlers({
+   *   'ocr-page': async ({ payload }) => ocr(payload.page),
+   *   'merge-document': async ({ payload, getChildrenResults }) => {
+   *     const texts = Object.values(await getChildrenResults<string>());
+   *     await saveDocument(payload.documentId, texts.join('\n'));
+   *   }
+   * });
+   * ```
+   */
+  async addFlow(flow: FlowJob<TJobMap, TJobRequest>): Promise<FlowNode> {
+    if (!this.supportsFlows) {
+      throw new QueueError({
+        name: "QueueErrorFlowsNotSupported",
+        message: `${this.constructor.name} does not support job flows`,
+        cause: undefined,
+      });
+    }
+    const validated = await this.validateFlow(flow);
+
+    const pushed: string[] = [];
+    try {
+      return await this.pushFlow(validated, undefined, pushed);
+    } catch (error) {
+      await this.abandonFlow(pushed);
+      throw error;
+    }
+  }
+
+  /**
+   * Validates the payloads of a flow before any of its jobs is added.
+   */
+  private async validateFlow(
+    flow: FlowJob<TJobMap, TJobRequest>
+  ): Promise<FlowJob<TJobMap, TJobRequest>> {
+    const children = [];
+    for (const child of flow.children ?? []) {
+      children.push(await this.validateFlow(child));
+    }
+    const payload = await this.validatePayload(flow.name, flow.payload);
+    return { ...flow, payload, children } as FlowJob<TJobMap, TJobRequest>;
+  }
+
+  private async pushFlow(
+    flow: FlowJob<TJobMap, TJobRequest>,
+    parentId: string | undefined,
+    pushed: string[]
+  ): Promise<FlowNode> {
+    const { name, payload, children = [], ...options } = flow;
+    // The parent is added first, blocked until its children complete
+    const id = await this.pushJob(name, payload, options, {
+      parentId,
+      childCount: children.length,
+    });
+    pushed.push(id);
+
+    const nodes: FlowNode[] = [];
+    for (const child of children) {
+      nodes.push(await this.pushFlow(child, id, pushed));
+    }
+    return { id, name, children: nodes };
+  }
+
+  /**
+   * Cancels the jobs of a flow that couldn't be added completely, parents
+   * first, so no parent waits for a child that was never added and no child
+   * runs for a parent nobody knows about.
+   */
+  private async abandonFlow(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      await this.cancelJob(id).catch((error) => {
+        console.error("Error cancelling job of an incomplete flow:", error);
+      });
+    }
+  }
+
+  /**
+   * Adds many jobs at once using the driver's batch write where it has one
+   * (SQS `SendMessageBatch`, a single SQLite transaction, Mongoose
+   * `insertMany`, a Redis `MULTI`), instead of one round trip per job.
+   *
+   * @param jobs - Jobs with their name, payload and `addJob` options
+   * @returns Promise resolving to the outcome of every job, in input order. Jobs
+   * that couldn't be added are reported as failed, the others are still added.
+   *
+   * @example
+   * ```typescript
+   * const results = await queue.addJobs(
+   *   rows.map((row) => ({ name: 'import-row', payload: row }))
+   * );
+   * const failed = results.filter((result) => result.status === 'failed');
+   * ```
+   */
+  async addJobs(
+    jobs: BulkJob<TJobMap, TJobRequest>[]
+  ): Promise<AddJobResult[]> {
+    const results: AddJobResult[] = new Array(jobs.length);
+    const batch: Array<{
+      index: number;
+      payload: unknown;
+      data: unknown;
+      meta: JobMeta;
+    }> = [];
+
+    for (const [index, job] of jobs.entries()) {
+      const { name, payload, handle: _handle, ...options } = job as {
+        name: string;
+        payload: unknown;
+        handle?: boolean;
+      } & BaseJobOptions;
+      try {
+        const meta = this.buildMeta(name, options);
+        const validated = await this.validatePayload(name, payload);
+        const data = await this.encodePayload(validated, meta);
+        this.emitEvent({ type: "beforePush", name, payload: validated, meta });
+        batch.push({ index, payload: validated, data, meta });
+      } catch (error) {
+        results[index] = { status: "failed", error: error as Error };
+      }
+    }
+    if (batch.length === 0) return results;
+
+    const pushed = await this.pushMessages(
+      batch.map(({ data, meta }) => ({ payload: data, meta }))
+    ).catch((error) => {
+      throw QueueError.fromError({
+        message: "Error adding jobs to the queue",
+        cause: error,
+      });
+    });
+
+    batch.forEach(({ index, payload, meta }, position) => {
+      const result = pushed[position];
+      if (result && "id" in result) {
+        results[index] = { status: "added", id: result.id };
+        this.emitEvent({ type: "afterPush", id: result.id, name: meta.name, payload, meta });
+      } else {
+        results[index] = {
+          status: "failed",
+          error: QueueError.fromError({
+            message: "Error adding job to the queue",
+            cause: result?.error,
+          }),
+        };
+      }
+    });
+
+    return results;
+  }
+
+  /**
+   * Validates a payload against the schema of its job name, if it has one.
+   *
+   * @param name - The job name
+   * @param payload - The payload to validate
+   * @returns Promise resolving to the validated payload, as output by the schema
+   * @throws QueueErrorValidation when the payload doesn't match the schema
+   */
+  private async validatePayload(name: string, payload: unknown): Promise<any> {
+    const schema = this.schemas[name];
+    if (!schema) return payload;
+
+    const result = await schema["~standard"].validate(payload);
+    if (result.issues) {
+      throw new QueueErrorValidation(name, result.issues);
+    }
+    return result.value;
+  }
+
+  /**
+   * Serializes a payload for the driver, compressing it above the compression
+   * threshold, encrypting it and offloading it to the blob store above the
+   * claim-check threshold, and records how in the job meta. Payloads of the
+   * default JSON serializer that are neither compressed, encrypted nor
+   * offloaded are passed as they are, drivers store them in their native JSON
+   * form.
+   *
+   * @param payload - The payload to store
+   * @param meta - The job meta, updated with the serializer, compression, key ID and blob key
+   * @returns Promise resolving to the value to pass to the driver
+   * @throws QueueError named "QueueErrorSerialization" when the serializer fails
+   * @throws QueueError named "QueueErrorClaimCheck" when the blob store fails
+   */
+  private async encodePayload(payload: unknown, meta: JobMeta): Promise<unknown> {
+    delete meta.serializer;
+    delete meta.compression;
+    delete meta.encryptionKeyId;
+    delete meta.claimCheck;
+    const native = this.serializer === jsonSerializer;
+    if (native && !this.compression && !this.encryption && !this.claimCheck) {
+      return payload;
+    }
+
+    let data: string;
+    try {
+      data = this.serializer.serialize(payload);
+    } catch (error) {
+      throw new QueueError({
+        name: "QueueErrorSerialization",
+        message: `Error serializing the payload of job ${meta.name} with ${this.serializer.name}`,
+        cause: error,
+      });
+    }
+    let encoded = !native;
+
+    // Compression is decided per job, small payloads are stored as they are
+    const compressed = this.compression
+      ? await compressPayload(data, this.compression)
+      : undefined;
+    if (compressed !== undefined) {
+      meta.compression = this.compression?.algorithm ?? "gzip";
+      data = compressed;
+      encoded = true;
+    }
+
+    if (this.encryption) {
+      const { currentKeyId, keys } = this.encryption;
+      data = encryptPayload(data, keys[currentKeyId]!, this.associatedData(meta.name));
+      meta.encryptionKeyId = currentKeyId;
+      encoded = true;
+    }
+
+    // Only the blob key goes through the queue
+    if (
+      this.claimCheck &&
+      Buffer.byteLength(data, "utf8") >= (this.claimCheck.thresholdBytes ?? 65536)
+    ) {
+      const key = randomUUID();
+      await this.claimCheck.store.put(key, data).catch((error) => {
+        throw new QueueError({
+          name: "QueueErrorClaimCheck",
+          message: `Error storing the payload of job ${meta.name} in the blob store`,
+          cause: error,
+        });
+      });
+      meta.claimCheck = key;
+      data = key;
+      encoded = true;
+    }
+
+    if (!encoded) return payload;
+    if (!native) meta.serializer = this.serializer.name;
+    return data;
+  }
+
+  /**
+   * Replaces the stored payload of a reserved message with the decoded one,
+   * fetching it from the blob store, decrypting and decompressing it first
+   * when the job meta says so, then deserializing it with the recorded
+   * serializer, JSON when none is.
+   *
+   * @param message - The reserved queue message
+   * @throws QueueError named "QueueErrorSerialization" when the serializer or
+   * compression is unknown or fails
+   * @throws QueueError named "QueueErrorEncryption" when the key is unknown or
+   * decryption fails
+   * @throws QueueError named "QueueErrorClaimCheck" when the payload can't be
+   * fetched from the blob store
+   */
+  private async decodePayload(message: QueueMessage): Promise<void> {
+    const { serializer: name, compression, encryptionKeyId, claimCheck } = message.meta;
+    if (
+      name === undefined &&
+      compression === undefined &&
+      encryptionKeyId === undefined &&
+      claimCheck === undefined
+    ) {
+      return;
+    }
+
+    this.storedPayloads.set(message, message.payload);
+    let data = message.payload as string;
+    if (claimCheck !== undefined) {
+      if (!this.claimCheck) {
+        throw new QueueError({
+          name: "QueueErrorClaimCheck",
+          message: `The payload of job ${message.id} is in a blob store, but the queue has no claimCheck option`,
+          cause: undefined,
+        });
+      }
+      data = await this.claimCheck.store.get(claimCheck).catch((error) => {
+        throw new QueueError({
+          name: "QueueErrorClaimCheck",
+          message: `Error fetching the payload of job ${message.id} from the blob store`,
+          cause: error,
+        });
+      });
+    }
+    if (encryptionKeyId !== undefined) {
+      const key = this.encryption?.keys[encryptionKeyId];
+      if (!key) {
+        throw new QueueError({
+          name: "QueueErrorEncryption",
+          message: `Job ${message.id} was encrypted with the unknown key ${encryptionKeyId}`,
+          cause: undefined,
+        });
+      }
+      try {
+        data = decryptPayload(data, key, this.associatedData(message.meta.name));
+      } catch (error) {
+        throw new QueueError({
+          name: "QueueErrorEncryption",
+          message: `Error decrypting the payload of job ${message.id} with key ${encryptionKeyId}`,
+          cause: error,
+        });
+      }
+    }
+    if (compression !== undefined) {
+      try {
+        data = await decompressPayload(data, compression);
+      } catch (error) {
+        throw new QueueError({
+          name: "QueueErrorSerialization",
+          message: `Error decompressing the payload of job ${message.id} with ${compression}`,
+          cause: error,
+        });
+      }
+    }
+
+    const serializer = this.serializers.get(name ?? jsonSerializer.name);
+    if (!serializer) {
+      throw new QueueError({
+        name: "QueueErrorSerialization",
+        message: `Job ${message.id} was stored with the unknown serializer ${name}`,
+        cause: undefined,
+      });
+    }
+    try {
+      message.payload = serializer.deserialize(data);
+    } catch (error) {
+      throw new QueueError({
+        name: "QueueErrorSerialization",
+        message: `Error deserializing the payload of job ${message.id} with ${serializer.name}`,
+        cause: error,
+      });
+    }
+  }
+
+  /**
+   * Associated data of encrypted payloads, binding them to the queue and job
+   * name they were added with.
+   */
+  private associatedData(jobName: string): string {
+    return JSON.stringify([this.name, jobName]);
+  }
+
+  /**
+   * Deletes the offloaded payload of a finished job right away, or once the
+   * dead-letter retention period is over when the job failed or was
+   * cancelled. Errors are logged, the job itself is already finished.
+   *
+   * @param message - The finished queue message
+   * @param keep - Whether to keep the payload for the retention period
+   */
+  private async releaseBlob(message: QueueMessage, keep: boolean): Promise<void> {
+    const key = message.meta.claimCheck;
+    if (key === undefined || !this.claimCheck) return;
+
+    const { store, deadLetterRetentionSeconds = 604800 } = this.claimCheck;
+    const released = keep
+      ? store.expire(key, new Date(Date.now() + deadLetterRetentionSeconds * 1000))
+      : store.delete(key);
+    await released.catch((error) => {
+      console.error("Error releasing job payload blob:", error);
+    });
+  }
+
+  /**
+   * Builds the job meta and pushes the job to the driver, emitting the push events.
+   */
+  private async pushJob(
+    name: string,
+    payload: unknown,
+    options: BaseJobOptions,
+    flow: { parentId?: string; childCount?: number } = {}
   ): Promise<string> {
-    const { payload, ...options } = request;
+    const meta = this.buildMeta(name, options, flow);
+    const data = await this.encodePayload(payload, meta);
+    this.emitEvent({ type: "beforePush", name, payload, meta });
+
+    const id = await this.pushMessage(data, meta).catch((error) => {
+      throw QueueError.fromError({
+        message: "Error adding job to the queue",
+        cause: error,
+      });
+    });
+
+    this.emitEvent({ type: "afterPush", id, name, payload, meta });
+    return id;
+  }
+
+  private buildMeta(
+    name: string,
+    options: BaseJobOptions,
+    flow: { parentId?: string; childCount?: number } = {}
+  ): JobMeta {
     if (typeof name !== "string") {
       throw new QueueError({
         message: "Job name must be a string",
@@ -130,32 +721,33 @@ export abstract class Queue<
       priority: (options as any).priority ?? 0,
       pushedAt: new Date(),
     };
+    if (options.maxAttempts !== undefined) meta.maxAttempts = options.maxAttempts;
+    if (options.backoff !== undefined) meta.backoff = options.backoff;
+    if (flow.parentId !== undefined) meta.parentId = flow.parentId;
+    if (flow.childCount) meta.childCount = flow.childCount;
+    if (options.deduplicationId !== undefined) {
+      if (!this.supportsDeduplication) {
+        throw new QueueError({
+          name: "QueueErrorDeduplicationNotSupported",
+          message: `${this.constructor.name} does not support job deduplication`,
+          cause: undefined,
+        });
+      }
+      meta.deduplicationId = options.deduplicationId;
+      meta.deduplicationSeconds = options.deduplicationSeconds ?? 0;
+    }
+    return meta;
+  }
 
-    const event: QueueEvent = {
-      type: "beforePush",
-      name: name,
-      payload,
-      meta,
-    };
-    this.emit("beforePush", event);
-
-    const id = await this.pushMessage(payload, meta).catch((error) => {
-      throw QueueError.fromError({
-        message: "Error adding job to the queue",
-        cause: error,
-      });
-    });
-
-    const afterEvent: QueueEvent = {
-      type: "afterPush",
-      id,
-      name: name as string,
-      payload,
-      meta,
-    };
-    this.emit("afterPush", afterEvent);
-
-    return id;
+  /**
+   * Emits a queue event. Events are built from stored messages, whose payload
+   * isn't typed by `TJobMap` at this point.
+   *
+   * @param event - The event, emitted under its `type`
+   * @protected
+   */
+  protected emitEvent(event: QueueEvent): void {
+    (this as EventEmitter).emit(event.type, event);
   }
 
   /**
@@ -238,18 +830,46 @@ export abstract class Queue<
     }
   }
 
-  override on(
-    event: string | symbol,
-    listener: (...args: any[]) => void
-  ): this {
-    return super.on(event, listener);
+  /**
+   * Returns an async iterator over the queue's events, as an alternative to
+   * `on()`. Events are buffered from the moment this is called until they
+   * are read. The iterator ends when `signal` is aborted or the loop exits.
+   *
+   * @param options.types - Names of the events to yield (default: all events)
+   * @param options.signal - Ends the iteration when aborted
+   *
+   * @example
+   * ```typescript
+   * for await (const event of queue.events({ types: ['afterFail', 'stalled'], signal })) {
+   *   if (event.type === 'afterFail') {
+   *     alert(`${event.name} ${event.id} failed: ${event.error}`);
+   *   }
+   * }
+   * ```
+   */
+  events<E extends keyof QueueEventMap<TJobMap> = keyof QueueEventMap<TJobMap>>(
+    options: { types?: readonly E[]; signal?: AbortSignal } = {}
+  ): AsyncIterableIterator<QueueEventMap<TJobMap>[E]> {
+    return eventIterator(
+      this as EventEmitter,
+      options.types ?? QUEUE_EVENT_TYPES,
+      options.signal
+    );
   }
 
   /**
    * Starts the queue worker to process jobs continuously or once.
    *
+   * Up to `concurrency` jobs are kept in flight at the same time. New jobs are
+   * only reserved (and `beforePoll` only called) once a slot is free and the
+   * jobs of the previous poll have all started. With a `batchSize` above 1,
+   * up to that many jobs are reserved per poll. Buffered jobs whose TTR runs
+   * out before a slot frees up are skipped, and buffered jobs left when the
+   * run stops are put back in the queue.
+   *
    * @param repeat - Whether to continue processing jobs after completing all available jobs (default: false)
    * @param timeout - Polling timeout in seconds when no jobs are available (default: 0)
+   * @param options - Per-run options, e.g. `concurrency` to override the queue default
    * @returns Promise that resolves when processing stops
    *
    * @example
@@ -262,144 +882,752 @@ export abstract class Queue<
    *
    * // Run continuously with immediate polling (no delay)
    * await queue.run(true);
+   *
+   * // Run continuously with up to 10 jobs in flight
+   * await queue.run(true, 3, { concurrency: 10 });
+   *
+   * // Reserve up to 10 jobs per poll, e.g. one SQS receive call
+   * await queue.run(true, 20, { concurrency: 5, batchSize: 10 });
+   *
+   * // Stop when the process receives SIGTERM
+   * const controller = new AbortController();
+   * process.once('SIGTERM', () => controller.abort());
+   * await queue.run(true, 3, { signal: controller.signal });
    * ```
    */
-  async run(repeat: boolean = false, timeout: number = 0): Promise<void> {
+  async run(
+    repeat: boolean = false,
+    timeout: number = 0,
+    options: RunOptions = {}
+  ): Promise<void> {
     // Validate that handlers have been registered
     this.validateHandlers();
 
-    const disposers = [...this.pluginDisposers];
-
-    // 1. Initialize plugins if not already initialized
-    if (this.pluginDisposers.length === 0) {
-      for (const plugin of this.plugins) {
-        if (plugin.init) {
-          const dispose = await plugin.init({ queue: this as any });
-          if (dispose) {
-            this.pluginDisposers.push(dispose);
-            disposers.push(dispose);
-          }
-        }
-      }
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    if (options.signal?.aborted) {
+      controller.abort();
     }
+    options.signal?.addEventListener("abort", onAbort);
+
+    const done = this.runLoop(repeat, timeout, options, controller.signal);
+    this.activeRuns.set(done, controller);
 
     try {
-      // 2. Main processing loop (enhancing existing loop)
-      let stopped = false;
+      await done;
+    } finally {
+      this.activeRuns.delete(done);
+      options.signal?.removeEventListener("abort", onAbort);
+    }
+  }
 
-      while (!stopped) {
-        // Check if any plugin wants to stop
-        try {
-          for (const plugin of this.plugins) {
-            if (plugin.beforePoll) {
-              const result = await plugin.beforePoll();
-              if (result === "stop") {
-                stopped = true;
-                break;
-              }
-            }
-          }
-        } catch (error) {
-          console.error("Plugin beforePoll error:", error);
-          // Continue polling despite plugin error
-        }
-        if (stopped) break;
+  /**
+   * Gracefully stops every active `run()` of this queue.
+   *
+   * No new jobs are reserved and any poll sleep is interrupted. In-flight
+   * handlers are awaited and plugin disposers run before the returned promise
+   * resolves. A poll that is already waiting inside the driver (e.g. an SQS
+   * long poll) finishes first, and a job it returns is still processed.
+   *
+   * @param options.timeoutMs - Maximum time to wait for the runs to exit. When
+   * exceeded the promise rejects with a `QueueErrorStopTimeout` error while the
+   * runs keep shutting down in the background.
+   * @returns Promise that resolves once every run loop has exited
+   *
+   * @example
+   * ```typescript
+   * process.once('SIGTERM', async () => {
+   *   await queue.stop({ timeoutMs: 30_000 });
+   *   process.exit(0);
+   * });
+   * ```
+   */
+  async stop(options: { timeoutMs?: number } = {}): Promise<void> {
+    const runs = [...this.activeRuns.entries()];
+    for (const [, controller] of runs) {
+      controller.abort();
+    }
 
-        const message = await this.reserve(timeout).catch((error) => {
-          throw QueueError.fromError({
-            message: "Error reserving job",
-            cause: error,
-          });
-        });
-        if (!message) {
-          if (!repeat) break;
+    const exited = Promise.allSettled(runs.map(([done]) => done)).then(
+      () => undefined
+    );
+    if (options.timeoutMs === undefined) {
+      return exited;
+    }
 
-          // Apply minimum sleep time for drivers that don't support long polling
-          const sleepMs = this.supportsLongPolling
-            ? timeout * 1000
-            : Math.max(500, timeout * 1000);
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        reject(
+          new QueueError({
+            name: "QueueErrorStopTimeout",
+            message: `Queue did not stop within ${options.timeoutMs}ms`,
+            cause: undefined,
+          })
+        );
+      }, options.timeoutMs);
+    });
 
-          if (sleepMs > 0) {
-            await this.sleep(sleepMs);
-          }
-          continue;
-        }
+    try {
+      await Promise.race([exited, timedOut]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
 
-        // 3. Pre-execution hooks
-        try {
-          for (const plugin of this.plugins) {
-            if (plugin.beforeJob) {
-              await plugin.beforeJob(message);
-            }
+  /**
+   * Cancels a job. Waiting and delayed jobs are removed from the queue, reserved
+   * jobs are marked as cancelled and the `AbortSignal` of their running handler
+   * is aborted with a {@link QueueErrorJobCancelled}. Cancelled jobs are neither
+   * retried nor moved to the dead-letter queue.
+   *
+   * @param id - The job ID to cancel
+   * @returns Promise resolving to 'cancelled', or the job's status if it had already finished
+   * @throws QueueError named "QueueErrorCancelNotSupported" if the driver can't cancel jobs
+   *
+   * @example
+   * ```typescript
+   * const status = await queue.cancel(jobId);
+   * if (status !== 'cancelled') {
+   *   console.log(`Job already finished: ${status}`);
+   * }
+   * ```
+   */
+  async cancel(id: string): Promise<JobStatus> {
+    if (!this.supportsCancellation) {
+      throw new QueueError({
+        name: "QueueErrorCancelNotSupported",
+        message: `${this.constructor.name} does not support cancelling jobs`,
+        cause: undefined,
+      });
+    }
+
+    const status = await this.cancelJob(id).catch((error) => {
+      throw QueueError.fromError({
+        message: "Error cancelling job",
+        cause: error,
+      });
+    });
+
+    if (status === "cancelled") {
+      this.runningJobs.get(id)?.abort(new QueueErrorJobCancelled(id));
+    }
+    return status;
+  }
+
+  /**
+   * Adds a plugin to the queue. Its `init` hook is only called by a `run()`
+   * that initializes the queue's plugins, so it may not be called at all
+   * once the queue has run.
+   *
+   * @param plugin - The plugin to add
+   */
+  use(plugin: QueuePlugin): this {
+    this.plugins.push(plugin);
+    return this;
+  }
+
+  /**
+   * Counts the stored jobs per status.
+   *
+   * @returns Promise resolving to the number of jobs of every status
+   * @throws QueueError named "QueueErrorAdminNotSupported" if the driver can't inspect jobs
+   */
+  async countJobs(): Promise<JobCounts> {
+    this.assertAdmin();
+    return {
+      waiting: 0,
+      "waiting-children": 0,
+      delayed: 0,
+      reserved: 0,
+      done: 0,
+      failed: 0,
+      cancelled: 0,
+      ...(await this.countStoredJobs()),
+    };
+  }
+
+  /**
+   * Lists stored jobs, oldest first, with their payloads as stored. What is
+   * kept of finished jobs depends on the driver: the file driver keeps none,
+   * the Redis driver keeps failed jobs and the outcome of the others until
+   * their result expires, the database drivers keep every job.
+   *
+   * @param filter - Status, name and maximum number of the jobs, and the ID of
+   * the last job of the previous page
+   * @returns Promise resolving to the matching jobs
+   * @throws QueueError named "QueueErrorAdminNotSupported" if the driver can't inspect jobs
+   */
+  async listJobs(filter: JobFilter = {}): Promise<JobInfo[]> {
+    this.assertAdmin();
+    return this.findJobs({ ...filter, limit: filter.limit ?? 100 });
+  }
+
+  /**
+   * Reads a stored job with its payload decoded. Payloads this queue can't
+   * decode, e.g. without the key that encrypted them, are left as stored.
+   *
+   * @param id - The job ID
+   * @returns Promise resolving to the job, or undefined if it isn't stored
+   * @throws QueueError named "QueueErrorAdminNotSupported" if the driver can't inspect jobs
+   */
+  async inspectJob(id: string): Promise<JobInfo | undefined> {
+    this.assertAdmin();
+    const job = await this.findJob(id);
+    if (job?.payload === undefined || !job.meta) return job;
+
+    const message: QueueMessage = { id, payload: job.payload, meta: job.meta };
+    try {
+      await this.decodePayload(message);
+    } catch {
+      // Still worth showing, the meta tells what it takes to decode it
+      return job;
+    }
+    return { ...job, payload: message.payload };
+  }
+
+  /**
+   * Puts a failed job back in the queue with its attempts reset.
+   *
+   * @param id - The job ID
+   * @returns Promise resolving to false if the job didn't fail or its payload
+   * is no longer stored
+   * @throws QueueError named "QueueErrorAdminNotSupported" if the driver can't change jobs
+   */
+  async retry(id: string): Promise<boolean> {
+    this.assertAdmin();
+    return this.requeueJob(id);
+  }
+
+  /**
+   * Deletes a stored job, along with its offloaded payload. Running jobs
+   * must be cancelled instead.
+   *
+   * @param id - The job ID
+   * @returns Promise resolving to false if the job isn't stored
+   * @throws QueueError named "QueueErrorJobRunning" if the job is reserved
+   * @throws QueueError named "QueueErrorAdminNotSupported" if the driver can't change jobs
+   */
+  async removeJob(id: string): Promise<boolean> {
+    this.assertAdmin();
+    const job = await this.findJob(id);
+    if (!job) return false;
+    if (job.status === "reserved") {
+      throw new QueueError({
+        name: "QueueErrorJobRunning",
+        message: `Job ${id} is running, cancel it instead`,
+        cause: undefined,
+      });
+    }
+
+    const removed = await this.deleteJob(id);
+    if (removed && job.meta) {
+      await this.releaseBlob({ id, payload: job.payload, meta: job.meta }, false);
+    }
+    return removed;
+  }
+
+  /**
+   * Deletes the jobs with the given status that finished before a date.
+   * Offloaded payloads of failed and cancelled jobs expire on their own.
+   *
+   * @param status - 'done', 'failed' or 'cancelled'
+   * @param before - Jobs that finished before this date are deleted
+   * @returns Promise resolving to the number of deleted jobs
+   * @throws QueueError named "QueueErrorAdminNotSupported" if the driver can't change jobs
+   */
+  async purge(status: FinishedJobStatus, before: Date): Promise<number> {
+    this.assertAdmin();
+    return this.purgeJobs(status, before);
+  }
+
+  /**
+   * Moves a job to another queue, e.g. one with the same driver but another
+   * name. The job is decoded, added to `target` with its name, TTR, priority
+   * and retry options, available right away, and then deleted here. A
+   * failure in between leaves it in both queues rather than in none.
+   *
+   * @param id - The job ID
+   * @param target - The queue the job is added to
+   * @returns Promise resolving to the job ID in `target`, or undefined if the job isn't stored
+   * @throws QueueError named "QueueErrorJobRunning" if the job is reserved
+   * @throws QueueError named "QueueErrorPayloadUnavailable" if the driver no
+   * longer stores the payload of the finished job
+   * @throws QueueError named "QueueErrorAdminNotSupported" if the driver can't change jobs
+   */
+  async moveJob(id: string, target: Queue<any, any>): Promise<string | undefined> {
+    this.assertAdmin();
+    const job = await this.findJob(id);
+    if (!job) return undefined;
+    if (job.status === "reserved") {
+      throw new QueueError({
+        name: "QueueErrorJobRunning",
+        message: `Job ${id} is running, cancel it instead`,
+        cause: undefined,
+      });
+    }
+    if (job.payload === undefined || !job.meta) {
+      throw new QueueError({
+        name: "QueueErrorPayloadUnavailable",
+        message: `The payload of job ${id} is no longer stored`,
+        cause: undefined,
+      });
+    }
+
+    const message: QueueMessage = { id, payload: job.payload, meta: job.meta };
+    await this.decodePayload(message);
+    const { name, ttr, priority, maxAttempts, backoff } = job.meta;
+    const movedId = await target.addJob(name, {
+      payload: message.payload,
+      ttr,
+      priority,
+      maxAttempts,
+      backoff,
+    });
+    await this.removeJob(id);
+    return movedId;
+  }
+
+  private assertAdmin(): void {
+    if (!this.supportsAdmin) {
+      throw new QueueError({
+        name: "QueueErrorAdminNotSupported",
+        message: `${this.constructor.name} does not support inspecting jobs`,
+        cause: undefined,
+      });
+    }
+  }
+
+  /**
+   * Whether `run()` is currently processing jobs.
+   */
+  get isRunning(): boolean {
+    return this.activeRuns.size > 0;
+  }
+
+  /**
+   * The worker loop behind `run()`, exiting once `signal` is aborted.
+   */
+  private async runLoop(
+    repeat: boolean,
+    timeout: number,
+    options: RunOptions,
+    signal: AbortSignal
+  ): Promise<void> {
+    const concurrency = Math.max(1, options.concurrency ?? this.concurrency);
+    const batchSize = Math.max(1, options.batchSize ?? this.batchSize);
+    const disposers = [...this.pluginDisposers];
+
+    // 1. Initialize plugins if not already initialized
+    if (this.pluginDisposers.length === 0) {
+      for (const plugin of this.plugins) {
+        if (plugin.init) {
+          const dispose = await plugin.init({ queue: this as any });
+          if (dispose) {
+            this.pluginDisposers.push(dispose);
+            disposers.push(dispose);
           }
-        } catch (error) {
-          console.error("Plugin beforeJob error:", error);
-          // Continue processing despite plugin error
         }
+      }
+    }
+
+    // Jobs currently being processed by this run
+    const inFlight = new Set<Promise<void>>();
+    // Jobs reserved by this run that wait for a free slot, in reservation order
+    const buffered: QueueMessage[] = [];
+    // Whether `drained` and `idle` were emitted since jobs were last reserved,
+    // there is nothing to drain before the first job
+    let drained = true;
+    let idle = false;
+    // First error raised while completing or failing a job
+    let failure: { error: unknown } | undefined;
+
+    try {
+      // 2. Main processing loop (enhancing existing loop)
+      let stopped = false;
 
-        // 4. Execute job (with plugin hooks)
-        const handleResult = await this.handleMessage(message);
-
-        // 5. Post-execution hooks
-        try {
-          for (const plugin of this.plugins) {
-            if (plugin.afterJob) {
-              await plugin.afterJob(
-                message,
-                handleResult.success ? undefined : handleResult.error
-              );
+      while (!stopped && !failure && !signal.aborted) {
+        // Wait for a free slot before polling for more work
+        if (inFlight.size >= concurrency) {
+          await Promise.race(inFlight);
+          continue;
+        }
+
+        if (buffered.length === 0) {
+          // Check if any plugin wants to stop
+          try {
+            for (const plugin of this.plugins) {
+              if (plugin.beforePoll) {
+                const result = await plugin.beforePoll();
+                if (result === "stop") {
+                  stopped = true;
+                  break;
+                }
+              }
             }
+          } catch (error) {
+            console.error("Plugin beforePoll error:", error);
+            // Continue polling despite plugin error
           }
-        } catch (error) {
-          console.error("Plugin afterJob error:", error);
-          // Don't let plugin errors affect job completion
-        }
+          if (stopped || signal.aborted) break;
 
-        // Complete the job if successful, otherwise mark as failed
-        if (handleResult.success) {
-          await this.completeJob(message).catch((error) => {
-            throw QueueError.fromError({
-              message: "Error completing job",
-              cause: error,
-            });
-          });
-        } else {
-          await this.failJob(message, handleResult.error).catch((error) => {
+          // Taken before reserving, so reservations never outlive the computed expiry
+          const reservedAt = Date.now();
+          const messages = await this.reserveMany(timeout, batchSize).catch((error) => {
             throw QueueError.fromError({
-              message: "Error failing job",
+              message: "Error reserving job",
               cause: error,
             });
           });
+          if (messages.length === 0) {
+            if (!drained) {
+              drained = true;
+              this.emitEvent({ type: "drained" });
+            }
+            if (!idle && inFlight.size === 0) {
+              idle = true;
+              this.emitEvent({ type: "idle" });
+            }
+            if (!repeat) break;
+
+            // Apply minimum sleep time for drivers that don't support long polling
+            const sleepMs = this.supportsLongPolling
+              ? timeout * 1000
+              : Math.max(500, timeout * 1000);
+
+            if (sleepMs > 0) {
+              await this.sleep(sleepMs, signal);
+            }
+            continue;
+          }
+
+          drained = false;
+          idle = false;
+          for (const message of messages) {
+            const ttr = message.meta.ttr ?? this.ttrDefault;
+            this.reservedUntil.set(message, reservedAt + ttr * 1000);
+
+            // Jobs whose payload can't be decoded would fail the same way
+            // every time, so they fail right away
+            try {
+              await this.decodePayload(message);
+            } catch (error) {
+              await this.failPermanently(message, error);
+              continue;
+            }
+            buffered.push(message);
+          }
+          if (buffered.length === 0) continue;
         }
+
+        const message = buffered.shift()!;
+
+        // The driver hands out a job again once its TTR is over, so a job
+        // that waited that long in the buffer belongs to whoever got it next
+        if (this.reservationExpired(message)) continue;
+
+        // Jobs over their rate limit go back to the queue unprocessed
+        const deferred = await this.deferIfRateLimited(message).catch((error) => {
+          throw QueueError.fromError({
+            message: "Error applying rate limit",
+            cause: error,
+          });
+        });
+        if (deferred) continue;
+
+        // 3. Process the job without blocking the loop
+        const task: Promise<void> = this.processMessage(message)
+          .catch((error) => {
+            failure ??= { error };
+          })
+          .finally(() => {
+            inFlight.delete(task);
+          });
+        inFlight.add(task);
       }
     } finally {
+      // Never dispose plugins while jobs are still running
+      await Promise.all(inFlight);
+
+      // Put back buffered jobs right away instead of after their TTR
+      for (const message of buffered) {
+        if (this.reservationExpired(message)) continue;
+        await this.deferJob(message, 0).catch((error) => {
+          console.error("Error releasing reserved job:", error);
+        });
+      }
+
       // 6. Cleanup only if we initialized in this run
       for (const dispose of disposers.reverse()) {
         await dispose();
       }
     }
+
+    if (failure) {
+      throw failure.error;
+    }
+  }
+
+  /**
+   * Checks whether the reservation of a message taken by `runLoop` has expired.
+   */
+  private reservationExpired(message: QueueMessage): boolean {
+    const reservedUntil = this.reservedUntil.get(message);
+    return reservedUntil !== undefined && reservedUntil <= Date.now();
+  }
+
+  /**
+   * Takes a slot from the rate limit of the job's name, if it has one, and
+   * defers the job until the limit has room again when none is left.
+   *
+   * @returns Promise resolving to true when the job was deferred
+   */
+  private async deferIfRateLimited(message: QueueMessage): Promise<boolean> {
+    const name = message.meta.name ?? "";
+    const limit = this.rateLimits[name];
+    if (!limit) return false;
+
+    const key = limit.key ? `${name}:${limit.key(message.payload) ?? ""}` : name;
+    const waitMs = await this.consumeRateLimit(
+      key,
+      limit.max,
+      limit.durationSeconds * 1000
+    );
+    if (waitMs <= 0) return false;
+
+    await this.deferJob(message, waitMs / 1000);
+    return true;
+  }
+
+  /**
+   * Takes a slot from a rate limit. The default keeps limits in memory, so
+   * they only hold within this process. Drivers with shared storage override
+   * this so limits hold across all workers.
+   *
+   * @param key - The job name, followed by the custom key when the limit has one
+   * @param max - Maximum number of jobs per window
+   * @param durationMs - Window length in milliseconds
+   * @returns Promise resolving to 0 when the job may run, otherwise the milliseconds to wait
+   * @protected
+   */
+  protected async consumeRateLimit(
+    key: string,
+    max: number,
+    durationMs: number
+  ): Promise<number> {
+    return this.rateLimiter.consume(key, max, durationMs);
+  }
+
+  /**
+   * Runs a reserved message through the plugin hooks and its handler, then
+   * completes or fails it in the driver.
+   *
+   * @param message - The reserved queue message
+   * @returns Promise that resolves once the job has been completed or failed
+   * @protected
+   */
+  protected async processMessage(message: QueueMessage): Promise<void> {
+    // Pre-execution hooks
+    try {
+      for (const plugin of this.plugins) {
+        if (plugin.beforeJob) {
+          await plugin.beforeJob(message);
+        }
+      }
+    } catch (error) {
+      console.error("Plugin beforeJob error:", error);
+      // Continue processing despite plugin error
+    }
+
+    // Execute job (with plugin hooks)
+    const handleResult = await this.handleMessage(message);
+
+    // Post-execution hooks
+    try {
+      for (const plugin of this.plugins) {
+        if (plugin.afterJob) {
+          await plugin.afterJob(
+            message,
+            handleResult.success ? undefined : handleResult.error
+          );
+        }
+      }
+    } catch (error) {
+      console.error("Plugin afterJob error:", error);
+      // Don't let plugin errors affect job completion
+    }
+
+    // The driver already marked cancelled jobs, they are neither retried nor failed
+    if (
+      !handleResult.success &&
+      handleResult.error instanceof QueueErrorJobCancelled
+    ) {
+      await this.releaseBlob(message, true);
+      return;
+    }
+
+    // Complete the job if successful, otherwise retry or mark as failed
+    if (handleResult.success) {
+      await this.completeJob(message, handleResult.result).catch((error) => {
+        throw QueueError.fromError({
+          message: "Error completing job",
+          cause: error,
+        });
+      });
+      this.emitEvent({
+        type: "afterComplete",
+        id: message.id,
+        name: message.meta.name,
+        payload: message.payload,
+        meta: message.meta,
+        result: handleResult.result,
+      });
+      await this.releaseBlob(message, false);
+      await this.pruneExpiredResults();
+      return;
+    }
+
+    // Invalid payloads fail the same way every time, so they aren't retried
+    const retryDelay =
+      handleResult.error instanceof QueueErrorValidation
+        ? null
+        : this.getRetryDelay(message, handleResult.error);
+    if (retryDelay !== null) {
+      await this.retryJob(message, retryDelay).catch((error) => {
+        throw QueueError.fromError({
+          message: "Error retrying job",
+          cause: error,
+        });
+      });
+      this.emitEvent({
+        type: "retrying",
+        id: message.id,
+        name: message.meta.name,
+        payload: message.payload,
+        meta: message.meta,
+        error: handleResult.error,
+        attempt: message.meta.attempt ?? 1,
+        delaySeconds: retryDelay,
+      });
+    } else {
+      await this.failPermanently(message, handleResult.error);
+    }
+  }
+
+  /**
+   * Fails a job without retrying it, moving it to the dead-letter queue
+   * first if there is one.
+   *
+   * @param message - The reserved queue message
+   * @param reason - The error the job failed with
+   */
+  private async failPermanently(
+    message: QueueMessage,
+    reason: unknown
+  ): Promise<void> {
+    if (this.deadLetter) {
+      // If this throws the job stays reserved and is redelivered after its TTR
+      await this.moveToDeadLetter(message, reason).catch((error) => {
+        throw QueueError.fromError({
+          message: "Error moving job to the dead-letter queue",
+          cause: error,
+        });
+      });
+    }
+    await this.failJob(message, reason).catch((error) => {
+      throw QueueError.fromError({
+        message: "Error failing job",
+        cause: error,
+      });
+    });
+    this.emitEvent({
+      type: "afterFail",
+      id: message.id,
+      name: message.meta.name,
+      payload: message.payload,
+      meta: message.meta,
+      error: reason,
+    });
+    await this.releaseBlob(message, true);
+    await this.pruneExpiredResults();
+  }
+
+  /**
+   * Pushes a permanently failed job to the dead-letter queue.
+   *
+   * @param message - The failed queue message
+   * @param error - The last error thrown by the handler
+   * @returns Promise resolving to the job ID in the dead-letter queue
+   * @protected
+   */
+  protected async moveToDeadLetter(
+    message: QueueMessage,
+    error: unknown
+  ): Promise<string | undefined> {
+    if (!this.deadLetter) return undefined;
+
+    const payload: DeadLetterPayload = {
+      payload: message.payload,
+      meta: message.meta,
+      originalId: message.id,
+      queue: this.name,
+      error:
+        error instanceof Error
+          ? { name: error.name, message: error.message, stack: error.stack }
+          : { name: "Error", message: String(error) },
+      attempts: message.meta.attempt ?? 1,
+      failedAt: new Date().toISOString(),
+    };
+
+    return this.deadLetter.addJob(message.meta.name, { payload });
+  }
+
+  /**
+   * Decides whether a failed job gets another attempt.
+   *
+   * Settings are resolved from the job itself (`addJob` options), then the
+   * queue's `jobOptions` for the job name, then the queue defaults.
+   *
+   * @param message - The failed queue message
+   * @param error - The error that caused the failure
+   * @returns Seconds to wait before the next attempt, or null when attempts are used up
+   * @protected
+   */
+  protected getRetryDelay(message: QueueMessage, error: unknown): number | null {
+    const jobOptions = this.jobOptions[message.meta.name] ?? {};
+    const maxAttempts =
+      message.meta.maxAttempts ?? jobOptions.maxAttempts ?? this.maxAttempts;
+    const attempt = message.meta.attempt ?? 1;
+
+    if (attempt >= maxAttempts) {
+      return null;
+    }
+
+    const backoff = message.meta.backoff ?? jobOptions.backoff ?? this.backoff;
+    return computeBackoff(backoff, attempt, error);
   }
 
   /**
    * Processes a single queue message by executing its registered handlers.
    *
    * @param message - The queue message to process
-   * @returns Promise resolving to true if processing succeeded, false if it failed
+   * @returns Promise resolving to the handler's return value on success, or the error on failure
    * @protected
    */
   protected async handleMessage(
     message: QueueMessage
-  ): Promise<{ success: true } | { success: false; error: Error }> {
+  ): Promise<
+    { success: true; result: unknown } | { success: false; error: Error }
+  > {
     try {
       // Parse the job data (this may have been modified by plugins)
-      const beforeEvent: QueueEvent = {
+      this.emitEvent({
         type: "beforeExec",
         id: message.id,
         name: message.meta.name,
         payload: message.payload,
         meta: message.meta,
-      };
-      this.emit("beforeExec", beforeEvent);
+      });
 
       // Get the registered handler for this job type
       const handler = this.handlers.get(message.meta.name);
@@ -411,35 +1639,331 @@ export abstract class Queue<
         });
       }
 
+      // Validate again, payloads may come from producers that skipped it
+      const payload = await this.validatePayload(message.meta.name, message.payload);
+
+      // Enforce the TTR so the handler doesn't outlive its reservation,
+      // which started earlier for jobs that waited in the buffer
+      const ttr = message.meta.ttr ?? this.ttrDefault;
+      const controller = new AbortController();
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const expireAt = (reservedUntil: number) => {
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          controller.abort(
+            new QueueErrorTimeout({
+              message: `Job ${message.id} (${message.meta.name}) exceeded its TTR of ${ttr}s`,
+              cause: undefined,
+            })
+          );
+        }, Math.min(Math.max(reservedUntil - Date.now(), 0), MAX_TIMER_MS));
+      };
+      expireAt(this.reservedUntil.get(message) ?? Date.now() + ttr * 1000);
+
+      // Abort the handler when the job is cancelled, here or by another process
+      this.runningJobs.set(message.id, controller);
+      const cancelPoll = this.supportsCancellation
+        ? setInterval(() => {
+            this.isCancelled(message.id).then(
+              (cancelled) => {
+                if (cancelled) {
+                  controller.abort(new QueueErrorJobCancelled(message.id));
+                }
+              },
+              (error) => console.error("Error checking job cancellation:", error)
+            );
+          }, this.cancelPollIntervalMs)
+        : undefined;
+
       // Create job context object with full job information
       const jobContext: JobContext<any> = {
         id: message.id,
-        payload: message.payload,
+        payload,
         meta: message.meta,
         pushedAt: message.meta.pushedAt,
         reservedAt: message.meta.reservedAt,
+        signal: controller.signal,
+        updateProgress: (progress) => this.updateProgress(message, progress),
+        extend: async (seconds = ttr) => {
+          controller.signal.throwIfAborted();
+          expireAt(await this.extendReservation(message, seconds));
+        },
+        getChildrenResults: async <TResult>() =>
+          (await this.getChildrenResults(message.id)) as Record<string, TResult>,
       };
 
       // Execute the handler with job context and queue reference
-      const result = await handler(jobContext, this);
+      let result: unknown;
+      try {
+        result = await Promise.race([
+          handler(jobContext, this),
+          rejectOnAbort(controller.signal),
+        ]);
+      } finally {
+        clearTimeout(timer);
+        clearInterval(cancelPoll);
+        this.runningJobs.delete(message.id);
+      }
+      // Handlers may settle from their own abort listener before the race sees it
+      controller.signal.throwIfAborted();
 
-      const afterEvent: QueueEvent = {
+      this.emitEvent({
         type: "afterExec",
         id: message.id,
         name: message.meta.name,
         payload: message.payload,
         meta: message.meta,
         result,
-      };
-      this.emit("afterExec", afterEvent);
+      });
 
-      return { success: true };
+      return { success: true, result };
     } catch (error) {
       await this.handleError(message, error);
       return { success: false, error: error as Error };
     }
   }
 
+  /**
+   * Persists a job's progress and emits the `progress` event.
+   *
+   * @param message - The running queue message
+   * @param progress - Progress value reported by the handler
+   * @protected
+   */
+  protected async updateProgress(
+    message: QueueMessage,
+    progress: JobProgress
+  ): Promise<void> {
+    await this.persistProgress(message.id, progress).catch((error) => {
+      throw QueueError.fromError({
+        message: "Error saving job progress",
+        cause: error,
+      });
+    });
+
+    this.emitEvent({
+      type: "progress",
+      id: message.id,
+      name: message.meta.name,
+      payload: message.payload,
+      meta: message.meta,
+      progress,
+    });
+  }
+
+  /**
+   * Stores the progress of a job in the queue backend.
+   * Drivers that can persist progress override this, the default only emits events.
+   *
+   * @param id - The job ID
+   * @param progress - Progress value reported by the handler
+   * @protected
+   */
+  protected async persistProgress(
+    id: string,
+    progress: JobProgress
+  ): Promise<void> {}
+
+  /**
+   * Retrieves the last progress reported by a job.
+   *
+   * @param id - The job ID
+   * @returns Promise resolving to the progress, or undefined if none was reported
+   * or the driver doesn't persist progress
+   */
+  async getProgress(id: string): Promise<JobProgress | undefined> {
+    return undefined;
+  }
+
+  /**
+   * Extends the reservation of a running job so it expires `seconds` from now.
+   *
+   * @param message - The running queue message
+   * @param seconds - Seconds from now until the reservation expires
+   * @returns Promise resolving to the new expiry time in milliseconds
+   * @throws QueueError named "QueueErrorExtendNotSupported" if the driver can't extend reservations
+   */
+  private async extendReservation(
+    message: QueueMessage,
+    seconds: number
+  ): Promise<number> {
+    if (!this.supportsExtension) {
+      throw new QueueError({
+        name: "QueueErrorExtendNotSupported",
+        message: `${this.constructor.name} does not support extending jobs`,
+        cause: undefined,
+      });
+    }
+
+    // Taken before the driver call, so the reservation never outlives it
+    const reservedUntil = Date.now() + seconds * 1000;
+    await this.extendJob(message, seconds).catch((error) => {
+      throw QueueError.fromError({
+        message: "Error extending job",
+        cause: error,
+      });
+    });
+    this.reservedUntil.set(message, reservedUntil);
+    return reservedUntil;
+  }
+
+  /**
+   * Moves the expiry of a reserved job to `seconds` from now, so it isn't
+   * handed out again while its handler still runs.
+   * Drivers that set `supportsExtension` override this.
+   *
+   * @param message - The running queue message
+   * @param seconds - Seconds from now until the reservation expires
+   * @protected
+   */
+  protected async extendJob(
+    message: QueueMessage,
+    seconds: number
+  ): Promise<void> {}
+
+  /**
+   * Removes a waiting or delayed job, or marks a reserved job as cancelled.
+   * Drivers that set `supportsCancellation` override this.
+   *
+   * @param id - The job ID to cancel
+   * @returns Promise resolving to 'cancelled', or the job's status if it had already finished
+   * @protected
+   */
+  protected async cancelJob(id: string): Promise<JobStatus> {
+    return this.status(id);
+  }
+
+  /**
+   * Checks whether a reserved job was cancelled, possibly by another process.
+   *
+   * @param id - The job ID
+   * @returns Promise resolving to true once the job is cancelled
+   * @protected
+   */
+  protected async isCancelled(id: string): Promise<boolean> {
+    return false;
+  }
+
+  /**
+   * Counts the stored jobs per status.
+   * Drivers that set `supportsAdmin` override this and the hooks below.
+   *
+   * @returns Promise resolving to the counts, statuses without jobs may be left out
+   * @protected
+   */
+  protected async countStoredJobs(): Promise<Partial<JobCounts>> {
+    return {};
+  }
+
+  /**
+   * Lists stored jobs matching the filter, oldest first.
+   *
+   * @param filter - The filter, with its limit defaulted
+   * @returns Promise resolving to the jobs, their payloads as stored
+   * @protected
+   */
+  protected async findJobs(filter: JobFilter & { limit: number }): Promise<JobInfo[]> {
+    return [];
+  }
+
+  /**
+   * Reads a stored job.
+   *
+   * @param id - The job ID
+   * @returns Promise resolving to the job, its payload as stored, or undefined if not found
+   * @protected
+   */
+  protected async findJob(id: string): Promise<JobInfo | undefined> {
+    return undefined;
+  }
+
+  /**
+   * Puts a failed job back in the queue with its attempts reset.
+   *
+   * @param id - The job ID
+   * @returns Promise resolving to false if the job can't be retried
+   * @protected
+   */
+  protected async requeueJob(id: string): Promise<boolean> {
+    return false;
+  }
+
+  /**
+   * Deletes a stored job, whatever its status.
+   *
+   * @param id - The job ID
+   * @returns Promise resolving to false if the job wasn't found
+   * @protected
+   */
+  protected async deleteJob(id: string): Promise<boolean> {
+    return false;
+  }
+
+  /**
+   * Deletes the jobs with the given status that finished before a date.
+   *
+   * @param status - Status of the deleted jobs
+   * @param before - Jobs that finished before this date are deleted
+   * @returns Promise resolving to the number of deleted jobs
+   * @protected
+   */
+  protected async purgeJobs(status: FinishedJobStatus, before: Date): Promise<number> {
+    return 0;
+  }
+
+  /**
+   * Retrieves the results of a parent job's completed children.
+   * Drivers that set `supportsFlows` override this.
+   *
+   * @param id - The parent job ID
+   * @returns Promise resolving to the children's results keyed by child job ID
+   * @protected
+   */
+  protected async getChildrenResults(
+    id: string
+  ): Promise<Record<string, unknown>> {
+    return {};
+  }
+
+  /**
+   * Retrieves the stored outcome of a finished job.
+   *
+   * @param id - The job ID
+   * @returns Promise resolving to the job result, or undefined while the job is
+   * unfinished, after its result expired, or when the driver doesn't store results
+   */
+  async getJobResult(id: string): Promise<JobResult | undefined> {
+    return undefined;
+  }
+
+  /**
+   * Removes results of jobs that finished before the given date.
+   * Drivers that store results override this, the default does nothing.
+   *
+   * @param before - Results of jobs finished before this date are removed
+   * @protected
+   */
+  protected async pruneResults(before: Date): Promise<void> {}
+
+  /**
+   * Calls `pruneResults`, and prunes expired blobs of the claim-check store,
+   * at most once a minute (or once per retention period when shorter), so
+   * finished jobs don't pay for it every time.
+   */
+  private async pruneExpiredResults(): Promise<void> {
+    const now = Date.now();
+    const retentionMs = this.resultRetentionSeconds * 1000;
+    if (now - this.lastResultPrune < Math.min(retentionMs, 60_000)) return;
+    this.lastResultPrune = now;
+
+    await this.pruneResults(new Date(now - retentionMs)).catch((error) => {
+      console.error("Error pruning job results:", error);
+    });
+    await this.claimCheck?.store.prune().catch((error) => {
+      console.error("Error pruning job payload blobs:", error);
+    });
+  }
+
   /**
    * Handles errors that occur during job processing by emitting error events.
    *
@@ -452,20 +1976,38 @@ export abstract class Queue<
     message: QueueMessage,
     error: unknown
   ): Promise<boolean> {
-    const errorEvent: QueueEvent = {
+    this.emitEvent({
       type: "afterError",
       id: message.id,
       name: message.meta.name,
       payload: message.payload,
       meta: message.meta,
       error,
-    };
-    this.emit("afterError", errorEvent);
+    });
     return false; // Job failed
   }
 
-  protected async sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  /**
+   * Waits for the given time, resolving early when the signal is aborted.
+   *
+   * @param ms - Time to wait in milliseconds
+   * @param signal - Optional signal that interrupts the sleep
+   * @protected
+   */
+  protected async sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return;
+
+    return new Promise((resolve) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
   }
 
   // Abstract methods that drivers must implement
@@ -473,8 +2015,10 @@ export abstract class Queue<
   /**
    * Pushes a new message to the queue storage backend.
    *
-   * @param payload - Job data before serialization
-   * @param meta - Job metadata including TTR, delaySeconds, priority
+   * @param payload - Job data, a string when it was serialized other than as
+   * native JSON or compressed
+   * @param meta - Job metadata including TTR, delaySeconds, priority, serializer
+   * and compression
    * @returns Promise resolving to unique job ID
    * @protected
    * @abstract
@@ -494,15 +2038,37 @@ export abstract class Queue<
    */
   protected abstract reserve(timeout: number): Promise<QueueMessage | null>;
 
+  /**
+   * Reserves up to `limit` jobs at once, in the order `reserve` would return them.
+   * The default reserves a single job, drivers that can claim several jobs
+   * in one round-trip override this.
+   *
+   * @param timeout - Polling timeout in seconds
+   * @param limit - Maximum number of jobs to reserve
+   * @returns Promise resolving to the reserved messages, empty if no jobs are available
+   * @protected
+   */
+  protected async reserveMany(
+    timeout: number,
+    limit: number
+  ): Promise<QueueMessage[]> {
+    const message = await this.reserve(timeout);
+    return message ? [message] : [];
+  }
+
   /**
    * Marks a job as successfully completed and removes it from the queue.
    *
    * @param message - The queue message to complete
+   * @param result - Value returned by the job handler, stored by drivers that keep results
    * @returns Promise that resolves when job is marked as complete
    * @protected
    * @abstract
    */
-  protected abstract completeJob(message: QueueMessage): Promise<void>;
+  protected abstract completeJob(
+    message: QueueMessage,
+    result?: unknown
+  ): Promise<void>;
 
   /**
    * Marks a job as failed and handles failure appropriately (remove or retry).
@@ -518,16 +2084,232 @@ export abstract class Queue<
     error: unknown
   ): Promise<void>;
 
+  /**
+   * Returns the payload of a message as the driver stored it, before it was
+   * decoded, for drivers that push reserved messages again.
+   *
+   * @param message - A reserved queue message
+   * @protected
+   */
+  protected storedPayload(message: QueueMessage): unknown {
+    return this.storedPayloads.has(message)
+      ? this.storedPayloads.get(message)
+      : message.payload;
+  }
+
+  /**
+   * Puts a failed job back into the delayed state for another attempt.
+   *
+   * The default implementation pushes a copy of the job with an incremented
+   * `attempt` and completes the original one, so the retried job gets a new ID.
+   * Drivers override this to reschedule the job in place.
+   *
+   * @param message - The queue message that failed
+   * @param delaySeconds - Seconds to wait before the job is available again
+   * @returns Promise that resolves when the job has been rescheduled
+   * @protected
+   */
+  protected async retryJob(
+    message: QueueMessage,
+    delaySeconds: number
+  ): Promise<void> {
+    await this.pushMessage(this.storedPayload(message), {
+      ...message.meta,
+      delaySeconds,
+      attempt: (message.meta.attempt ?? 1) + 1,
+    });
+    await this.completeJob(message);
+  }
+
+  /**
+   * Puts a reserved job back into the delayed state without counting an
+   * attempt, used for jobs over their rate limit.
+   *
+   * The default implementation pushes a copy of the job and completes the
+   * original one, so the deferred job gets a new ID. Drivers override this to
+   * reschedule the job in place.
+   *
+   * @param message - The reserved queue message
+   * @param delaySeconds - Seconds to wait before the job is available again
+   * @returns Promise that resolves when the job has been rescheduled
+   * @protected
+   */
+  protected async deferJob(
+    message: QueueMessage,
+    delaySeconds: number
+  ): Promise<void> {
+    await this.pushMessage(this.storedPayload(message), {
+      ...message.meta,
+      delaySeconds,
+    });
+    await this.completeJob(message);
+  }
+
+  /**
+   * Pushes a batch of messages for `addJobs()`.
+   *
+   * The default implementation pushes them one by one. Drivers override this
+   * with their backend's batch write.
+   *
+   * @param messages - Payload and meta of every job to add
+   * @returns Promise resolving to the ID, or the error, of every message in order
+   * @protected
+   */
+  protected async pushMessages(
+    messages: Array<{ payload: unknown; meta: JobMeta }>
+  ): Promise<PushResult[]> {
+    const results: PushResult[] = [];
+    for (const { payload, meta } of messages) {
+      try {
+        results.push({ id: await this.pushMessage(payload, meta) });
+      } catch (error) {
+        results.push({ error });
+      }
+    }
+    return results;
+  }
+
   /**
    * Retrieves the current status of a job by its ID.
    *
    * @param id - The job ID to check
-   * @returns Promise resolving to job status ('waiting', 'reserved', 'done', 'failed')
+   * @returns Promise resolving to job status ('waiting', 'waiting-children', 'delayed', 'reserved', 'done', 'failed', 'cancelled')
    * @abstract
    */
   abstract status(id: string): Promise<JobStatus>;
 }
 
+/**
+ * Handle to a job added with `addJob(name, { ..., handle: true })`.
+ *
+ * @example
+ * ```typescript
+ * const job = await queue.addJob('resize-image', { payload, handle: true });
+ * const result = await job.waitUntilFinished({ timeoutMs: 30000 });
+ * ```
+ */
+export class JobHandle<TResult = unknown> {
+  constructor(
+    private readonly queue: Queue<any, any>,
+    public readonly id: string
+  ) {}
+
+  /**
+   * Retrieves the stored outcome of the job.
+   *
+   * @returns Promise resolving to the job result, or undefined while the job is unfinished
+   */
+  async result(): Promise<JobResult<TResult> | undefined> {
+    return (await this.queue.getJobResult(this.id)) as
+      | JobResult<TResult>
+      | undefined;
+  }
+
+  /**
+   * Waits until the job has finished by polling the queue for its result.
+   * Requires a driver that stores results (SQLite, Mongoose, Redis, InMemory).
+   *
+   * @param options.timeoutMs - Maximum time to wait, waits indefinitely when omitted
+   * @param options.pollIntervalMs - Time between result checks (default: 200)
+   * @returns Promise resolving to the handler's return value
+   * @throws QueueError named "QueueErrorJobFailed" with the stored error when the job failed
+   * @throws QueueErrorJobCancelled when the job was cancelled
+   * @throws QueueError named "QueueErrorResultExpired" when the job finished
+   * but its result was already pruned, see `resultRetentionSeconds`
+   * @throws QueueErrorTimeout when the job didn't finish within `timeoutMs`
+   */
+  async waitUntilFinished(
+    options: { timeoutMs?: number; pollIntervalMs?: number } = {}
+  ): Promise<TResult> {
+    const { timeoutMs, pollIntervalMs = 200 } = options;
+    const deadline = timeoutMs !== undefined ? Date.now() + timeoutMs : Infinity;
+
+    while (true) {
+      const outcome = await this.result() ?? await this.expiredResult();
+      if (outcome?.status === "done") {
+        return outcome.result;
+      }
+      if (outcome?.status === "failed") {
+        throw new QueueError({
+          name: "QueueErrorJobFailed",
+          message: outcome.error,
+          cause: undefined,
+        });
+      }
+      if (outcome?.status === "cancelled") {
+        throw new QueueErrorJobCancelled(this.id);
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new QueueErrorTimeout({
+          message: `Job ${this.id} did not finish within ${timeoutMs}ms`,
+          cause: undefined,
+        });
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, Math.min(pollIntervalMs, remaining))
+      );
+    }
+  }
+
+  /**
+   * Tells a job whose result was pruned from one that is still running.
+   *
+   * @returns Promise resolving to undefined while the job is unfinished
+   * @throws QueueError named "QueueErrorResultExpired" when it finished
+   */
+  private async expiredResult(): Promise<undefined> {
+    const status = await this.queue.status(this.id);
+    if (status !== "done" && status !== "failed" && status !== "cancelled") {
+      return undefined;
+    }
+    // The job may have finished between the two reads
+    if (await this.result()) return undefined;
+    throw new QueueError({
+      name: "QueueErrorResultExpired",
+      message: `Job ${this.id} finished, but its result is no longer stored`,
+      cause: undefined,
+    });
+  }
+}
+
+/** Largest delay setTimeout accepts before firing immediately (~24.8 days). */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/**
+ * Returns a promise that rejects with the signal's reason once it is aborted.
+ */
+function rejectOnAbort(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    signal.addEventListener("abort", () => reject(signal.reason), {
+      once: true,
+    });
+  });
+}
+
+/**
+ * Checks that the current key exists and that all keys are AES-256 keys.
+ */
+function validateKeyring({ keys, currentKeyId }: EncryptionOptions): void {
+  if (!keys[currentKeyId]) {
+    throw new QueueError({
+      name: "QueueErrorEncryption",
+      message: `The current key ${currentKeyId} is not in the keyring`,
+      cause: undefined,
+    });
+  }
+  for (const [id, key] of Object.entries(keys)) {
+    if (key.byteLength !== 32) {
+      throw new QueueError({
+        name: "QueueErrorEncryption",
+        message: `Key ${id} is ${key.byteLength} bytes long, AES-256 keys are 32 bytes`,
+        cause: undefined,
+      });
+    }
+  }
+}
+
 export class QueueError extends Error {
   constructor({
     name,
@@ -556,3 +2338,54 @@ export class QueueError extends Error {
     return error;
   }
 }
+
+/**
+ * Raised when a job handler runs longer than the job's TTR.
+ */
+export class QueueErrorTimeout extends QueueError {
+  constructor({ message, cause }: { message: string; cause: unknown }) {
+    super({ name: "QueueErrorTimeout", message, cause });
+  }
+}
+
+/**
+ * Thrown by `addJob` when a payload doesn't match the schema of its job name,
+ * and the error of jobs that fail validation in the worker, which aren't retried.
+ */
+export class QueueErrorValidation extends QueueError {
+  /** Name of the job whose payload is invalid */
+  readonly jobName: string;
+  /** Issues reported by the schema */
+  readonly issues: ReadonlyArray<StandardSchemaV1.Issue>;
+
+  constructor(jobName: string, issues: ReadonlyArray<StandardSchemaV1.Issue>) {
+    const details = issues
+      .map((issue) => {
+        const path = issue.path
+          ?.map((segment) => String(typeof segment === "object" ? segment.key : segment))
+          .join(".");
+        return path ? `${path}: ${issue.message}` : issue.message;
+      })
+      .join("; ");
+    super({
+      name: "QueueErrorValidation",
+      message: `Invalid payload for job ${jobName}: ${details}`,
+      cause: undefined,
+    });
+    this.jobName = jobName;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Raised in a running handler's `AbortSignal` when its job is cancelled.
+ */
+export class QueueErrorJobCancelled extends QueueError {
+  constructor(id: string) {
+    super({
+      name: "QueueErrorJobCancelled",
+      message: `Job ${id} was cancelled`,
+      cause: undefined,
+    });
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Fixed window rate limiter keeping its state in memory, so limits only hold
+ * within one process. Windows are aligned to multiples of their length, like
+ * the windows the SQLite, Mongoose and Redis drivers keep in their storage.
+ */
+export class InProcessRateLimiter {
+  /** Current window per key, dropped once it ended */
+  private windows = new Map<string, { start: number; end: number; count: number }>();
+  /** End of the earliest stored window, when stale windows are dropped */
+  private sweepAt = Infinity;
+
+  /**
+   * Takes a slot for `key` if fewer than `max` were taken in the current window.
+   *
+   * @param key - Rate limit key
+   * @param max - Maximum number of slots per window
+   * @param durationMs - Window length in milliseconds
+   * @param now - Current time in milliseconds
+   * @returns 0 when a slot was taken, otherwise the milliseconds until the next window
+   */
+  consume(
+    key: string,
+    max: number,
+    durationMs: number,
+    now: number = Date.now()
+  ): number {
+    if (now >= this.sweepAt) {
+      this.sweep(now);
+    }
+
+    const start = now - (now % durationMs);
+    const window = this.windows.get(key);
+
+    if (!window || window.start !== start) {
+      const end = start + durationMs;
+      this.windows.set(key, { start, end, count: 1 });
+      this.sweepAt = Math.min(this.sweepAt, end);
+      return 0;
+    }
+    if (window.count >= max) {
+      return window.end - now;
+    }
+
+    window.count++;
+    return 0;
+  }
+
+  /**
+   * Drops the windows that ended, so keys that aren't used anymore, e.g. per
+   * tenant, don't pile up.
+   */
+  private sweep(now: number): void {
+    this.sweepAt = Infinity;
+    for (const [key, window] of this.windows) {
+      if (window.end <= now) {
+        this.windows.delete(key);
+      } else {
+        this.sweepAt = Math.min(this.sweepAt, window.end);
+      }
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { QueueError } from "./queue.ts";
+import type {
+  JobSchemas,
+  JSONSchemaOptions,
+  StandardJSONSchemaV1,
+  StandardSchemaV1,
+} from "../interfaces/schema.ts";
+
+export interface ToJsonSchemaOptions {
+  /** JSON Schema dialect (default: "draft-2020-12") */
+  target?: string;
+  /**
+   * Converts a schema whose library doesn't implement Standard JSON Schema,
+   * e.g. with `@valibot/to-json-schema`
+   */
+  convert?: (schema: StandardSchemaV1, name: string) => Record<string, unknown>;
+}
+
+/**
+ * Describes the payload of every job as JSON Schema, e.g. to share the job
+ * contract with producers written in other languages.
+ *
+ * @param schemas - Payload schemas keyed by job name, as passed to the queue
+ * @param options - Target dialect and a fallback converter
+ * @returns JSON Schema of every job's payload, keyed by job name
+ * @throws QueueError named "QueueErrorJsonSchemaNotSupported" when a schema
+ * can't be converted and no `convert` option is given
+ *
+ * @example
+ * ```typescript
+ * await fs.writeFile('jobs.schema.json', JSON.stringify(toJsonSchema(schemas), null, 2));
+ * ```
+ */
+export function toJsonSchema(
+  schemas: JobSchemas,
+  options: ToJsonSchemaOptions = {}
+): Record<string, Record<string, unknown>> {
+  const jsonSchemaOptions: JSONSchemaOptions = {
+    target: options.target ?? "draft-2020-12",
+  };
+  const result: Record<string, Record<string, unknown>> = {};
+
+  for (const [name, schema] of Object.entries(schemas)) {
+    const standard = (schema as Partial<StandardJSONSchemaV1>)["~standard"];
+    if (standard?.jsonSchema) {
+      // Producers send the schema's input, before any transforms
+      result[name] = standard.jsonSchema.input(jsonSchemaOptions);
+    } else if (options.convert) {
+      result[name] = options.convert(schema, name);
+    } else {
+      throw new QueueError({
+        name: "QueueErrorJsonSchemaNotSupported",
+        message: `The ${schema["~standard"].vendor} schema of job ${name} can't be converted to JSON Schema, pass a convert option`,
+        cause: undefined,
+      });
+    }
+  }
+
+  return result;
+}
@@ -1,5 +1,5 @@
 import { Queue } from '../core/queue.ts';
-import type { JobStatus, JobMeta, QueueMessage, BaseJobOptions, WithPriority, WithDelay } from '../interfaces/job.ts';
+import type { JobStatus, JobMeta, JobProgress, JobResult, PushResult, QueueMessage, BaseJobOptions, WithPriority, WithDelay, JobInfo, JobFilter, JobCounts, FinishedJobStatus } from '../interfaces/job.ts';
 import type { DatabaseAdapter } from '../interfaces/database.ts';
 import type { QueueOptions } from '../interfaces/plugin.ts';
 
@@ -17,17 +17,44 @@ export class DbQueue<TJobMap = Record<string, any>> extends Queue<TJobMap, DbJob
     options: QueueOptions
   ) {
     super(options);
+    this.supportsCancellation = typeof db.cancelJob === 'function';
+    this.supportsFlows = typeof db.getChildrenResults === 'function';
+    this.supportsDeduplication = db.supportsDeduplication === true;
+    this.supportsExtension = typeof db.extendJob === 'function';
+    this.supportsAdmin = typeof db.countJobs === 'function';
   }
 
   get adapter(): DatabaseAdapter {
     return this.db;
   }
 
+  /**
+   * Moves the jobs stored before queues were named, which belong to the
+   * "default" queue, to this queue. Only jobs whose names have a handler on
+   * this queue are moved, so several queues can each take their own jobs:
+   * call it once per queue after upgrading, once its handlers are set.
+   *
+   * @returns Promise resolving to the number of moved jobs
+   */
+  async claimLegacyJobs(): Promise<number> {
+    return (await this.db.claimLegacyJobs?.([...this.handlers.keys()])) ?? 0;
+  }
+
   protected async pushMessage(payload: unknown, meta: JobMeta): Promise<string> {
     return await this.db.insertJob(payload, meta);
   }
 
+  protected override async pushMessages(
+    messages: Array<{ payload: unknown; meta: JobMeta }>
+  ): Promise<PushResult[]> {
+    if (!this.db.insertJobs) {
+      return super.pushMessages(messages);
+    }
+    return this.db.insertJobs(messages);
+  }
+
   protected async reserve(timeout: number): Promise<QueueMessage | null> {
+    await this.recoverStalledJobs();
     const record = await this.db.reserveJob(timeout);
     
     if (!record) {
@@ -41,8 +68,29 @@ export class DbQueue<TJobMap = Record<string, any>> extends Queue<TJobMap, DbJob
     };
   }
 
-  protected async completeJob(message: QueueMessage): Promise<void> {
-    await this.db.completeJob(message.id);
+  protected override async reserveMany(timeout: number, limit: number): Promise<QueueMessage[]> {
+    if (!this.db.reserveJobs || limit <= 1) {
+      return super.reserveMany(timeout, limit);
+    }
+
+    await this.recoverStalledJobs();
+    const records = await this.db.reserveJobs(timeout, limit);
+    return records.map((record) => ({
+      id: record.id,
+      payload: record.payload,
+      meta: record.meta,
+    }));
+  }
+
+  private async recoverStalledJobs(): Promise<void> {
+    const jobs = (await this.db.recoverStalledJobs?.()) ?? [];
+    for (const { id, name } of jobs) {
+      this.emitEvent({ type: 'stalled', id, name });
+    }
+  }
+
+  protected async completeJob(message: QueueMessage, result?: unknown): Promise<void> {
+    await this.db.completeJob(message.id, result);
   }
 
   protected async failJob(message: QueueMessage, error: unknown): Promise<void> {
@@ -50,6 +98,81 @@ export class DbQueue<TJobMap = Record<string, any>> extends Queue<TJobMap, DbJob
     await this.db.failJob(message.id, errorMessage);
   }
 
+  protected override async retryJob(message: QueueMessage, delaySeconds: number): Promise<void> {
+    await this.db.releaseJob(message.id, delaySeconds);
+  }
+
+  protected override async deferJob(message: QueueMessage, delaySeconds: number): Promise<void> {
+    await this.db.releaseJob(message.id, delaySeconds, false);
+  }
+
+  protected override async consumeRateLimit(key: string, max: number, durationMs: number): Promise<number> {
+    if (!this.db.consumeRateLimit) {
+      return super.consumeRateLimit(key, max, durationMs);
+    }
+    return this.db.consumeRateLimit(key, max, durationMs);
+  }
+
+  protected override async persistProgress(id: string, progress: JobProgress): Promise<void> {
+    await this.db.updateProgress?.(id, progress);
+  }
+
+  override async getProgress(id: string): Promise<JobProgress | undefined> {
+    const progress = await this.db.getProgress?.(id);
+    return progress ?? undefined;
+  }
+
+  protected override async cancelJob(id: string): Promise<JobStatus> {
+    const status = await this.db.cancelJob?.(id);
+    return status || 'done';
+  }
+
+  protected override async isCancelled(id: string): Promise<boolean> {
+    return (await this.db.getJobStatus(id)) === 'cancelled';
+  }
+
+  protected override async extendJob(message: QueueMessage, seconds: number): Promise<void> {
+    await this.db.extendJob?.(message.id, seconds);
+  }
+
+  protected override async getChildrenResults(id: string): Promise<Record<string, unknown>> {
+    return (await this.db.getChildrenResults?.(id)) ?? {};
+  }
+
+  override async getJobResult(id: string): Promise<JobResult | undefined> {
+    const result = await this.db.getJobResult?.(id);
+    return result ?? undefined;
+  }
+
+  protected override async pruneResults(before: Date): Promise<void> {
+    await this.db.pruneResults?.(before);
+  }
+
+  protected override async countStoredJobs(): Promise<Partial<JobCounts>> {
+    return (await this.db.countJobs?.()) ?? {};
+  }
+
+  protected override async findJobs(filter: JobFilter & { limit: number }): Promise<JobInfo[]> {
+    return (await this.db.listJobs?.(filter)) ?? [];
+  }
+
+  protected override async findJob(id: string): Promise<JobInfo | undefined> {
+    const job = await this.db.getJob?.(id);
+    return job ?? undefined;
+  }
+
+  protected override async requeueJob(id: string): Promise<boolean> {
+    return (await this.db.requeueJob?.(id)) ?? false;
+  }
+
+  protected override async deleteJob(id: string): Promise<boolean> {
+    return (await this.db.deleteJob?.(id)) ?? false;
+  }
+
+  protected override async purgeJobs(status: FinishedJobStatus, before: Date): Promise<number> {
+    return (await this.db.purgeJobs?.(status, before)) ?? 0;
+  }
+
   async status(id: string): Promise<JobStatus> {
     const status = await this.db.getJobStatus(id);
     return status || 'done';
@@ -2,7 +2,7 @@ import { promises as fs } from 'fs';
 import { open } from 'fs/promises';
 import path from 'path';
 import { Queue } from '../core/queue.ts';
-import type { QueueMessage, JobMeta, JobStatus, BaseJobOptions, WithDelay } from '../interfaces/job.ts';
+import type { QueueMessage, JobMeta, JobStatus, BaseJobOptions, WithDelay, JobInfo, JobFilter, JobCounts } from '../interfaces/job.ts';
 import type { QueueOptions } from '../interfaces/plugin.ts';
 
 // Driver-specific job request interface
@@ -15,7 +15,7 @@ export interface FileJobRequest<TPayload> extends BaseJobOptions, WithDelay {
 interface IndexData {
   lastId: number;
   waiting: Array<[id: string, ttr: number]>;
-  delayed: Array<[id: string, ttr: number, time: number]>;
+  delayed: Array<[id: string, ttr: number, time: number, attempt?: number]>;
   reserved: Array<[id: string, ttr: number, attempt: number, time: number]>;
 }
 
@@ -23,6 +23,15 @@ interface ReservedInfo {
   id: string;
   ttr: number;
   attempt: number;
+  /** Set when the job was taken from the reserved or delayed list */
+  from?: 'stalled' | 'delayedPromoted';
+}
+
+/** A job of the index, with its status and started attempts */
+interface IndexedJob {
+  id: string;
+  status: JobStatus;
+  attempts: number;
 }
 
 interface FileQueueOptions extends QueueOptions {
@@ -43,6 +52,9 @@ export class FileQueue<TJobMap = Record<string, any>> extends Queue<TJobMap, Fil
     this.dirMode = options.dirMode ?? 0o755;
     this.fileMode = options.fileMode;
     this.indexPath = path.join(this.path, 'queue.index.json');
+    this.supportsCancellation = true;
+    this.supportsExtension = true;
+    this.supportsAdmin = true;
   }
 
   async init(): Promise<void> {
@@ -108,17 +120,18 @@ export class FileQueue<TJobMap = Record<string, any>> extends Queue<TJobMap, Fil
             data.reserved.splice(i, 1);
             // Re-reserve it immediately with incremented attempt
             data.reserved.push([id, ttr, attempt + 1, now]);
-            return { id, ttr, attempt: attempt + 1 };
+            return { id, ttr, attempt: attempt + 1, from: 'stalled' };
           }
         }
 
-        // Check delayed jobs
+        // Check delayed jobs (retried jobs carry their previous attempt count)
         if (data.delayed.length > 0 && data.delayed[0] && data.delayed[0][2] <= now) {
           const item = data.delayed.shift();
           if (item) {
-            const [id, ttr] = item;
-            data.reserved.push([id, ttr, 1, now]);
-            return { id, ttr, attempt: 1 };
+            const [id, ttr, , previousAttempts = 0] = item;
+            const attempt = previousAttempts + 1;
+            data.reserved.push([id, ttr, attempt, now]);
+            return { id, ttr, attempt, from: 'delayedPromoted' };
           }
         }
 
@@ -136,6 +149,10 @@ export class FileQueue<TJobMap = Record<string, any>> extends Queue<TJobMap, Fil
       });
 
       if (reserved) {
+        if (reserved.from) {
+          this.emitEvent({ type: reserved.from, id: reserved.id });
+        }
+
         const jobPath = path.join(this.path, `job${reserved.id}.data`);
         const { payload, meta } = JSON.parse(await fs.readFile(jobPath, 'utf8'));
         
@@ -145,6 +162,13 @@ export class FileQueue<TJobMap = Record<string, any>> extends Queue<TJobMap, Fil
           meta: {
             ttr: reserved.ttr,
             name: meta.name,
+            attempt: reserved.attempt,
+            maxAttempts: meta.maxAttempts,
+            backoff: meta.backoff,
+            serializer: meta.serializer,
+            compression: meta.compression,
+            encryptionKeyId: meta.encryptionKeyId,
+            claimCheck: meta.claimCheck,
           }
         };
       }
@@ -167,6 +191,46 @@ export class FileQueue<TJobMap = Record<string, any>> extends Queue<TJobMap, Fil
     await this.complete(message.id);
   }
 
+  protected override async retryJob(message: QueueMessage, delaySeconds: number): Promise<void> {
+    await this.moveToDelayed(message.id, delaySeconds, true);
+  }
+
+  protected override async deferJob(message: QueueMessage, delaySeconds: number): Promise<void> {
+    await this.moveToDelayed(message.id, delaySeconds, false);
+  }
+
+  protected override async extendJob(message: QueueMessage, seconds: number): Promise<void> {
+    await this.touchIndex(async (data) => {
+      const item = data.reserved.find(item => item[0] === message.id);
+      if (!item) return;
+
+      // Reservations expire at reservation time + TTR, move the former so
+      // the job keeps its TTR for later attempts
+      item[3] = Math.floor(Date.now() / 1000) + Math.ceil(seconds) - item[1];
+    });
+  }
+
+  /**
+   * Moves a reserved job to the delayed list. Unless `countAttempt` is set,
+   * the reservation isn't counted as an attempt.
+   */
+  private async moveToDelayed(jobId: string, delaySeconds: number, countAttempt: boolean): Promise<void> {
+    await this.touchIndex(async (data) => {
+      const index = data.reserved.findIndex(item => item[0] === jobId);
+      if (index === -1) return;
+
+      const [id, ttr, attempt] = data.reserved[index]!;
+      data.reserved.splice(index, 1);
+
+      const executeTime = Math.floor(Date.now() / 1000) + Math.ceil(delaySeconds);
+      data.delayed.push([id, ttr, executeTime, countAttempt ? attempt : attempt - 1]);
+      data.delayed.sort((a, b) => {
+        if (a[2] !== b[2]) return a[2] - b[2];
+        return parseInt(a[0]) - parseInt(b[0]);
+      });
+    });
+  }
+
   async complete(id: string): Promise<void> {
     await this.touchIndex(async (data) => {
       const index = data.reserved.findIndex(item => item[0] === id);
@@ -183,6 +247,24 @@ export class FileQueue<TJobMap = Record<string, any>> extends Queue<TJobMap, Fil
     }
   }
 
+  /**
+   * Removes the job from the queue. The file queue keeps no history, so
+   * `status()` reports cancelled jobs as 'done' afterwards.
+   */
+  protected override async cancelJob(id: string): Promise<JobStatus> {
+    return (await this.remove(id)) ? 'cancelled' : this.status(id);
+  }
+
+  protected override async isCancelled(id: string): Promise<boolean> {
+    // Running jobs keep their data file until they are completed
+    try {
+      await fs.access(path.join(this.path, `job${id}.data`));
+      return false;
+    } catch {
+      return true;
+    }
+  }
+
   async status(id: string): Promise<JobStatus> {
     const status = await this.getJobStatus(id);
     return status || 'done';
@@ -221,6 +303,74 @@ export class FileQueue<TJobMap = Record<string, any>> extends Queue<TJobMap, Fil
     }
   }
 
+  protected override async countStoredJobs(): Promise<Partial<JobCounts>> {
+    const counts: Partial<JobCounts> = {};
+    for (const { status } of await this.indexedJobs()) {
+      counts[status] = (counts[status] ?? 0) + 1;
+    }
+    return counts;
+  }
+
+  /**
+   * Lists the unfinished jobs, the file queue keeps no history.
+   */
+  protected override async findJobs(filter: JobFilter & { limit: number }): Promise<JobInfo[]> {
+    const indexed = (await this.indexedJobs())
+      .filter(job => filter.status === undefined || job.status === filter.status)
+      .filter(job => filter.after === undefined || parseInt(job.id) > parseInt(filter.after))
+      .sort((a, b) => parseInt(a.id) - parseInt(b.id));
+
+    const jobs: JobInfo[] = [];
+    for (const job of indexed) {
+      if (jobs.length >= filter.limit) break;
+      const info = await this.readJob(job);
+      if (info && (filter.name === undefined || info.name === filter.name)) {
+        jobs.push(info);
+      }
+    }
+    return jobs;
+  }
+
+  protected override async findJob(id: string): Promise<JobInfo | undefined> {
+    const job = (await this.indexedJobs()).find(job => job.id === id);
+    return job && this.readJob(job);
+  }
+
+  protected override async deleteJob(id: string): Promise<boolean> {
+    return this.remove(id);
+  }
+
+  private async indexedJobs(): Promise<IndexedJob[]> {
+    return this.touchIndex((data): IndexedJob[] => {
+      const now = Math.floor(Date.now() / 1000);
+      return [
+        ...data.waiting.map(([id]) => ({ id, status: 'waiting' as const, attempts: 0 })),
+        // Delayed jobs whose time has come are reserved like waiting ones
+        ...data.delayed.map(([id, , time, attempts = 0]) => ({
+          id,
+          status: time > now ? 'delayed' as const : 'waiting' as const,
+          attempts,
+        })),
+        ...data.reserved.map(([id, , attempt]) => ({ id, status: 'reserved' as const, attempts: attempt })),
+      ];
+    });
+  }
+
+  private async readJob(job: IndexedJob): Promise<JobInfo | undefined> {
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(this.path, `job${job.id}.data`), 'utf8');
+    } catch {
+      // Finished since the index was read
+      return undefined;
+    }
+
+    const { payload, meta } = JSON.parse(content) as { payload: unknown; meta: JobMeta };
+    // Dates are stored as JSON strings
+    const pushedAt = meta.pushedAt ? new Date(meta.pushedAt) : undefined;
+    return { ...job, name: meta.name, payload, meta: { ...meta, pushedAt }, pushedAt };
+  }
+
   async clear(): Promise<void> {
     await this.touchIndex(async (data) => {
       data.lastId = 0;
@@ -1,5 +1,5 @@
 import { Queue } from '../core/queue.ts';
-import type { JobStatus, JobMeta, QueueMessage, BaseJobOptions, WithPriority, WithDelay } from '../interfaces/job.ts';
+import type { JobStatus, JobMeta, JobProgress, JobResult, QueueMessage, BaseJobOptions, WithPriority, WithDelay, JobInfo, JobFilter, JobCounts, FinishedJobStatus } from '../interfaces/job.ts';
 import type { QueueOptions } from '../interfaces/plugin.ts';
 
 // Driver-specific job request interface
@@ -13,12 +13,16 @@ interface InMemoryJobRecord {
   id: string;
   payload: unknown;
   meta: JobMeta;
-  status: 'waiting' | 'reserved' | 'done' | 'failed';
+  status: 'waiting' | 'waiting-children' | 'reserved' | 'done' | 'failed' | 'cancelled';
   pushedAt: Date;
   reservedAt?: Date;
   doneAt?: Date;
   expireTime?: number; // timestamp when TTR expires
   delayTime?: number; // timestamp when job becomes available
+  attempt: number; // number of times the job has been reserved
+  progress?: JobProgress;
+  pendingChildren: number; // children that haven't completed yet
+  result?: JobResult; // outcome kept until the result retention expires
   error?: string;
 }
 
@@ -78,15 +82,28 @@ export class InMemoryQueue<TJobMap = Record<string, any>> extends Queue<TJobMap,
   private reservedJobs = new Set<string>();
   private delayedJobs = new Map<string, NodeJS.Timeout>(); // job ID -> timeout handle
   private ttrTimeouts = new Map<string, NodeJS.Timeout>(); // job ID -> TTR timeout handle
+  private deduplication = new Map<string, { id: string; until: number }>(); // deduplication ID -> job
   private nextJobId = 1;
   private maxJobs: number;
 
   constructor(options: InMemoryQueueOptions) {
     super(options);
     this.maxJobs = options.maxJobs || 1000;
+    this.supportsCancellation = true;
+    this.supportsFlows = true;
+    this.supportsDeduplication = true;
+    this.supportsExtension = true;
+    this.supportsAdmin = true;
   }
 
   protected async pushMessage(payload: unknown, meta: JobMeta): Promise<string> {
+    const duplicateId = meta.deduplicationId !== undefined
+      ? this.findDuplicate(meta.deduplicationId)
+      : undefined;
+    if (duplicateId) {
+      return duplicateId;
+    }
+
     const id = (this.nextJobId++).toString();
     const now = new Date();
     
@@ -95,32 +112,48 @@ export class InMemoryQueue<TJobMap = Record<string, any>> extends Queue<TJobMap,
       payload,
       meta,
       status: 'waiting',
-      pushedAt: now
+      pushedAt: now,
+      attempt: 0,
+      pendingChildren: meta.childCount ?? 0
     };
 
     this.jobs.set(id, job);
-
-    // Handle delay
-    if (meta.delaySeconds && meta.delaySeconds > 0) {
-      job.delayTime = Date.now() + (meta.delaySeconds * 1000);
-      job.status = 'waiting';
-      
-      // Schedule job to become available after delay
-      const timeout = setTimeout(() => {
-        this.delayedJobs.delete(id);
-        this.addToWaitingQueue(id);
-      }, meta.delaySeconds * 1000);
-      
-      this.delayedJobs.set(id, timeout);
+    if (meta.deduplicationId !== undefined) {
+      this.deduplication.set(meta.deduplicationId, {
+        id,
+        until: now.getTime() + (meta.deduplicationSeconds ?? 0) * 1000
+      });
+    }
+    if (job.pendingChildren > 0) {
+      // Parents are enqueued once all of their children completed
+      job.status = 'waiting-children';
     } else {
-      // Add immediately to waiting queue
-      this.addToWaitingQueue(id);
+      this.enqueue(id, meta.delaySeconds ?? 0);
     }
     this.cleanupOldJobs();
     
     return id;
   }
 
+  /**
+   * Returns the job holding a deduplication ID, while it is queued, retries
+   * included, or inside its deduplication window.
+   */
+  private findDuplicate(deduplicationId: string): string | undefined {
+    const entry = this.deduplication.get(deduplicationId);
+    if (!entry) return undefined;
+
+    const job = this.jobs.get(entry.id);
+    const pending = job !== undefined &&
+      (job.status === 'waiting' || job.status === 'waiting-children');
+    if (pending || Date.now() < entry.until) {
+      return entry.id;
+    }
+
+    this.deduplication.delete(deduplicationId);
+    return undefined;
+  }
+
   protected async reserve(timeout: number): Promise<QueueMessage | null> {
     // Clean up expired TTR jobs first
     this.recoverExpiredJobs();
@@ -144,6 +177,7 @@ export class InMemoryQueue<TJobMap = Record<string, any>> extends Queue<TJobMap,
     job.status = 'reserved';
     job.reservedAt = new Date(now);
     job.expireTime = now + (ttr * 1000);
+    job.attempt++;
     
     this.reservedJobs.add(jobId);
     
@@ -157,31 +191,223 @@ export class InMemoryQueue<TJobMap = Record<string, any>> extends Queue<TJobMap,
     return {
       id: jobId,
       payload: job.payload,
-      meta: job.meta
+      meta: { ...job.meta, attempt: job.attempt }
     };
   }
 
-  protected async completeJob(message: QueueMessage): Promise<void> {
+  protected async completeJob(message: QueueMessage, result?: unknown): Promise<void> {
     const job = this.jobs.get(message.id);
-    if (!job) return;
+    if (!job || job.status === 'cancelled') return;
 
     job.status = 'done';
     job.doneAt = new Date();
+    job.result = { status: 'done', result };
     
     this.reservedJobs.delete(message.id);
     this.clearTtrTimeout(message.id);
+
+    const parent = job.meta.parentId ? this.jobs.get(job.meta.parentId) : undefined;
+    if (parent?.status === 'waiting-children' && --parent.pendingChildren === 0) {
+      parent.status = 'waiting';
+      this.enqueue(parent.id, parent.meta.delaySeconds ?? 0);
+    }
   }
 
   protected async failJob(message: QueueMessage, error: unknown): Promise<void> {
     const job = this.jobs.get(message.id);
-    if (!job) return;
+    if (!job || job.status === 'cancelled') return;
 
     job.status = 'failed';
     job.doneAt = new Date();
     job.error = error instanceof Error ? error.message : String(error);
+    job.result = { status: 'failed', error: job.error };
     
     this.reservedJobs.delete(message.id);
     this.clearTtrTimeout(message.id);
+    this.failParents(job, `failed: ${job.error}`);
+  }
+
+  /**
+   * Fail the parents waiting for a child that won't complete, up the tree.
+   */
+  private failParents(child: InMemoryJobRecord, reason: string): void {
+    let parent = child.meta.parentId ? this.jobs.get(child.meta.parentId) : undefined;
+    while (parent?.status === 'waiting-children') {
+      parent.status = 'failed';
+      parent.doneAt = new Date();
+      parent.error = `Child job ${child.id} ${reason}`;
+      parent.result = { status: 'failed', error: parent.error };
+
+      reason = `failed: ${parent.error}`;
+      child = parent;
+      parent = child.meta.parentId ? this.jobs.get(child.meta.parentId) : undefined;
+    }
+  }
+
+  protected override async retryJob(message: QueueMessage, delaySeconds: number): Promise<void> {
+    const job = this.jobs.get(message.id);
+    if (!job || job.status === 'cancelled') return;
+
+    job.status = 'waiting';
+    job.reservedAt = undefined;
+    job.expireTime = undefined;
+
+    this.reservedJobs.delete(message.id);
+    this.clearTtrTimeout(message.id);
+    this.enqueue(message.id, delaySeconds);
+  }
+
+  protected override async deferJob(message: QueueMessage, delaySeconds: number): Promise<void> {
+    const job = this.jobs.get(message.id);
+    if (!job) return;
+
+    // The reservation didn't run the job, so it doesn't count as an attempt
+    job.attempt--;
+    await this.retryJob(message, delaySeconds);
+  }
+
+  protected override async persistProgress(id: string, progress: JobProgress): Promise<void> {
+    const job = this.jobs.get(id);
+    if (job) {
+      job.progress = progress;
+    }
+  }
+
+  override async getProgress(id: string): Promise<JobProgress | undefined> {
+    return this.jobs.get(id)?.progress;
+  }
+
+  protected override async cancelJob(id: string): Promise<JobStatus> {
+    const job = this.jobs.get(id);
+    if (!job || (job.status !== 'waiting' && job.status !== 'waiting-children' && job.status !== 'reserved')) {
+      return this.status(id);
+    }
+
+    this.dequeue(id);
+    job.status = 'cancelled';
+    job.doneAt = new Date();
+    job.result = { status: 'cancelled' };
+    this.failParents(job, 'was cancelled');
+    return 'cancelled';
+  }
+
+  protected override async getChildrenResults(id: string): Promise<Record<string, unknown>> {
+    const results: Record<string, unknown> = {};
+    for (const job of this.jobs.values()) {
+      if (job.meta.parentId === id && job.result?.status === 'done') {
+        results[job.id] = job.result.result;
+      }
+    }
+    return results;
+  }
+
+  protected override async isCancelled(id: string): Promise<boolean> {
+    return this.jobs.get(id)?.status === 'cancelled';
+  }
+
+  protected override async extendJob(message: QueueMessage, seconds: number): Promise<void> {
+    const job = this.jobs.get(message.id);
+    if (!job || job.status !== 'reserved') return;
+
+    job.expireTime = Date.now() + seconds * 1000;
+
+    // Restart the TTR timeout from now
+    this.clearTtrTimeout(message.id);
+    const ttrTimeout = setTimeout(() => {
+      this.recoverJob(message.id);
+    }, seconds * 1000);
+    this.ttrTimeouts.set(message.id, ttrTimeout);
+  }
+
+  override async getJobResult(id: string): Promise<JobResult | undefined> {
+    return this.jobs.get(id)?.result;
+  }
+
+  protected override async pruneResults(before: Date): Promise<void> {
+    for (const job of this.jobs.values()) {
+      if (job.result && job.doneAt && job.doneAt < before) {
+        job.result = undefined;
+      }
+    }
+  }
+
+  protected override async countStoredJobs(): Promise<Partial<JobCounts>> {
+    const counts: Partial<JobCounts> = {};
+    for (const job of this.jobs.values()) {
+      const { status } = this.toJobInfo(job);
+      counts[status] = (counts[status] ?? 0) + 1;
+    }
+    return counts;
+  }
+
+  protected override async findJobs(filter: JobFilter & { limit: number }): Promise<JobInfo[]> {
+    const jobs: JobInfo[] = [];
+    // Jobs are kept in the order they were added
+    for (const job of this.jobs.values()) {
+      if (jobs.length >= filter.limit) break;
+      if (filter.after !== undefined && parseInt(job.id) <= parseInt(filter.after)) continue;
+      const info = this.toJobInfo(job);
+      if (
+        (filter.status === undefined || info.status === filter.status) &&
+        (filter.name === undefined || info.name === filter.name)
+      ) {
+        jobs.push(info);
+      }
+    }
+    return jobs;
+  }
+
+  protected override async findJob(id: string): Promise<JobInfo | undefined> {
+    const job = this.jobs.get(id);
+    return job && this.toJobInfo(job);
+  }
+
+  protected override async requeueJob(id: string): Promise<boolean> {
+    const job = this.jobs.get(id);
+    if (job?.status !== 'failed') return false;
+
+    job.status = 'waiting';
+    job.attempt = 0;
+    job.doneAt = undefined;
+    job.error = undefined;
+    job.result = undefined;
+    this.enqueue(id, 0);
+    return true;
+  }
+
+  protected override async deleteJob(id: string): Promise<boolean> {
+    if (!this.jobs.has(id)) return false;
+
+    this.dequeue(id);
+    this.jobs.delete(id);
+    return true;
+  }
+
+  protected override async purgeJobs(status: FinishedJobStatus, before: Date): Promise<number> {
+    let purged = 0;
+    for (const job of this.jobs.values()) {
+      if (job.status === status && job.doneAt && job.doneAt < before) {
+        this.jobs.delete(job.id);
+        purged++;
+      }
+    }
+    return purged;
+  }
+
+  private toJobInfo(job: InMemoryJobRecord): JobInfo {
+    return {
+      id: job.id,
+      name: job.meta.name,
+      status: job.status === 'waiting' && job.delayTime && job.delayTime > Date.now()
+        ? 'delayed'
+        : job.status,
+      payload: job.payload,
+      meta: job.meta,
+      attempts: job.attempt,
+      error: job.error,
+      pushedAt: job.pushedAt,
+      finishedAt: job.doneAt,
+    };
   }
 
   async status(id: string): Promise<JobStatus> {
@@ -195,11 +421,16 @@ export class InMemoryQueue<TJobMap = Record<string, any>> extends Queue<TJobMap,
           return 'delayed';
         }
         return 'waiting';
+      case 'waiting-children':
+        return 'waiting-children';
       case 'reserved':
         return 'reserved';
       case 'done':
-      case 'failed':
         return 'done';
+      case 'failed':
+        return 'failed';
+      case 'cancelled':
+        return 'cancelled';
       default:
         return 'done';
     }
@@ -212,9 +443,11 @@ export class InMemoryQueue<TJobMap = Record<string, any>> extends Queue<TJobMap,
     const stats = {
       total: this.jobs.size,
       waiting: 0,
+      waitingChildren: 0,
       reserved: 0,
       done: 0,
       failed: 0,
+      cancelled: 0,
       delayed: this.delayedJobs.size
     };
 
@@ -226,6 +459,9 @@ export class InMemoryQueue<TJobMap = Record<string, any>> extends Queue<TJobMap,
             stats.waiting++;
           }
           break;
+        case 'waiting-children':
+          stats.waitingChildren++;
+          break;
         case 'reserved':
           stats.reserved++;
           break;
@@ -235,6 +471,9 @@ export class InMemoryQueue<TJobMap = Record<string, any>> extends Queue<TJobMap,
         case 'failed':
           stats.failed++;
           break;
+        case 'cancelled':
+          stats.cancelled++;
+          break;
       }
     }
 
@@ -259,6 +498,7 @@ export class InMemoryQueue<TJobMap = Record<string, any>> extends Queue<TJobMap,
     this.reservedJobs.clear();
     this.delayedJobs.clear();
     this.ttrTimeouts.clear();
+    this.deduplication.clear();
     this.nextJobId = 1;
   }
 
@@ -269,6 +509,45 @@ export class InMemoryQueue<TJobMap = Record<string, any>> extends Queue<TJobMap,
     return this.jobs.get(id);
   }
 
+  /**
+   * Take a job out of the waiting, delayed and reserved jobs.
+   */
+  private dequeue(jobId: string): void {
+    const waitingIndex = this.waitingJobs.indexOf(jobId);
+    if (waitingIndex !== -1) {
+      this.waitingJobs.splice(waitingIndex, 1);
+    }
+    clearTimeout(this.delayedJobs.get(jobId));
+    this.delayedJobs.delete(jobId);
+    this.reservedJobs.delete(jobId);
+    this.clearTtrTimeout(jobId);
+  }
+
+  /**
+   * Make a job available now, or schedule it after a delay.
+   */
+  private enqueue(jobId: string, delaySeconds: number): void {
+    const job = this.jobs.get(jobId);
+    if (!job) return;
+
+    if (delaySeconds > 0) {
+      job.delayTime = Date.now() + (delaySeconds * 1000);
+
+      // Schedule job to become available after delay
+      const timeout = setTimeout(() => {
+        this.delayedJobs.delete(jobId);
+        this.addToWaitingQueue(jobId);
+        this.emitEvent({ type: 'delayedPromoted', id: jobId, name: job.meta.name });
+      }, delaySeconds * 1000);
+
+      this.delayedJobs.set(jobId, timeout);
+    } else {
+      job.delayTime = undefined;
+      // Add immediately to waiting queue
+      this.addToWaitingQueue(jobId);
+    }
+  }
+
   /**
    * Add job to waiting queue in priority order (high priority first).
    */
@@ -324,6 +603,7 @@ export class InMemoryQueue<TJobMap = Record<string, any>> extends Queue<TJobMap,
     this.reservedJobs.delete(jobId);
     this.clearTtrTimeout(jobId);
     this.addToWaitingQueue(jobId);
+    this.emitEvent({ type: 'stalled', id: jobId, name: job.meta.name });
   }
 
   /**
@@ -345,7 +625,7 @@ export class InMemoryQueue<TJobMap = Record<string, any>> extends Queue<TJobMap,
 
     // Get completed jobs sorted by completion time (oldest first)
     const completedJobs = Array.from(this.jobs.entries())
-      .filter(([_, job]) => job.status === 'done' || job.status === 'failed')
+      .filter(([_, job]) => job.status === 'done' || job.status === 'failed' || job.status === 'cancelled')
       .sort(([_, a], [__, b]) => {
         const aTime = a.doneAt?.getTime() || 0;
         const bTime = b.doneAt?.getTime() || 0;
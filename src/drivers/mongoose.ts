@@ -9,7 +9,16 @@ import type {
   BaseJobOptions,
   WithPriority,
   WithDelay,
+  BackoffOptions,
+  JobProgress,
+  JobResult,
+  PushResult,
+  JobInfo,
+  JobFilter,
+  JobCounts,
+  FinishedJobStatus,
 } from "../interfaces/job.ts";
+import type { QueueOptions } from "../interfaces/plugin.ts";
 import { DbQueue } from "../drivers/db.ts";
 
 // Driver-specific job request interface
@@ -24,6 +33,8 @@ export interface MongooseJobRequest<TPayload>
 
 // MongoDB document structure for queue jobs
 export interface IQueueJobDocument {
+  /** Queue the job belongs to, see `MongooseDatabaseAdapter` */
+  queueName: string;
   payload: any;
   name: string;
   ttr: number;
@@ -34,9 +45,37 @@ export interface IQueueJobDocument {
   reserveTime: Date | null;
   doneTime: Date | null;
   expireTime: Date | null;
-  status: "waiting" | "reserved" | "done" | "failed";
+  status:
+    | "waiting"
+    | "waiting-children"
+    | "reserved"
+    | "done"
+    | "failed"
+    | "cancelled";
   attempt: number;
+  maxAttempts: number | null;
+  backoff: BackoffOptions | null;
+  /** Serializer of the stored payload, unset for plain JSON */
+  serializer?: string;
+  /** Compression of the stored payload, unset when uncompressed */
+  compression?: string;
+  /** ID of the key that encrypted the stored payload */
+  encryptionKeyId?: string;
+  /** Key of the payload in the claim-check blob store */
+  claimCheck?: string;
+  progress: JobProgress | null;
+  /** Parent job waiting for this one */
+  parentId: Types.ObjectId | null;
+  /** Children of this job that haven't completed yet */
+  pendingChildren: number;
+  /** Handler return value, unset while unfinished or once pruned */
+  result?: unknown;
   errorMessage?: string;
+  /** Set while the job blocks duplicates, see `BaseJobOptions.deduplicationId` */
+  deduplicationId?: string;
+  deduplicationUntil?: Date;
+  /** Token of the last batch that reserved the job, see `reserveJobs` */
+  reserveToken?: string;
 }
 
 // Mongoose document interface
@@ -45,8 +84,12 @@ export interface IQueueJob extends IQueueJobDocument, Document {
 }
 
 // Queue job schema
+/** Queue of the jobs stored before queues were named */
+const LEGACY_QUEUE_NAME = "default";
+
 export const QueueJobSchema = new Schema<IQueueJob>(
   {
+    queueName: { type: String, required: true, default: LEGACY_QUEUE_NAME },
     name: { type: String, required: true },
     payload: { type: Schema.Types.Mixed, required: true },
     ttr: { type: Number, required: true, default: 300 },
@@ -60,11 +103,31 @@ export const QueueJobSchema = new Schema<IQueueJob>(
     status: {
       type: String,
       required: true,
-      enum: ["waiting", "reserved", "done", "failed"],
+      enum: [
+        "waiting",
+        "waiting-children",
+        "reserved",
+        "done",
+        "failed",
+        "cancelled",
+      ],
       default: "waiting",
     },
     attempt: { type: Number, required: true, default: 0 },
+    maxAttempts: { type: Number, default: null },
+    backoff: { type: Schema.Types.Mixed, default: null },
+    serializer: { type: String },
+    compression: { type: String },
+    encryptionKeyId: { type: String },
+    claimCheck: { type: String },
+    progress: { type: Schema.Types.Mixed, default: null },
+    parentId: { type: Schema.Types.ObjectId, default: null },
+    pendingChildren: { type: Number, default: 0 },
+    result: { type: Schema.Types.Mixed },
     errorMessage: { type: String },
+    deduplicationId: { type: String },
+    deduplicationUntil: { type: Date },
+    reserveToken: { type: String },
   },
   {
     collection: "queue_jobs",
@@ -73,31 +136,139 @@ export const QueueJobSchema = new Schema<IQueueJob>(
 );
 
 // Add indexes
-QueueJobSchema.index({ status: 1, delayTime: 1, priority: -1, pushTime: 1 });
-QueueJobSchema.index({ status: 1, expireTime: 1 });
+QueueJobSchema.index({ queueName: 1, status: 1, delayTime: 1, priority: -1, pushTime: 1 });
+QueueJobSchema.index({ queueName: 1, status: 1, expireTime: 1 });
 QueueJobSchema.index({ _id: 1, status: 1 });
+QueueJobSchema.index({ parentId: 1 }, { sparse: true });
+// At most one job of a queue holds a deduplication ID
+QueueJobSchema.index(
+  { queueName: 1, deduplicationId: 1 },
+  { unique: true, partialFilterExpression: { deduplicationId: { $type: "string" } } }
+);
+
+// MongoDB document structure for rate limit windows, one per key
+export interface IQueueRateLimitDocument {
+  _id: string;
+  windowStart: number;
+  count: number;
+  /** End of the window, when MongoDB's TTL monitor removes the document */
+  expireAt?: Date;
+}
+
+export const QueueRateLimitSchema = new Schema<IQueueRateLimitDocument>(
+  {
+    _id: { type: String, required: true },
+    windowStart: { type: Number, required: true },
+    count: { type: Number, required: true },
+    expireAt: { type: Date },
+  },
+  {
+    collection: "queue_rate_limits",
+    timestamps: false,
+  }
+);
+
+// Windows that ended are removed, so keys that aren't used anymore (e.g. per
+// tenant) don't pile up. A window removed before its key is used again starts afresh.
+QueueRateLimitSchema.index({ expireAt: 1 }, { expireAfterSeconds: 0 });
 
 // Mongoose database adapter implementing DatabaseAdapter interface
 export class MongooseDatabaseAdapter implements DatabaseAdapter {
-  constructor(private model: Model<IQueueJob>) {}
+  readonly supportsDeduplication = true;
+  private legacyJobsNamed = false;
+
+  /**
+   * @param queueName - Jobs are stored with this name and only jobs with it
+   * are reserved, so several queues can share one collection
+   */
+  constructor(
+    private model: Model<IQueueJob>,
+    private readonly queueName: string = "default"
+  ) {}
 
   async insertJob(payload: unknown, meta: JobMeta): Promise<string> {
-    const now = new Date();
+    if (meta.deduplicationId === undefined) {
+      return this.insert(payload, meta);
+    }
+    const deduplicationId = meta.deduplicationId;
+
+    while (true) {
+      // Queued jobs, retries included, and jobs inside their window block duplicates
+      const blocking = [
+        { status: { $in: ["waiting", "waiting-children"] } },
+        { deduplicationUntil: { $gt: new Date() } },
+      ];
+      const existing = await this.model
+        .findOne(
+          { queueName: this.queueName, deduplicationId, $or: blocking },
+          { _id: 1 },
+          { session: undefined }
+        )
+        .lean();
+      if (existing) {
+        return existing._id.toHexString();
+      }
+
+      // Release the ID from a job that no longer blocks duplicates
+      await this.model.updateOne(
+        { queueName: this.queueName, deduplicationId, $nor: blocking },
+        { $unset: { deduplicationId: 1, deduplicationUntil: 1 } },
+        { session: undefined }
+      );
+
+      try {
+        return await this.insert(payload, meta);
+      } catch (error) {
+        // Another producer added the job first, return its ID on the next pass
+        if ((error as { code?: unknown }).code !== 11000) throw error;
+      }
+    }
+  }
+
+  async insertJobs(
+    jobs: Array<{ payload: unknown; meta: JobMeta }>
+  ): Promise<PushResult[]> {
+    const results: PushResult[] = new Array(jobs.length);
+    const batch: number[] = [];
+
+    for (const [index, { payload, meta }] of jobs.entries()) {
+      if (meta.deduplicationId === undefined) {
+        batch.push(index);
+        continue;
+      }
+      // Deduplicated jobs need a lookup first, so they are inserted one by one
+      try {
+        results[index] = { id: await this.insertJob(payload, meta) };
+      } catch (error) {
+        results[index] = { error };
+      }
+    }
+    if (batch.length === 0) return results;
 
+    let inserted: unknown[];
+    try {
+      inserted = await this.model.insertMany(
+        batch.map((index) => this.toDocument(jobs[index]!.payload, jobs[index]!.meta)),
+        { ordered: false, throwOnValidationError: true, session: undefined }
+      );
+    } catch (error) {
+      // Unordered inserts report the document or the error of every job
+      const partial = (error as { results?: unknown[] }).results;
+      if (!partial) throw error;
+      inserted = partial;
+    }
+
+    batch.forEach((index, position) => {
+      const doc = inserted[position];
+      results[index] =
+        doc instanceof this.model ? { id: doc._id.toHexString() } : { error: doc };
+    });
+    return results;
+  }
+
+  private async insert(payload: unknown, meta: JobMeta): Promise<string> {
     const doc = await this.model
-      .create({
-        payload,
-        name: meta.name,
-        ttr: meta.ttr ?? 300,
-        delaySeconds: meta.delaySeconds ?? 0,
-        priority: meta.priority ?? 0,
-        pushTime: now,
-        delayTime: meta.delaySeconds
-          ? new Date(now.getTime() + meta.delaySeconds * 1000)
-          : null,
-        status: "waiting",
-        attempt: 0,
-      })
+      .create(this.toDocument(payload, meta))
       .catch((err) => {
         if (err instanceof Error && "code" in err) {
           if (err.code === 256) {
@@ -114,31 +285,108 @@ export class MongooseDatabaseAdapter implements DatabaseAdapter {
     return doc._id.toHexString();
   }
 
-  async reserveJob(timeout: number): Promise<QueueJobRecord | null> {
+  private toDocument(payload: unknown, meta: JobMeta): Partial<IQueueJobDocument> {
     const now = new Date();
 
-    // First, recover timed-out jobs
-    await this.model.updateMany(
-      {
-        status: "reserved",
-        expireTime: { $lt: now },
-      },
-      {
-        $set: {
-          status: "waiting",
-          reserveTime: null,
-          expireTime: null,
+    return {
+      queueName: this.queueName,
+      payload,
+      name: meta.name,
+      ttr: meta.ttr ?? 300,
+      delaySeconds: meta.delaySeconds ?? 0,
+      priority: meta.priority ?? 0,
+      pushTime: now,
+      delayTime: meta.delaySeconds
+        ? new Date(now.getTime() + meta.delaySeconds * 1000)
+        : null,
+      // Parents wait until all of their children completed
+      status: meta.childCount ? "waiting-children" : "waiting",
+      parentId: meta.parentId ? new Types.ObjectId(meta.parentId) : null,
+      pendingChildren: meta.childCount ?? 0,
+      attempt: 0,
+      maxAttempts: meta.maxAttempts ?? null,
+      backoff: meta.backoff ?? null,
+      serializer: meta.serializer,
+      compression: meta.compression,
+      encryptionKeyId: meta.encryptionKeyId,
+      claimCheck: meta.claimCheck,
+      deduplicationId: meta.deduplicationId,
+      deduplicationUntil:
+        meta.deduplicationId !== undefined
+          ? new Date(now.getTime() + (meta.deduplicationSeconds ?? 0) * 1000)
+          : undefined,
+    };
+  }
+
+  async recoverStalledJobs(): Promise<Array<{ id: string; name: string }>> {
+    await this.nameLegacyJobs();
+
+    const now = new Date();
+    const expired = {
+      queueName: this.queueName,
+      status: "reserved",
+      expireTime: { $lt: now },
+    };
+
+    const candidates = await this.model
+      .find(expired, { _id: 1, name: 1 }, { session: undefined })
+      .lean();
+
+    const recovered: Array<{ id: string; name: string }> = [];
+    for (const job of candidates) {
+      // Only report the jobs this call put back, not those another worker did
+      const { modifiedCount } = await this.model.updateOne(
+        { _id: job._id, ...expired },
+        {
+          $set: {
+            status: "waiting",
+            reserveTime: null,
+            expireTime: null,
+          },
+          $inc: { attempt: 1 },
         },
-        $inc: { attempt: 1 },
-      },
-      {
-        session: undefined,
+        { session: undefined }
+      );
+      if (modifiedCount > 0) {
+        recovered.push({ id: job._id.toHexString(), name: job.name });
       }
+    }
+    return recovered;
+  }
+
+  /**
+   * Gives jobs stored before queues were named the legacy queue name, the
+   * same whichever queue polls the collection first.
+   */
+  private async nameLegacyJobs(): Promise<void> {
+    if (this.legacyJobsNamed) return;
+    await this.model.updateMany(
+      { queueName: { $exists: false } },
+      { $set: { queueName: LEGACY_QUEUE_NAME } },
+      { session: undefined }
     );
+    this.legacyJobsNamed = true;
+  }
+
+  async claimLegacyJobs(names: string[]): Promise<number> {
+    await this.nameLegacyJobs();
+    if (names.length === 0 || this.queueName === LEGACY_QUEUE_NAME) return 0;
+
+    const { modifiedCount } = await this.model.updateMany(
+      { queueName: LEGACY_QUEUE_NAME, name: { $in: names } },
+      { $set: { queueName: this.queueName } },
+      { session: undefined }
+    );
+    return modifiedCount;
+  }
+
+  async reserveJob(timeout: number): Promise<QueueJobRecord | null> {
+    const now = new Date();
 
     const doc = await this.model.findOneAndUpdate(
       // Atomically claim the next available job
       {
+        queueName: this.queueName,
         status: "waiting",
         $or: [{ delayTime: null }, { delayTime: { $lte: now } }],
       },
@@ -167,6 +415,63 @@ export class MongooseDatabaseAdapter implements DatabaseAdapter {
       { session: undefined }
     );
 
+    return this.toRecord(doc, now);
+  }
+
+  /**
+   * Reserves a batch in three round-trips, whatever its size: finds the next
+   * jobs, claims those still waiting with a token in one `updateMany`, and
+   * reads back the jobs holding the token. Jobs claimed by another worker in
+   * between are left out, so the batch may be smaller than `limit`.
+   */
+  async reserveJobs(timeout: number, limit: number): Promise<QueueJobRecord[]> {
+    const now = new Date();
+    const available = {
+      queueName: this.queueName,
+      status: "waiting",
+      $or: [{ delayTime: null }, { delayTime: { $lte: now } }],
+    };
+
+    const candidates = await this.model
+      .find(available, { _id: 1 }, { session: undefined })
+      .sort({ priority: -1, pushTime: 1 })
+      .limit(limit)
+      .lean()
+      .exec();
+    if (candidates.length === 0) return [];
+
+    const reserveToken = new Types.ObjectId().toHexString();
+    await this.model.updateMany(
+      { ...available, _id: { $in: candidates.map(({ _id }) => _id) } },
+      // A pipeline update, so every job expires after its own TTR
+      [
+        {
+          $set: {
+            status: "reserved",
+            reserveTime: now,
+            reserveToken,
+            expireTime: {
+              $add: [
+                now,
+                { $multiply: [{ $cond: [{ $gt: ["$ttr", 0] }, "$ttr", 300] }, 1000] },
+              ],
+            },
+          },
+        },
+      ],
+      { session: undefined }
+    );
+
+    const docs = await this.model
+      .find({ queueName: this.queueName, status: "reserved", reserveToken }, null, {
+        session: undefined,
+      })
+      .sort({ priority: -1, pushTime: 1 })
+      .exec();
+    return docs.map((doc) => this.toRecord(doc, now));
+  }
+
+  private toRecord(doc: IQueueJob, now: Date): QueueJobRecord {
     return {
       id: doc._id.toHexString(),
       meta: {
@@ -176,6 +481,14 @@ export class MongooseDatabaseAdapter implements DatabaseAdapter {
         priority: doc.priority,
         pushedAt: doc.pushTime,
         reservedAt: now,
+        attempt: doc.attempt + 1,
+        maxAttempts: doc.maxAttempts ?? undefined,
+        backoff: doc.backoff ?? undefined,
+        parentId: doc.parentId?.toHexString(),
+        serializer: doc.serializer,
+        compression: doc.compression,
+        encryptionKeyId: doc.encryptionKeyId,
+        claimCheck: doc.claimCheck,
       },
       payload: doc.payload,
       pushedAt: doc.pushTime,
@@ -183,31 +496,67 @@ export class MongooseDatabaseAdapter implements DatabaseAdapter {
     };
   }
 
-  async completeJob(id: string): Promise<void> {
-    await this.model.updateOne(
-      { _id: id },
-      { $set: { status: "done", doneTime: new Date() } },
-      { session: undefined }
+  async completeJob(id: string, result?: unknown): Promise<void> {
+    const doc = await this.model.findOneAndUpdate(
+      { _id: id, status: { $nin: ["cancelled", "done"] } },
+      { $set: { status: "done", doneTime: new Date(), result: result ?? null } },
+      { projection: { parentId: 1 }, session: undefined }
     );
+
+    if (doc?.parentId) {
+      // The last child to complete releases the parent, in the same pipeline
+      // update that counts it so a failing sibling can't slip in between
+      await this.model.updateOne(
+        { _id: doc.parentId, status: "waiting-children" },
+        [
+          {
+            $set: {
+              pendingChildren: { $subtract: ["$pendingChildren", 1] },
+              status: {
+                $cond: [{ $lte: ["$pendingChildren", 1] }, "waiting", "$status"],
+              },
+            },
+          },
+        ],
+        { session: undefined }
+      );
+    }
   }
 
-  async releaseJob(id: string): Promise<void> {
+  async releaseJob(
+    id: string,
+    delaySeconds: number = 0,
+    countAttempt: boolean = true
+  ): Promise<void> {
     await this.model.updateOne(
-      { _id: id },
+      { _id: id, status: { $ne: "cancelled" } },
       {
         $set: {
           status: "waiting",
           reserveTime: null,
           expireTime: null,
+          delayTime:
+            delaySeconds > 0
+              ? new Date(Date.now() + delaySeconds * 1000)
+              : null,
         },
+        $inc: { attempt: countAttempt ? 1 : 0 },
       },
       { session: undefined }
     );
   }
 
-  async failJob(id: string, error: string): Promise<void> {
+  async extendJob(id: string, seconds: number): Promise<void> {
     await this.model.updateOne(
-      { _id: id },
+      { _id: id, status: "reserved" },
+      { $set: { expireTime: new Date(Date.now() + seconds * 1000) } },
+      { session: undefined }
+    );
+  }
+
+  async failJob(id: string, error: string): Promise<void> {
+    const doc = await this.model.findOneAndUpdate(
+      { _id: id, status: { $ne: "cancelled" } },
       {
         $set: {
           status: "failed",
@@ -215,13 +564,147 @@ export class MongooseDatabaseAdapter implements DatabaseAdapter {
           doneTime: new Date(),
         },
       },
+      { projection: { parentId: 1 }, session: undefined }
+    );
+
+    await this.failParents(doc?.parentId, id, `failed: ${error}`);
+  }
+
+  /**
+   * Fails the parents waiting for a child that won't complete, up the tree.
+   */
+  private async failParents(
+    parentId: Types.ObjectId | null | undefined,
+    childId: string,
+    reason: string
+  ): Promise<void> {
+    while (parentId) {
+      const parent = await this.model.findOneAndUpdate(
+        { _id: parentId, status: "waiting-children" },
+        {
+          $set: {
+            status: "failed",
+            errorMessage: `Child job ${childId} ${reason}`,
+            doneTime: new Date(),
+          },
+        },
+        { projection: { parentId: 1 }, session: undefined }
+      );
+      if (!parent) return;
+
+      reason = `failed: Child job ${childId} ${reason}`;
+      childId = parent._id.toHexString();
+      parentId = parent.parentId;
+    }
+  }
+
+  async updateProgress(id: string, progress: JobProgress): Promise<void> {
+    await this.model.updateOne(
+      { _id: id },
+      { $set: { progress } },
+      { session: undefined }
+    );
+  }
+
+  async getProgress(id: string): Promise<JobProgress | null> {
+    const doc = await this.model
+      .findOne(
+        { _id: id, queueName: this.queueName },
+        { progress: 1 },
+        { session: undefined }
+      )
+      .exec();
+    return doc?.progress ?? null;
+  }
+
+  async getJobResult(id: string): Promise<JobResult | null> {
+    const doc = await this.model
+      .findOne(
+        { _id: id, queueName: this.queueName },
+        { status: 1, result: 1, errorMessage: 1 },
+        { session: undefined }
+      )
+      .lean()
+      .exec();
+
+    if (doc?.status === "done" && doc.result !== undefined) {
+      return { status: "done", result: doc.result };
+    }
+    if (doc?.status === "failed" && doc.errorMessage !== undefined) {
+      return { status: "failed", error: doc.errorMessage };
+    }
+    if (doc?.status === "cancelled") {
+      return { status: "cancelled" };
+    }
+    return null;
+  }
+
+  async pruneResults(before: Date): Promise<void> {
+    await this.model.updateMany(
+      {
+        queueName: this.queueName,
+        status: { $in: ["done", "failed"] },
+        doneTime: { $lt: before },
+      },
+      { $unset: { result: 1, errorMessage: 1 } },
       { session: undefined }
     );
   }
 
+  async consumeRateLimit(
+    key: string,
+    max: number,
+    durationMs: number
+  ): Promise<number> {
+    const now = Date.now();
+    const windowStart = now - (now % durationMs);
+
+    // Starts a new window or counts the job in the current one while it has
+    // room, returning the window as it was before the update
+    const previous = await this.rateLimitModel()
+      .findOneAndUpdate(
+        // Rate limits are counted per queue, like the jobs they throttle
+        { _id: `${this.queueName}:${key}` },
+        [
+          {
+            $set: {
+              count: {
+                $cond: [
+                  { $eq: ["$windowStart", windowStart] },
+                  { $min: [{ $add: ["$count", 1] }, max] },
+                  1,
+                ],
+              },
+              windowStart: { $literal: windowStart },
+              expireAt: { $literal: new Date(windowStart + durationMs) },
+            },
+          },
+        ],
+        { upsert: true, new: false, session: undefined }
+      )
+      .lean();
+
+    if (!previous || previous.windowStart !== windowStart || previous.count < max) {
+      return 0;
+    }
+    return windowStart + durationMs - now;
+  }
+
+  private rateLimitModel(): Model<IQueueRateLimitDocument> {
+    const connection = this.model.db;
+    return (
+      connection.models.QueueRateLimit ??
+      connection.model<IQueueRateLimitDocument>("QueueRateLimit", QueueRateLimitSchema)
+    );
+  }
+
   async getJobStatus(id: string): Promise<JobStatus | null> {
     const doc = await this.model
-      .findOne({ _id: id }, { status: 1, delayTime: 1 }, { session: undefined })
+      .findOne(
+        { _id: id, queueName: this.queueName },
+        { status: 1, delayTime: 1 },
+        { session: undefined }
+      )
       .exec();
 
     if (!doc) {
@@ -240,15 +723,194 @@ export class MongooseDatabaseAdapter implements DatabaseAdapter {
     switch (doc.status) {
       case "waiting":
         return "waiting";
+      case "waiting-children":
+        return "waiting-children";
       case "reserved":
         return "reserved";
       case "done":
-      case "failed":
         return "done";
+      case "failed":
+        return "failed";
+      case "cancelled":
+        return "cancelled";
       default:
         return null;
     }
   }
+
+  async cancelJob(id: string): Promise<JobStatus | null> {
+    // Waiting and delayed jobs are taken out of the queue the same way as
+    // reserved ones, workers abort the latter once they see the new status
+    const doc = await this.model.findOneAndUpdate(
+      {
+        _id: id,
+        queueName: this.queueName,
+        status: { $in: ["waiting", "waiting-children", "reserved"] },
+      },
+      { $set: { status: "cancelled", doneTime: new Date() } },
+      { projection: { parentId: 1 }, session: undefined }
+    );
+    if (!doc) {
+      return this.getJobStatus(id);
+    }
+
+    await this.failParents(doc.parentId, id, "was cancelled");
+    return "cancelled";
+  }
+
+  async getChildrenResults(parentId: string): Promise<Record<string, unknown>> {
+    const docs = await this.model
+      .find(
+        { parentId, status: "done", result: { $exists: true } },
+        { result: 1 },
+        { session: undefined }
+      )
+      .lean()
+      .exec();
+
+    const results: Record<string, unknown> = {};
+    for (const doc of docs) {
+      results[doc._id.toHexString()] = doc.result;
+    }
+    return results;
+  }
+
+  async countJobs(): Promise<Partial<JobCounts>> {
+    const rows = await this.model.aggregate<{ _id: JobStatus; count: number }>([
+      { $match: { queueName: this.queueName } },
+      {
+        $group: {
+          // Delayed jobs are stored as waiting jobs with a delay time in the future
+          _id: {
+            $cond: [
+              {
+                $and: [
+                  { $eq: ["$status", "waiting"] },
+                  { $gt: ["$delayTime", new Date()] },
+                ],
+              },
+              "delayed",
+              "$status",
+            ],
+          },
+          count: { $sum: 1 },
+        },
+      },
+    ]);
+
+    const counts: Partial<JobCounts> = {};
+    for (const row of rows) {
+      counts[row._id] = row.count;
+    }
+    return counts;
+  }
+
+  async listJobs(filter: JobFilter & { limit: number }): Promise<JobInfo[]> {
+    const now = new Date();
+    const query: Record<string, unknown> = { queueName: this.queueName };
+    if (filter.status === "delayed") {
+      Object.assign(query, { status: "waiting", delayTime: { $gt: now } });
+    } else if (filter.status === "waiting") {
+      Object.assign(query, {
+        status: "waiting",
+        $or: [{ delayTime: null }, { delayTime: { $lte: now } }],
+      });
+    } else if (filter.status !== undefined) {
+      query.status = filter.status;
+    }
+    if (filter.name !== undefined) {
+      query.name = filter.name;
+    }
+    if (filter.after !== undefined) {
+      query._id = { $gt: filter.after };
+    }
+
+    const docs = await this.model
+      .find(query, null, { session: undefined })
+      .sort({ _id: 1 })
+      .limit(filter.limit)
+      .lean()
+      .exec();
+    return docs.map((doc) => this.toJobInfo(doc, now));
+  }
+
+  async getJob(id: string): Promise<JobInfo | null> {
+    const doc = await this.model
+      .findOne({ _id: id, queueName: this.queueName }, null, { session: undefined })
+      .lean()
+      .exec();
+    return doc ? this.toJobInfo(doc, new Date()) : null;
+  }
+
+  private toJobInfo(
+    doc: IQueueJobDocument & { _id: Types.ObjectId },
+    now: Date
+  ): JobInfo {
+    return {
+      id: doc._id.toHexString(),
+      name: doc.name,
+      status:
+        doc.status === "waiting" && doc.delayTime && doc.delayTime > now
+          ? "delayed"
+          : doc.status,
+      payload: doc.payload,
+      meta: {
+        name: doc.name,
+        ttr: doc.ttr,
+        delaySeconds: doc.delaySeconds,
+        priority: doc.priority,
+        pushedAt: doc.pushTime,
+        maxAttempts: doc.maxAttempts ?? undefined,
+        backoff: doc.backoff ?? undefined,
+        parentId: doc.parentId?.toHexString(),
+        serializer: doc.serializer,
+        compression: doc.compression,
+        encryptionKeyId: doc.encryptionKeyId,
+        claimCheck: doc.claimCheck,
+      },
+      // `attempt` counts released attempts, jobs keep the reservation time
+      // of an attempt that wasn't released
+      attempts: doc.attempt + (doc.reserveTime ? 1 : 0),
+      error: doc.errorMessage,
+      pushedAt: doc.pushTime,
+      finishedAt: doc.doneTime ?? undefined,
+    };
+  }
+
+  async requeueJob(id: string): Promise<boolean> {
+    const { modifiedCount } = await this.model.updateOne(
+      { _id: id, queueName: this.queueName, status: "failed" },
+      {
+        $set: {
+          status: "waiting",
+          attempt: 0,
+          delayTime: null,
+          reserveTime: null,
+          expireTime: null,
+          doneTime: null,
+        },
+        $unset: { errorMessage: 1 },
+      },
+      { session: undefined }
+    );
+    return modifiedCount > 0;
+  }
+
+  async deleteJob(id: string): Promise<boolean> {
+    const { deletedCount } = await this.model.deleteOne(
+      { _id: id, queueName: this.queueName },
+      { session: undefined }
+    );
+    return deletedCount > 0;
+  }
+
+  async purgeJobs(status: FinishedJobStatus, before: Date): Promise<number> {
+    const { deletedCount } = await this.model.deleteMany(
+      { queueName: this.queueName, status, doneTime: { $lt: before } },
+      { session: undefined }
+    );
+    return deletedCount;
+  }
 }
 
 // Mongoose-specific queue class
@@ -258,10 +920,11 @@ export class MongooseQueue<
   mongooseAdapter: MongooseDatabaseAdapter;
   model: Model<IQueueJob>;
 
-  constructor(config: { model?: Model<IQueueJob>; name: string }) {
-    const model = config.model ?? createQueueModel(config.name);
-    const adapter = new MongooseDatabaseAdapter(model);
-    super(adapter, { name: config.name });
+  constructor(config: QueueOptions & { model?: Model<IQueueJob> }) {
+    const { model: configModel, ...options } = config;
+    const model = configModel ?? createQueueModel(config.name);
+    const adapter = new MongooseDatabaseAdapter(model, config.name);
+    super(adapter, options);
     this.model = model;
     this.mongooseAdapter = adapter;
   }
@@ -1,5 +1,5 @@
 import { Queue } from '../core/queue.ts';
-import type { JobStatus, JobMeta, QueueMessage, BaseJobOptions, WithPriority, WithDelay } from '../interfaces/job.ts';
+import type { JobStatus, JobMeta, JobProgress, JobResult, PushResult, QueueMessage, BaseJobOptions, WithPriority, WithDelay, JobInfo, JobFilter, JobCounts, FinishedJobStatus } from '../interfaces/job.ts';
 import type { QueueOptions } from '../interfaces/plugin.ts';
 
 // Driver-specific job request interface
@@ -10,20 +10,35 @@ export interface RedisJobRequest<TPayload> extends BaseJobOptions, WithPriority,
 }
 
 
+// Jobs added per MULTI transaction by addJobs()
+const BATCH_SIZE = 1000;
+
+// Commands queued in a MULTI transaction, sent together by exec()
+export interface RedisMulti {
+  hSet(key: string, field: string, value: string): RedisMulti;
+  zAdd(key: string, members: { score: number; value: string }): RedisMulti;
+  hIncrBy(key: string, field: string, increment: number): RedisMulti;
+  exec(): Promise<unknown[]>;
+}
+
 // Type-safe interface for Redis client based on the popular 'redis' npm package
 export interface RedisClient {
   // Counter operations
   incr(key: string): Promise<number>;
+  incrBy(key: string, increment: number): Promise<number>;
   
   // Hash operations
   hSet(key: string, field: string, value: string): Promise<number>;
   hGet(key: string, field: string): Promise<string | null>;
+  hmGet(key: string, fields: string[]): Promise<Array<string | null>>;
   hDel(key: string, fields: string[]): Promise<number>;
   hIncrBy(key: string, field: string, increment: number): Promise<number>;
+  hGetAll(key: string): Promise<Record<string, string>>;
   
   // Sorted set operations
   zAdd(key: string, members: { score: number; value: string }): Promise<number>;
   zRem(key: string, members: string[]): Promise<number>;
+  zPopMaxCount(key: string, count: number): Promise<Array<{ value: string; score: number }>>;
   zRangeByScore(
     key: string, 
     min: number | string, 
@@ -39,16 +54,33 @@ export interface RedisClient {
   zScore(key: string, member: string): Promise<number | null>;
   
   // General operations
+  multi(): RedisMulti;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, options?: { NX?: boolean; PX?: number }): Promise<string | null>;
   del(keys: string[]): Promise<number>;
+  keys(pattern: string): Promise<string[]>;
+  pExpire(key: string, milliseconds: number): Promise<number | boolean>;
+  persist(key: string): Promise<number | boolean>;
 }
 
 
+/** Status of a stored job, with the outcome of finished ones */
+interface StoredJob {
+  status: JobStatus;
+  result?: JobResult;
+}
+
 export class RedisQueue<TJobMap = Record<string, any>> extends Queue<TJobMap, RedisJobRequest<any>> {
   private messagesKey: string;
   private waitingKey: string;
   private delayedKey: string;
   private reservedKey: string;
   private attemptsKey: string;
+  private progressKey: string;
+  private resultsKey: string;
+  private finishedKey: string;
+  private pendingKey: string;
+  private keyPrefix: string;
   private idKey: string;
   private redis: RedisClient;
 
@@ -64,22 +96,112 @@ export class RedisQueue<TJobMap = Record<string, any>> extends Queue<TJobMap, Re
     this.delayedKey = `${prefix}:${this.queueName}:delayed`;
     this.reservedKey = `${prefix}:${this.queueName}:reserved`;
     this.attemptsKey = `${prefix}:${this.queueName}:attempts`;
+    this.progressKey = `${prefix}:${this.queueName}:progress`;
+    this.resultsKey = `${prefix}:${this.queueName}:results`;
+    this.finishedKey = `${prefix}:${this.queueName}:finished`;
+    this.pendingKey = `${prefix}:${this.queueName}:pending`;
+    this.keyPrefix = `${prefix}:${this.queueName}`;
     this.idKey = `${prefix}:${this.queueName}:id`;
     
     this.redis = redisClient;
+    this.supportsCancellation = true;
+    this.supportsFlows = true;
+    this.supportsDeduplication = true;
+    this.supportsExtension = true;
+    this.supportsAdmin = true;
   }
 
   protected async pushMessage(payload: unknown, meta: JobMeta): Promise<string> {
     const id = (await this.redis.incr(this.idKey)).toString();
-    const now = Math.floor(Date.now() / 1000);
+
+    if (meta.deduplicationId !== undefined) {
+      const duplicateId = await this.claimDeduplication(meta.deduplicationId, id);
+      if (duplicateId) {
+        return duplicateId;
+      }
+    }
     
     const message = JSON.stringify({ payload, meta });
     await this.redis.hSet(this.messagesKey, id, message);
-    
+
+    if (meta.parentId) {
+      // Dependency edge, the value is replaced by the result once the child completed
+      await this.redis.hSet(this.childrenKey(meta.parentId), id, '');
+    }
+    if (meta.childCount) {
+      // Parents are enqueued by the last child to complete
+      await this.redis.del([this.childrenKey(id)]);
+      await this.redis.hSet(this.pendingKey, id, String(meta.childCount));
+      return id;
+    }
+
+    await this.enqueue(id, meta);
+    return id;
+  }
+
+  /**
+   * Adds jobs without dependencies or deduplication in one MULTI per chunk,
+   * allocating their IDs with a single INCRBY.
+   */
+  protected override async pushMessages(messages: Array<{ payload: unknown; meta: JobMeta }>): Promise<PushResult[]> {
+    const results: PushResult[] = new Array(messages.length);
+    const batch: number[] = [];
+
+    for (const [index, { payload, meta }] of messages.entries()) {
+      if (meta.parentId || meta.childCount || meta.deduplicationId !== undefined) {
+        try {
+          results[index] = { id: await this.pushMessage(payload, meta) };
+        } catch (error) {
+          results[index] = { error };
+        }
+      } else {
+        batch.push(index);
+      }
+    }
+
+    for (let start = 0; start < batch.length; start += BATCH_SIZE) {
+      const chunk = batch.slice(start, start + BATCH_SIZE);
+      try {
+        const lastId = await this.redis.incrBy(this.idKey, chunk.length);
+        const ids = chunk.map((_, position) => String(lastId - chunk.length + 1 + position));
+
+        const multi = this.redis.multi();
+        chunk.forEach((index, position) => {
+          const { payload, meta } = messages[index]!;
+          const id = ids[position]!;
+          const { key, score } = this.enqueueTarget(id, meta);
+          multi.hSet(this.messagesKey, id, JSON.stringify({ payload, meta }));
+          multi.zAdd(key, { score, value: id });
+        });
+        await multi.exec();
+
+        chunk.forEach((index, position) => {
+          results[index] = { id: ids[position]! };
+        });
+      } catch (error) {
+        for (const index of chunk) {
+          results[index] = { error };
+        }
+      }
+    }
+
+    return results;
+  }
+
+  private async enqueue(id: string, meta: JobMeta): Promise<void> {
+    const { key, score } = this.enqueueTarget(id, meta);
+    await this.redis.zAdd(key, { score, value: id });
+  }
+
+  /**
+   * Returns the sorted set a job is enqueued in and its score.
+   */
+  private enqueueTarget(id: string, meta: JobMeta): { key: string; score: number } {
+    const now = Math.floor(Date.now() / 1000);
+
     if (meta.delaySeconds && meta.delaySeconds > 0) {
       // Add to delayed set with execution time as score
-      const executeAt = now + meta.delaySeconds;
-      await this.redis.zAdd(this.delayedKey, { score: executeAt, value: id });
+      return { key: this.delayedKey, score: now + meta.delaySeconds };
     } else {
       // Add to waiting queue with priority support
       // Use sorted set for priority, with higher priority = higher score
@@ -89,13 +211,79 @@ export class RedisQueue<TJobMap = Record<string, any>> extends Queue<TJobMap, Re
       const jobIdNum = parseInt(id);
       const timePart = 1000000000 - jobIdNum; // Invert job ID for FIFO within same priority
       const score = priority * 1000000000 + timePart;
-      await this.redis.zAdd(this.waitingKey, { score, value: id });
+      return { key: this.waitingKey, score };
+    }
+  }
+
+  /**
+   * Claims a deduplication ID for a new job with `SET NX`.
+   *
+   * @returns The ID of the job already holding it, or undefined once claimed
+   */
+  private async claimDeduplication(deduplicationId: string, id: string): Promise<string | undefined> {
+    const key = this.deduplicationKey(deduplicationId);
+    while (true) {
+      if (await this.redis.set(key, id, { NX: true })) {
+        return undefined;
+      }
+      const existing = await this.redis.get(key);
+      if (existing !== null) {
+        return existing;
+      }
+      // Released in between, try again
     }
-    
-    return id;
+  }
+
+  /**
+   * Makes a job put back in the queue block duplicates again, unless a newer
+   * job claimed its deduplication ID while it was running.
+   */
+  private async reclaimDeduplication(id: string): Promise<void> {
+    const message = await this.redis.hGet(this.messagesKey, id);
+    const meta = message ? (JSON.parse(message) as { meta: JobMeta }).meta : undefined;
+    if (meta?.deduplicationId === undefined) return;
+
+    const key = this.deduplicationKey(meta.deduplicationId);
+    if (await this.redis.set(key, id, { NX: true })) return;
+    if ((await this.redis.get(key)) === id) {
+      // Still inside its window, keep it until the job leaves the queue again
+      await this.redis.persist(key);
+    }
+  }
+
+  /**
+   * Once a job leaves the waiting state, its deduplication ID only blocks
+   * duplicates until the end of its window.
+   */
+  private async releaseDeduplication(id: string, meta: JobMeta): Promise<void> {
+    if (meta.deduplicationId === undefined) return;
+
+    const key = this.deduplicationKey(meta.deduplicationId);
+    if ((await this.redis.get(key)) !== id) return;
+
+    const pushedAt = meta.pushedAt ? new Date(meta.pushedAt).getTime() : 0;
+    const remainingMs = pushedAt + (meta.deduplicationSeconds ?? 0) * 1000 - Date.now();
+    if (remainingMs > 0) {
+      await this.redis.pExpire(key, Math.ceil(remainingMs));
+    } else {
+      await this.redis.del([key]);
+    }
+  }
+
+  private deduplicationKey(deduplicationId: string): string {
+    return `${this.keyPrefix}:deduplication:${deduplicationId}`;
+  }
+
+  private childrenKey(parentId: string): string {
+    return `${this.keyPrefix}:children:${parentId}`;
   }
 
   protected async reserve(timeout: number): Promise<QueueMessage | null> {
+    const [message] = await this.reserveMany(timeout, 1);
+    return message ?? null;
+  }
+
+  protected override async reserveMany(timeout: number, limit: number): Promise<QueueMessage[]> {
     const now = Math.floor(Date.now() / 1000);
     
     // Move ready delayed jobs to waiting queue
@@ -104,84 +292,260 @@ export class RedisQueue<TJobMap = Record<string, any>> extends Queue<TJobMap, Re
     // Recover timed-out reserved jobs
     await this.moveExpiredJobs(now);
     
-    // Get highest priority job from waiting queue (sorted set)
+    // Pop the highest priority jobs from the waiting queue (sorted set)
     // Since Redis doesn't have blocking operations for sorted sets, we'll poll
-    let id: string | null = null;
+    let popped = await this.redis.zPopMaxCount(this.waitingKey, limit);
     
     if (timeout > 0) {
-      // For blocking behavior, we need to implement polling since Redis doesn't have bzpop
       const endTime = Date.now() + timeout * 1000;
-      while (Date.now() < endTime && !id) {
-        const jobs = await this.redis.zRangeByScore(this.waitingKey, '-inf', '+inf', { REV: true, LIMIT: { offset: 0, count: 1 } });
-        if (jobs[0]) {
-          id = jobs[0];
-          await this.redis.zRem(this.waitingKey, [id]);
-          break;
-        }
+      while (popped.length === 0 && Date.now() < endTime) {
         // Small sleep to avoid busy waiting
         await new Promise(resolve => setTimeout(resolve, 10));
-      }
-    } else {
-      // Non-blocking: get highest priority job using ZRANGE with REV (highest score first)
-      const jobs = await this.redis.zRange(this.waitingKey, 0, 0, { REV: true });
-      if (jobs[0]) {
-        id = jobs[0];
-        await this.redis.zRem(this.waitingKey, [id]);
+        popped = await this.redis.zPopMaxCount(this.waitingKey, limit);
       }
     }
     
-    if (!id) {
-      return null;
+    if (popped.length === 0) {
+      return [];
     }
     
-    const message = await this.redis.hGet(this.messagesKey, id);
+    const ids = popped.map(({ value }) => value);
+    const stored = await this.redis.hmGet(this.messagesKey, ids);
+    const jobs = ids.flatMap((id, index) => {
+      const message = stored[index];
+      return message ? [{ id, ...(JSON.parse(message) as { payload: unknown, meta: JobMeta }) }] : [];
+    });
     
-    if (!message) {
-      return null;
+    if (jobs.length === 0) {
+      return [];
     }
     
-    const { payload, meta } = JSON.parse(message) as { payload: unknown, meta: JobMeta };
-    
-    // Reserve the job
-    const expireAt = now + (meta.ttr || this.ttrDefault);
-    await this.redis.zAdd(this.reservedKey, { score: expireAt, value: id });
+    // Reserve the jobs and increment their attempt counters
+    const multi = this.redis.multi();
+    for (const { id, meta } of jobs) {
+      multi.zAdd(this.reservedKey, { score: now + (meta.ttr || this.ttrDefault), value: id });
+      multi.hIncrBy(this.attemptsKey, id, 1);
+    }
+    const replies = await multi.exec();
     
-    // Increment attempt counter
-    await this.redis.hIncrBy(this.attemptsKey, id, 1);
+    const messages: QueueMessage[] = [];
+    for (const [index, { id, payload, meta }] of jobs.entries()) {
+      const attempt = Number(replies[index * 2 + 1]);
+      await this.releaseDeduplication(id, meta);
+      
+      messages.push({
+        id,
+        payload,
+        meta: {
+          ttr: meta.ttr || this.ttrDefault,
+          name: meta.name,
+          attempt,
+          maxAttempts: meta.maxAttempts,
+          backoff: meta.backoff,
+          parentId: meta.parentId,
+          serializer: meta.serializer,
+          compression: meta.compression,
+          encryptionKeyId: meta.encryptionKeyId,
+          claimCheck: meta.claimCheck,
+        }
+      });
+    }
     
-    return {
-      id,
-      payload,
-      meta: {
-        ttr: meta.ttr || this.ttrDefault,
-        name: meta.name,
-      }
-    };
+    return messages;
   }
 
-  protected async completeJob(message: QueueMessage): Promise<void> {
+  protected async completeJob(message: QueueMessage, result?: unknown): Promise<void> {
+    if (await this.isCancelled(message.id)) return;
+
     // Remove from reserved queue
     await this.redis.zRem(this.reservedKey, [message.id]);
     
     // Remove job data
     await this.redis.hDel(this.messagesKey, [message.id]);
     await this.redis.hDel(this.attemptsKey, [message.id]);
+    await this.redis.hDel(this.progressKey, [message.id]);
+
+    await this.redis.del([this.childrenKey(message.id)]);
+    await this.storeResult(message.id, { status: 'done', result });
+
+    if (message.meta.parentId) {
+      await this.completeChild(message.meta.parentId, message.id, result);
+    }
+  }
+
+  /**
+   * Records a child's result and enqueues the parent once all children completed.
+   */
+  private async completeChild(parentId: string, childId: string, result: unknown): Promise<void> {
+    // Parents that already failed or were cancelled have no pending count
+    if ((await this.redis.hGet(this.pendingKey, parentId)) === null) return;
+
+    await this.redis.hSet(this.childrenKey(parentId), childId, JSON.stringify({ result }));
+
+    // HINCRBY is atomic, so exactly one child sees the count reach zero
+    const remaining = await this.redis.hIncrBy(this.pendingKey, parentId, -1);
+    if (remaining > 0) return;
+
+    await this.redis.hDel(this.pendingKey, [parentId]);
+    const parent = await this.redis.hGet(this.messagesKey, parentId);
+    if (remaining === 0 && parent) {
+      const { meta } = JSON.parse(parent) as { meta: JobMeta };
+      await this.enqueue(parentId, meta);
+    }
+  }
+
+  /**
+   * Fails the parents waiting for a child that won't complete, up the tree.
+   */
+  private async failParents(parentId: string | undefined, childId: string, reason: string): Promise<void> {
+    while (parentId) {
+      // Only the caller removing the pending count fails the parent
+      if ((await this.redis.hDel(this.pendingKey, [parentId])) === 0) return;
+
+      const parent = await this.redis.hGet(this.messagesKey, parentId);
+      const error = `Child job ${childId} ${reason}`;
+      await this.redis.hDel(this.messagesKey, [parentId]);
+      await this.redis.del([this.childrenKey(parentId)]);
+      await this.storeResult(parentId, { status: 'failed', error });
+
+      reason = `failed: ${error}`;
+      childId = parentId;
+      parentId = parent ? (JSON.parse(parent) as { meta: JobMeta }).meta.parentId : undefined;
+    }
   }
 
   protected async failJob(message: QueueMessage, error: unknown): Promise<void> {
+    if (await this.isCancelled(message.id)) return;
+
     // Remove from reserved queue
     await this.redis.zRem(this.reservedKey, [message.id]);
     
-    // Remove job data (Redis doesn't track failed job history by default)
-    await this.redis.hDel(this.messagesKey, [message.id]);
-    await this.redis.hDel(this.attemptsKey, [message.id]);
+    // The job data is kept with the error until the result retention
+    // expires, so the job can still be inspected and retried
+    await this.redis.hDel(this.progressKey, [message.id]);
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    await this.redis.del([this.childrenKey(message.id)]);
+    await this.storeResult(message.id, { status: 'failed', error: errorMessage });
+    await this.failParents(message.meta.parentId, message.id, `failed: ${errorMessage}`);
+  }
+
+  private async storeResult(id: string, result: JobResult): Promise<void> {
+    await this.redis.hSet(this.resultsKey, id, JSON.stringify(result));
+    // Finish time as score, used to prune expired results
+    await this.redis.zAdd(this.finishedKey, { score: Date.now(), value: id });
+  }
+
+  protected override async cancelJob(id: string): Promise<JobStatus> {
+    // Whichever set still holds the job, removing it takes it out of the queue
+    const removed =
+      (await this.redis.zRem(this.waitingKey, [id])) +
+      (await this.redis.zRem(this.delayedKey, [id])) +
+      (await this.redis.zRem(this.reservedKey, [id])) +
+      (await this.redis.hDel(this.pendingKey, [id]));
+    if (removed === 0) {
+      return this.status(id);
+    }
+
+    const message = await this.redis.hGet(this.messagesKey, id);
+    await this.redis.hDel(this.messagesKey, [id]);
+    await this.redis.del([this.childrenKey(id)]);
+    await this.redis.hDel(this.attemptsKey, [id]);
+    await this.redis.hDel(this.progressKey, [id]);
+    await this.storeResult(id, { status: 'cancelled' });
+
+    const meta = message ? (JSON.parse(message) as { meta: JobMeta }).meta : undefined;
+    if (meta) {
+      await this.releaseDeduplication(id, meta);
+    }
+    await this.failParents(meta?.parentId, id, 'was cancelled');
+    return 'cancelled';
+  }
+
+  protected override async getChildrenResults(id: string): Promise<Record<string, unknown>> {
+    const children = await this.redis.hGetAll(this.childrenKey(id));
+    const results: Record<string, unknown> = {};
+    for (const [childId, value] of Object.entries(children)) {
+      if (value) {
+        results[childId] = (JSON.parse(value) as { result: unknown }).result;
+      }
+    }
+    return results;
+  }
+
+  protected override async isCancelled(id: string): Promise<boolean> {
+    return (await this.getJobResult(id))?.status === 'cancelled';
+  }
+
+  override async getJobResult(id: string): Promise<JobResult | undefined> {
+    const result = await this.redis.hGet(this.resultsKey, id);
+    return result ? JSON.parse(result) : undefined;
+  }
+
+  protected override async extendJob(message: QueueMessage, seconds: number): Promise<void> {
+    // Jobs that are no longer reserved must not be put back into the reserved set
+    if ((await this.redis.zScore(this.reservedKey, message.id)) === null) return;
+
+    const expireAt = Math.floor(Date.now() / 1000) + Math.ceil(seconds);
+    await this.redis.zAdd(this.reservedKey, { score: expireAt, value: message.id });
+  }
+
+  protected override async pruneResults(before: Date): Promise<void> {
+    const expired = await this.redis.zRangeByScore(this.finishedKey, '-inf', before.getTime());
+    if (expired.length === 0) return;
+
+    await this.redis.hDel(this.resultsKey, expired);
+    await this.redis.zRem(this.finishedKey, expired);
+    // Only failed jobs still have data
+    await this.redis.hDel(this.messagesKey, expired);
+    await this.redis.hDel(this.attemptsKey, expired);
+  }
+
+  protected override async persistProgress(id: string, progress: JobProgress): Promise<void> {
+    await this.redis.hSet(this.progressKey, id, JSON.stringify(progress));
+  }
+
+  override async getProgress(id: string): Promise<JobProgress | undefined> {
+    const progress = await this.redis.hGet(this.progressKey, id);
+    return progress ? JSON.parse(progress) : undefined;
+  }
+
+  protected override async retryJob(message: QueueMessage, delaySeconds: number): Promise<void> {
+    if (await this.isCancelled(message.id)) return;
+
+    // Move from reserved to delayed, the attempts counter is kept for the next reservation
+    await this.redis.zRem(this.reservedKey, [message.id]);
+    const executeAt = Math.floor(Date.now() / 1000) + Math.ceil(delaySeconds);
+    await this.redis.zAdd(this.delayedKey, { score: executeAt, value: message.id });
+    await this.reclaimDeduplication(message.id);
+  }
+
+  protected override async deferJob(message: QueueMessage, delaySeconds: number): Promise<void> {
+    // The reservation didn't run the job, so it doesn't count as an attempt
+    await this.redis.hIncrBy(this.attemptsKey, message.id, -1);
+    await this.retryJob(message, delaySeconds);
+  }
+
+  /**
+   * Fixed window counter shared by all workers using the same Redis instance.
+   */
+  protected override async consumeRateLimit(key: string, max: number, durationMs: number): Promise<number> {
+    const now = Date.now();
+    const windowStart = now - (now % durationMs);
+    const windowKey = `${this.keyPrefix}:ratelimit:${key}:${windowStart}`;
+
+    const count = await this.redis.incr(windowKey);
+    if (count === 1) {
+      await this.redis.pExpire(windowKey, durationMs);
+    }
+    return count <= max ? 0 : windowStart + durationMs - now;
   }
 
   async status(id: string): Promise<JobStatus> {
     // Check if job data exists
     const exists = await this.redis.hGet(this.messagesKey, id);
     if (!exists) {
-      return 'done';
+      return this.finishedStatus(id);
     }
 
     // Check delayed queue
@@ -202,8 +566,179 @@ export class RedisQueue<TJobMap = Record<string, any>> extends Queue<TJobMap, Re
       return 'waiting';
     }
 
-    // If job exists but not in any queue, it must be done
-    return 'done';
+    // Parents wait in no queue until their children completed
+    if ((await this.redis.hGet(this.pendingKey, id)) !== null) {
+      return 'waiting-children';
+    }
+
+    // If job exists but not in any queue, it must have finished
+    return this.finishedStatus(id);
+  }
+
+  /**
+   * Status of a finished job, read from its result while that is kept.
+   */
+  private async finishedStatus(id: string): Promise<JobStatus> {
+    const result = await this.getJobResult(id);
+    return result?.status === 'failed' || result?.status === 'cancelled' ? result.status : 'done';
+  }
+
+  protected override async countStoredJobs(): Promise<Partial<JobCounts>> {
+    const counts: Partial<JobCounts> = {};
+    for (const { status } of (await this.storedJobs()).values()) {
+      counts[status] = (counts[status] ?? 0) + 1;
+    }
+    return counts;
+  }
+
+  protected override async findJobs(filter: JobFilter & { limit: number }): Promise<JobInfo[]> {
+    const stored = await this.storedJobs();
+    const ids = [...stored]
+      .filter(([, { status }]) => filter.status === undefined || status === filter.status)
+      .map(([id]) => id)
+      .filter((id) => filter.after === undefined || parseInt(id) > parseInt(filter.after))
+      .sort((a, b) => parseInt(a) - parseInt(b));
+
+    // Reads a page of jobs at a time, done jobs have no name to filter by
+    const jobs: JobInfo[] = [];
+    for (let start = 0; start < ids.length && jobs.length < filter.limit; start += 100) {
+      const page = await this.readJobs(ids.slice(start, start + 100), stored);
+      jobs.push(...page.filter((job) => filter.name === undefined || job.name === filter.name));
+    }
+    return jobs.slice(0, filter.limit);
+  }
+
+  protected override async findJob(id: string): Promise<JobInfo | undefined> {
+    const result = await this.getJobResult(id);
+    let job: StoredJob;
+    if (result) {
+      job = { status: result.status, result };
+    } else if ((await this.redis.hGet(this.messagesKey, id)) !== null) {
+      job = { status: await this.status(id) };
+    } else {
+      return undefined;
+    }
+
+    const [info] = await this.readJobs([id], new Map([[id, job]]));
+    return info;
+  }
+
+  /**
+   * Puts a failed job back in the waiting queue. Its data is kept until its
+   * result expires, see `resultRetentionSeconds`.
+   */
+  protected override async requeueJob(id: string): Promise<boolean> {
+    const [result, message] = await Promise.all([
+      this.getJobResult(id),
+      this.redis.hGet(this.messagesKey, id),
+    ]);
+    if (result?.status !== 'failed' || message === null) return false;
+
+    // Only the caller removing the result retries the job
+    if ((await this.redis.hDel(this.resultsKey, [id])) === 0) return false;
+    await this.redis.zRem(this.finishedKey, [id]);
+    await this.redis.hDel(this.attemptsKey, [id]);
+
+    const { meta } = JSON.parse(message) as { meta: JobMeta };
+    await this.enqueue(id, { ...meta, delaySeconds: 0 });
+    await this.reclaimDeduplication(id);
+    return true;
+  }
+
+  protected override async deleteJob(id: string): Promise<boolean> {
+    const message = await this.redis.hGet(this.messagesKey, id);
+    const removed =
+      (await this.redis.hDel(this.messagesKey, [id])) +
+      (await this.redis.hDel(this.resultsKey, [id])) +
+      (await this.redis.zRem(this.waitingKey, [id])) +
+      (await this.redis.zRem(this.delayedKey, [id])) +
+      (await this.redis.zRem(this.reservedKey, [id])) +
+      (await this.redis.hDel(this.pendingKey, [id]));
+
+    await this.redis.zRem(this.finishedKey, [id]);
+    await this.redis.hDel(this.attemptsKey, [id]);
+    await this.redis.hDel(this.progressKey, [id]);
+    await this.redis.del([this.childrenKey(id)]);
+    if (message) {
+      await this.releaseDeduplication(id, (JSON.parse(message) as { meta: JobMeta }).meta);
+    }
+    return removed > 0;
+  }
+
+  protected override async purgeJobs(status: FinishedJobStatus, before: Date): Promise<number> {
+    const finished = await this.redis.zRangeByScore(this.finishedKey, '-inf', before.getTime());
+    if (finished.length === 0) return 0;
+
+    const results = await this.redis.hmGet(this.resultsKey, finished);
+    const purged = finished.filter((id, index) => {
+      const result = results[index];
+      return result ? (JSON.parse(result) as JobResult).status === status : false;
+    });
+    if (purged.length === 0) return 0;
+
+    await this.redis.hDel(this.resultsKey, purged);
+    await this.redis.zRem(this.finishedKey, purged);
+    await this.redis.hDel(this.messagesKey, purged);
+    await this.redis.hDel(this.attemptsKey, purged);
+    return purged.length;
+  }
+
+  /**
+   * Reads the status of every stored job from the sets and hashes holding them.
+   */
+  private async storedJobs(): Promise<Map<string, StoredJob>> {
+    const jobs = new Map<string, StoredJob>();
+    for (const [id, value] of Object.entries(await this.redis.hGetAll(this.resultsKey))) {
+      const result = JSON.parse(value) as JobResult;
+      jobs.set(id, { status: result.status, result });
+    }
+    for (const id of Object.keys(await this.redis.hGetAll(this.pendingKey))) {
+      jobs.set(id, { status: 'waiting-children' });
+    }
+    const sets = [
+      [this.waitingKey, 'waiting'],
+      [this.delayedKey, 'delayed'],
+      [this.reservedKey, 'reserved'],
+    ] as const;
+    for (const [key, status] of sets) {
+      for (const id of await this.redis.zRange(key, 0, -1)) {
+        jobs.set(id, { status });
+      }
+    }
+    return jobs;
+  }
+
+  private async readJobs(ids: string[], stored: Map<string, StoredJob>): Promise<JobInfo[]> {
+    if (ids.length === 0) return [];
+    const [messages, attempts] = await Promise.all([
+      this.redis.hmGet(this.messagesKey, ids),
+      this.redis.hmGet(this.attemptsKey, ids),
+    ]);
+
+    return Promise.all(
+      ids.map(async (id, index): Promise<JobInfo> => {
+        const { status, result } = stored.get(id)!;
+        const message = messages[index];
+        const { payload, meta } = message
+          ? (JSON.parse(message) as { payload: unknown; meta: JobMeta })
+          : { payload: undefined, meta: undefined };
+        const finishedAt = result ? await this.redis.zScore(this.finishedKey, id) : null;
+        // Dates are stored as JSON strings
+        const pushedAt = meta?.pushedAt ? new Date(meta.pushedAt) : undefined;
+
+        return {
+          id,
+          name: meta?.name,
+          status,
+          payload,
+          meta: meta && { ...meta, pushedAt },
+          attempts: meta ? Number(attempts[index] ?? 0) : undefined,
+          error: result?.status === 'failed' ? result.error : undefined,
+          pushedAt,
+          finishedAt: finishedAt !== null ? new Date(finishedAt) : undefined,
+        };
+      })
+    );
   }
 
   private async moveDelayedJobs(now: number): Promise<void> {
@@ -211,8 +746,8 @@ export class RedisQueue<TJobMap = Record<string, any>> extends Queue<TJobMap, Re
     const readyJobs = await this.redis.zRangeByScore(this.delayedKey, '-inf', now, { REV: true });
     
     for (const id of readyJobs) {
-      // Remove from delayed
-      await this.redis.zRem(this.delayedKey, [id]);
+      // Remove from delayed, unless another worker already moved it
+      if (await this.redis.zRem(this.delayedKey, [id]) === 0) continue;
       
       // Add to waiting queue with default priority (0)
       // Use job ID for FIFO within same priority
@@ -220,6 +755,7 @@ export class RedisQueue<TJobMap = Record<string, any>> extends Queue<TJobMap, Re
       const timePart = 1000000000 - jobIdNum;
       const score = 0 * 1000000000 + timePart; // Priority 0 by default
       await this.redis.zAdd(this.waitingKey, { score, value: id });
+      this.emitEvent({ type: 'delayedPromoted', id });
     }
   }
 
@@ -228,8 +764,8 @@ export class RedisQueue<TJobMap = Record<string, any>> extends Queue<TJobMap, Re
     const expiredJobs = await this.redis.zRangeByScore(this.reservedKey, '-inf', now, { REV: true });
     
     for (const id of expiredJobs) {
-      // Remove from reserved
-      await this.redis.zRem(this.reservedKey, [id]);
+      // Remove from reserved, unless another worker already recovered it
+      if (await this.redis.zRem(this.reservedKey, [id]) === 0) continue;
       
       // Add back to waiting for retry with default priority (0)
       // Use job ID for FIFO within same priority
@@ -237,6 +773,8 @@ export class RedisQueue<TJobMap = Record<string, any>> extends Queue<TJobMap, Re
       const timePart = 1000000000 - jobIdNum;
       const score = 0 * 1000000000 + timePart; // Priority 0 by default
       await this.redis.zAdd(this.waitingKey, { score, value: id });
+      await this.reclaimDeduplication(id);
+      this.emitEvent({ type: 'stalled', id });
     }
   }
 
@@ -268,12 +806,21 @@ export class RedisQueue<TJobMap = Record<string, any>> extends Queue<TJobMap, Re
    * Clear all jobs from this queue
    */
   async clear(): Promise<void> {
+    // Deduplication IDs outlive their jobs for the deduplication window
+    const deduplicationKeys = await this.redis.keys(this.deduplicationKey('*'));
+    if (deduplicationKeys.length > 0) {
+      await this.redis.del(deduplicationKeys);
+    }
     await this.redis.del([
       this.messagesKey,
       this.waitingKey, 
       this.delayedKey,
       this.reservedKey,
-      this.attemptsKey
+      this.attemptsKey,
+      this.progressKey,
+      this.resultsKey,
+      this.finishedKey,
+      this.pendingKey
     ]);
   }
 }
\ No newline at end of file
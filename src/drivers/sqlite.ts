@@ -3,10 +3,24 @@ import type {
   DatabaseAdapter,
   QueueJobRecord,
 } from "../interfaces/database.ts";
-import type { JobMeta, JobStatus } from "../interfaces/job.ts";
+import type {
+  BackoffOptions,
+  FinishedJobStatus,
+  JobCounts,
+  JobFilter,
+  JobInfo,
+  JobMeta,
+  JobProgress,
+  JobResult,
+  JobStatus,
+  PushResult,
+} from "../interfaces/job.ts";
+import type { QueueOptions } from "../interfaces/plugin.ts";
 import { DbQueue } from "../drivers/db.ts";
 
 // Generic SQLite database interface - works with better-sqlite3, expo-sqlite, bun:sqlite, etc.
+// Breaking change: statements need `all()` since job flows, which read several rows at
+// once. Wrappers written for the earlier `run()`/`get()` interface must add it.
 export interface SQLiteDatabase {
   exec(sql: string): void;
   prepare(sql: string): {
@@ -15,6 +29,7 @@ export interface SQLiteDatabase {
       changes: number;
     };
     get(...params: any[]): any;
+    all(...params: any[]): any[];
   };
 }
 
@@ -37,61 +52,275 @@ type Row = {
   expire_time?: number;
   done_time?: number;
   attempt: number;
-  status: "waiting" | "reserved" | "done" | "failed";
+  max_attempts?: number;
+  backoff?: string;
+  serializer?: string;
+  compression?: string;
+  encryption_key_id?: string;
+  claim_check?: string;
+  progress?: string;
+  result?: string;
+  parent_id?: number;
+  pending_children?: number;
+  status:
+    | "waiting"
+    | "waiting-children"
+    | "reserved"
+    | "done"
+    | "failed"
+    | "cancelled";
   error_message?: string;
 };
 
+const CREATE_JOBS_TABLE = `
+  CREATE TABLE IF NOT EXISTS jobs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    queue_name TEXT NOT NULL DEFAULT 'default',
+    name TEXT NOT NULL,
+    payload BLOB NOT NULL,
+    ttr INTEGER DEFAULT 300,
+    delay_seconds INTEGER DEFAULT 0,
+    priority INTEGER DEFAULT 0,
+    push_time INTEGER NOT NULL,
+    delay_time INTEGER,
+    reserve_time INTEGER,
+    expire_time INTEGER,
+    done_time INTEGER,
+    attempt INTEGER DEFAULT 0,
+    max_attempts INTEGER,
+    backoff TEXT,
+    serializer TEXT,
+    compression TEXT,
+    encryption_key_id TEXT,
+    claim_check TEXT,
+    progress TEXT,
+    result TEXT,
+    parent_id INTEGER,
+    pending_children INTEGER DEFAULT 0,
+    deduplication_id TEXT,
+    deduplication_until INTEGER,
+    status TEXT DEFAULT 'waiting' CHECK (status IN ('waiting', 'waiting-children', 'reserved', 'done', 'failed', 'cancelled')),
+    error_message TEXT
+  )
+`;
+
+// Columns read into a JobInfo
+const JOB_INFO_COLUMNS = `
+  id, name, json(payload) AS payload, ttr, delay_seconds, priority, push_time,
+  delay_time, reserve_time, done_time, attempt, max_attempts, backoff, serializer,
+  compression, encryption_key_id, claim_check, parent_id, status, error_message
+`;
+
+/** Queue of the jobs stored before queues were named */
+const LEGACY_QUEUE_NAME = "default";
+
+// One fixed window per rate limit key
+const CREATE_RATE_LIMITS_TABLE = `
+  CREATE TABLE IF NOT EXISTS rate_limits (
+    key TEXT PRIMARY KEY,
+    window_start INTEGER NOT NULL,
+    count INTEGER NOT NULL,
+    expires_at INTEGER
+  )
+`;
+
 export class SQLiteDatabaseAdapter implements DatabaseAdapter {
+  readonly supportsDeduplication = true;
   private db: SQLiteDatabase;
 
-  constructor(db: SQLiteDatabase) {
+  /**
+   * @param queueName - Jobs are stored with this name and only jobs with it
+   * are reserved, so several queues can share one `jobs` table
+   */
+  constructor(db: SQLiteDatabase, private readonly queueName: string = "default") {
     this.db = db;
     this.initializeSchema();
   }
 
   private initializeSchema(): void {
     // Create jobs table if it doesn't exist
+    this.db.exec(CREATE_JOBS_TABLE);
+    this.db.exec(CREATE_RATE_LIMITS_TABLE);
+
+    // Columns added after the initial schema, for databases created by older versions
+    this.addColumnIfMissing("max_attempts", "INTEGER");
+    this.addColumnIfMissing("backoff", "TEXT");
+    this.addColumnIfMissing("progress", "TEXT");
+    this.addColumnIfMissing("result", "TEXT");
+    this.addColumnIfMissing("parent_id", "INTEGER");
+    this.addColumnIfMissing("pending_children", "INTEGER DEFAULT 0");
+    this.addColumnIfMissing("deduplication_id", "TEXT");
+    this.addColumnIfMissing("deduplication_until", "INTEGER");
+    this.addColumnIfMissing("serializer", "TEXT");
+    this.addColumnIfMissing("compression", "TEXT");
+    this.addColumnIfMissing("claim_check", "TEXT");
+    this.addColumnIfMissing("encryption_key_id", "TEXT");
+    // Jobs stored before queues were named get the legacy queue name, see `claimLegacyJobs`
+    this.addColumnIfMissing("queue_name", `TEXT NOT NULL DEFAULT '${LEGACY_QUEUE_NAME}'`);
+    this.addColumnIfMissing("expires_at", "INTEGER", "rate_limits");
+    this.migrateStatusCheck();
+
+    // Indexes created before queues were named, replaced by the ones below
     this.db.exec(`
-      CREATE TABLE IF NOT EXISTS jobs (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        name TEXT NOT NULL,
-        payload BLOB NOT NULL,
-        ttr INTEGER DEFAULT 300,
-        delay_seconds INTEGER DEFAULT 0,
-        priority INTEGER DEFAULT 0,
-        push_time INTEGER NOT NULL,
-        delay_time INTEGER,
-        reserve_time INTEGER,
-        expire_time INTEGER,
-        done_time INTEGER,
-        attempt INTEGER DEFAULT 0,
-        status TEXT DEFAULT 'waiting' CHECK (status IN ('waiting', 'reserved', 'done', 'failed')),
-        error_message TEXT
-      )
+      DROP INDEX IF EXISTS idx_jobs_status_delay_priority;
+      DROP INDEX IF EXISTS idx_jobs_expire_time;
+      DROP INDEX IF EXISTS idx_jobs_deduplication_id;
     `);
 
     // Create indexes for performance
     this.db.exec(`
-      CREATE INDEX IF NOT EXISTS idx_jobs_status_delay_priority 
-      ON jobs (status, delay_time, priority DESC, push_time ASC)
+      CREATE INDEX IF NOT EXISTS idx_jobs_queue_status_delay_priority 
+      ON jobs (queue_name, status, delay_time, priority DESC, push_time ASC)
+    `);
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_jobs_queue_expire_time 
+      ON jobs (queue_name, expire_time) WHERE status = 'reserved'
+    `);
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_jobs_parent_id 
+      ON jobs (parent_id) WHERE parent_id IS NOT NULL
+    `);
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_rate_limits_expires_at ON rate_limits (expires_at)
     `);
 
+    // At most one job of a queue holds a deduplication ID
     this.db.exec(`
-      CREATE INDEX IF NOT EXISTS idx_jobs_expire_time 
-      ON jobs (expire_time) WHERE status = 'reserved'
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_queue_deduplication_id 
+      ON jobs (queue_name, deduplication_id) WHERE deduplication_id IS NOT NULL
+    `);
+  }
+
+  /**
+   * @returns Whether the column was added
+   */
+  private addColumnIfMissing(
+    column: string,
+    definition: string,
+    table: string = "jobs"
+  ): boolean {
+    const exists = this.db
+      .prepare(`SELECT 1 FROM pragma_table_info(?) WHERE name = ?`)
+      .get(table, column);
+    if (!exists) {
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+    return !exists;
+  }
+
+  /**
+   * Tables created by older versions have a CHECK constraint rejecting newer
+   * statuses. SQLite can't alter constraints, so the table is rebuilt.
+   */
+  private migrateStatusCheck(): void {
+    const table = this.db
+      .prepare(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'jobs'`)
+      .get() as { sql: string } | undefined;
+    if (!table || table.sql.includes("'waiting-children'")) {
+      return;
+    }
+
+    const { columns } = this.db
+      .prepare(
+        `SELECT group_concat(name, ', ') AS columns FROM pragma_table_info('jobs')`
+      )
+      .get() as { columns: string };
+
+    this.db.exec(`
+      BEGIN;
+      ALTER TABLE jobs RENAME TO jobs_old;
+      ${CREATE_JOBS_TABLE};
+      INSERT INTO jobs (${columns}) SELECT ${columns} FROM jobs_old;
+      DROP TABLE jobs_old;
+      COMMIT;
     `);
   }
 
   async insertJob(payload: unknown, meta: JobMeta): Promise<string> {
-    const now = new Date();
-    const stmt = this.db.prepare(`
+    if (meta.deduplicationId === undefined) {
+      return this.insert(payload, meta);
+    }
+    return this.transaction(() => this.insertDeduplicated(payload, meta));
+  }
+
+  async insertJobs(
+    jobs: Array<{ payload: unknown; meta: JobMeta }>
+  ): Promise<PushResult[]> {
+    const stmt = this.prepareInsert();
+
+    // One transaction for the whole batch, a failing row only skips that job
+    return this.transaction(() =>
+      jobs.map(({ payload, meta }): PushResult => {
+        try {
+          return {
+            id:
+              meta.deduplicationId === undefined
+                ? this.insert(payload, meta, stmt)
+                : this.insertDeduplicated(payload, meta, stmt),
+          };
+        } catch (error) {
+          return { error };
+        }
+      })
+    );
+  }
+
+  /**
+   * Inserts a job unless a job holding its deduplication ID blocks it, in
+   * which case that job's ID is returned. Must run inside a transaction.
+   */
+  private insertDeduplicated(
+    payload: unknown,
+    meta: JobMeta,
+    stmt = this.prepareInsert()
+  ): string {
+    // Queued jobs, retries included, and jobs inside their window block duplicates
+    const existing = this.db
+      .prepare(
+        `SELECT id FROM jobs
+          WHERE queue_name = ? AND deduplication_id = ?
+            AND (status IN ('waiting', 'waiting-children')
+              OR deduplication_until > ?)`
+      )
+      .get(this.queueName, meta.deduplicationId, Date.now()) as
+      | Pick<Row, "id">
+      | undefined;
+    if (existing) {
+      return existing.id.toString();
+    }
+
+    // Release the ID from a job that no longer blocks duplicates
+    this.db
+      .prepare(
+        `UPDATE jobs SET deduplication_id = NULL
+          WHERE queue_name = ? AND deduplication_id = ?`
+      )
+      .run(this.queueName, meta.deduplicationId);
+    return this.insert(payload, meta, stmt);
+  }
+
+  private prepareInsert() {
+    return this.db.prepare(`
       INSERT INTO jobs (
-        name, payload, ttr, delay_seconds, priority, push_time, 
-        delay_time, status
-      ) VALUES (?, jsonb(?), ?, ?, ?, ?, ?, ?)
+        queue_name, name, payload, ttr, delay_seconds, priority, push_time, 
+        delay_time, max_attempts, backoff, parent_id, pending_children, status,
+        deduplication_id, deduplication_until, serializer, compression,
+        encryption_key_id, claim_check
+      ) VALUES (?, ?, jsonb(?), ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
+  }
 
+  private insert(
+    payload: unknown,
+    meta: JobMeta,
+    stmt = this.prepareInsert()
+  ): string {
+    const now = new Date();
     const result = stmt.run(
+      this.queueName,
       meta.name,
       JSON.stringify(payload),
       meta.ttr || 300,
@@ -99,40 +328,64 @@ export class SQLiteDatabaseAdapter implements DatabaseAdapter {
       meta.priority || 0,
       now.getTime(),
       meta.delaySeconds ? now.getTime() + meta.delaySeconds * 1000 : null,
-      "waiting"
+      meta.maxAttempts ?? null,
+      meta.backoff ? JSON.stringify(meta.backoff) : null,
+      meta.parentId ? parseInt(meta.parentId) : null,
+      meta.childCount ?? 0,
+      // Parents wait until all of their children completed
+      meta.childCount ? "waiting-children" : "waiting",
+      meta.deduplicationId ?? null,
+      meta.deduplicationId !== undefined
+        ? now.getTime() + (meta.deduplicationSeconds ?? 0) * 1000
+        : null,
+      meta.serializer ?? null,
+      meta.compression ?? null,
+      meta.encryptionKeyId ?? null,
+      meta.claimCheck ?? null
     );
 
     return result.lastInsertRowid.toString();
   }
 
   async reserveJob(timeout: number): Promise<QueueJobRecord | null> {
-    const now = Date.now();
+    const [job] = await this.reserveJobs(timeout, 1);
+    return job ?? null;
+  }
 
-    // First, recover any timed-out reserved jobs back to waiting
+  async recoverStalledJobs(): Promise<Array<{ id: string; name: string }>> {
+    // Put timed-out reserved jobs back to waiting
     const recoverStmt = this.db.prepare(`
       UPDATE jobs SET 
         status = 'waiting',
         reserve_time = NULL,
         expire_time = NULL,
         attempt = attempt + 1
-       WHERE status = 'reserved' 
+       WHERE queue_name = ?
+       AND status = 'reserved' 
        AND expire_time < ?
+       RETURNING id, name
     `);
-    recoverStmt.run(now);
+    const jobs = recoverStmt.all(this.queueName, Date.now()) as Pick<Row, "id" | "name">[];
+    return jobs.map((job) => ({ id: job.id.toString(), name: job.name }));
+  }
+
+  async reserveJobs(timeout: number, limit: number): Promise<QueueJobRecord[]> {
+    const now = Date.now();
 
-    // Atomically reserve a job using UPDATE with RETURNING
+    // Atomically reserve up to `limit` jobs using UPDATE with RETURNING
     // SQLite 3.35+ supports RETURNING clause
     const reserveStmt = this.db.prepare(`
       UPDATE jobs SET 
         status = 'reserved',
         reserve_time = ?,
-        expire_time = ?
-       WHERE id = (
+        expire_time = ? + COALESCE(NULLIF(ttr, 0), 300) * 1000
+       WHERE id IN (
          SELECT id FROM jobs 
-         WHERE status = 'waiting' 
+         WHERE queue_name = ?
+         AND status = 'waiting' 
          AND (delay_time IS NULL OR delay_time <= ?)
          ORDER BY priority DESC, push_time ASC 
-         LIMIT 1
+         LIMIT ?
        )
        RETURNING 
           id, 
@@ -147,25 +400,23 @@ export class SQLiteDatabaseAdapter implements DatabaseAdapter {
           expire_time, 
           done_time, 
           attempt, 
+          max_attempts, 
+          backoff, 
+          serializer, 
+          compression, 
+          encryption_key_id, 
+          claim_check, 
+          parent_id, 
           status, 
           error_message
     `);
 
-    const job = reserveStmt.get(now, now + 300 * 1000, now) as Row | undefined;
+    const jobs = reserveStmt.all(now, now, this.queueName, now, limit) as Row[];
 
-    // Check if we actually got a job
-    if (!job) {
-      return null;
-    }
-
-    // Update with the correct TTR from the job
-    const jobTtr = job.ttr || 300;
-    const updateTtrStmt = this.db.prepare(`
-      UPDATE jobs SET expire_time = ? WHERE id = ?
-    `);
-    updateTtrStmt.run(now + jobTtr * 1000, job.id);
+    // RETURNING doesn't keep the order of the subquery
+    jobs.sort((a, b) => b.priority - a.priority || a.push_time - b.push_time || a.id - b.id);
 
-    return {
+    return jobs.map((job) => ({
       id: job.id.toString(),
       payload: JSON.parse(job.payload),
       meta: {
@@ -175,49 +426,147 @@ export class SQLiteDatabaseAdapter implements DatabaseAdapter {
         priority: job.priority,
         pushedAt: new Date(job.push_time),
         reservedAt: new Date(now),
+        attempt: job.attempt + 1,
+        maxAttempts: job.max_attempts ?? undefined,
+        backoff: job.backoff
+          ? (JSON.parse(job.backoff) as BackoffOptions)
+          : undefined,
+        parentId: job.parent_id?.toString(),
+        serializer: job.serializer ?? undefined,
+        compression: job.compression ?? undefined,
+        encryptionKeyId: job.encryption_key_id ?? undefined,
+        claimCheck: job.claim_check ?? undefined,
       },
       pushedAt: new Date(job.push_time),
       reservedAt: new Date(now),
-    };
+    }));
   }
 
-  async completeJob(id: string): Promise<void> {
-    const stmt = this.db.prepare(`
-      UPDATE jobs SET 
-        status = 'done',
-        done_time = ?
-       WHERE id = ?
-    `);
-    stmt.run(Date.now(), parseInt(id));
+  async completeJob(id: string, result?: unknown): Promise<void> {
+    this.transaction(() => {
+      const stmt = this.db.prepare(`
+        UPDATE jobs SET 
+          status = 'done',
+          done_time = ?,
+          result = ?
+         WHERE id = ? AND status NOT IN ('cancelled', 'done')
+         RETURNING parent_id
+      `);
+      // Stored as JSON even when undefined, so a NULL result means "pruned"
+      const job = stmt.get(
+        Date.now(),
+        JSON.stringify(result ?? null),
+        parseInt(id)
+      ) as Pick<Row, "parent_id"> | undefined;
+
+      if (job?.parent_id != null) {
+        // The last child to complete releases the parent
+        this.db
+          .prepare(`
+            UPDATE jobs SET 
+              pending_children = pending_children - 1,
+              status = CASE WHEN pending_children <= 1 THEN 'waiting' ELSE status END
+             WHERE id = ? AND status = 'waiting-children'
+          `)
+          .run(job.parent_id);
+      }
+    });
   }
 
-  async releaseJob(id: string): Promise<void> {
+  async releaseJob(
+    id: string,
+    delaySeconds: number = 0,
+    countAttempt: boolean = true
+  ): Promise<void> {
     const stmt = this.db.prepare(`
       UPDATE jobs SET 
         status = 'waiting',
         reserve_time = NULL,
-        expire_time = NULL
-       WHERE id = ?
+        expire_time = NULL,
+        delay_time = ?,
+        attempt = attempt + ?
+       WHERE id = ? AND status != 'cancelled'
+    `);
+    stmt.run(
+      delaySeconds > 0 ? Date.now() + delaySeconds * 1000 : null,
+      countAttempt ? 1 : 0,
+      parseInt(id)
+    );
+  }
+
+  async extendJob(id: string, seconds: number): Promise<void> {
+    const stmt = this.db.prepare(`
+      UPDATE jobs SET expire_time = ? WHERE id = ? AND status = 'reserved'
     `);
-    stmt.run(parseInt(id));
+    stmt.run(Date.now() + seconds * 1000, parseInt(id));
   }
 
   async failJob(id: string, error: string): Promise<void> {
+    this.transaction(() => {
+      const stmt = this.db.prepare(`
+        UPDATE jobs SET 
+          status = 'failed',
+          error_message = ?,
+          done_time = ?
+         WHERE id = ? AND status != 'cancelled'
+         RETURNING parent_id
+      `);
+      const job = stmt.get(error, Date.now(), parseInt(id)) as
+        | Pick<Row, "parent_id">
+        | undefined;
+
+      this.failParents(job?.parent_id, parseInt(id), `failed: ${error}`);
+    });
+  }
+
+  /**
+   * Fails the parents waiting for a child that won't complete, up the tree.
+   */
+  private failParents(
+    parentId: number | null | undefined,
+    childId: number,
+    reason: string
+  ): void {
     const stmt = this.db.prepare(`
       UPDATE jobs SET 
         status = 'failed',
         error_message = ?,
         done_time = ?
-       WHERE id = ?
+       WHERE id = ? AND status = 'waiting-children'
+       RETURNING id, parent_id
     `);
-    stmt.run(error, Date.now(), parseInt(id));
+
+    while (parentId != null) {
+      const parent = stmt.get(
+        `Child job ${childId} ${reason}`,
+        Date.now(),
+        parentId
+      ) as Pick<Row, "id" | "parent_id"> | undefined;
+      if (!parent) return;
+
+      reason = `failed: Child job ${childId} ${reason}`;
+      childId = parent.id;
+      parentId = parent.parent_id;
+    }
+  }
+
+  private transaction<T>(callback: () => T): T {
+    this.db.exec("BEGIN IMMEDIATE");
+    try {
+      const result = callback();
+      this.db.exec("COMMIT");
+      return result;
+    } catch (error) {
+      this.db.exec("ROLLBACK");
+      throw error;
+    }
   }
 
   async getJobStatus(id: string): Promise<JobStatus | null> {
     const stmt = this.db.prepare(
-      `SELECT status, delay_time FROM jobs WHERE id = ?`
+      `SELECT status, delay_time FROM jobs WHERE id = ? AND queue_name = ?`
     );
-    const job = stmt.get(parseInt(id)) as {
+    const job = stmt.get(parseInt(id), this.queueName) as {
       status: string;
       delay_time: number | null;
     };
@@ -236,20 +585,263 @@ export class SQLiteDatabaseAdapter implements DatabaseAdapter {
     switch (job.status) {
       case "waiting":
         return "waiting";
+      case "waiting-children":
+        return "waiting-children";
       case "reserved":
         return "reserved";
       case "done":
         return "done";
       case "failed":
-        return "done";
+        return "failed";
+      case "cancelled":
+        return "cancelled";
       default:
         return null;
     }
   }
 
-  async deleteJob(id: string): Promise<void> {
-    const stmt = this.db.prepare(`DELETE FROM jobs WHERE id = ?`);
-    stmt.run(parseInt(id));
+  async cancelJob(id: string): Promise<JobStatus | null> {
+    let cancelled = false;
+    this.transaction(() => {
+      // Waiting and delayed jobs are taken out of the queue the same way as
+      // reserved ones, workers abort the latter once they see the new status
+      const stmt = this.db.prepare(`
+        UPDATE jobs SET 
+          status = 'cancelled',
+          done_time = ?
+         WHERE id = ? AND queue_name = ?
+           AND status IN ('waiting', 'waiting-children', 'reserved')
+         RETURNING parent_id
+      `);
+      const job = stmt.get(Date.now(), parseInt(id), this.queueName) as
+        | Pick<Row, "parent_id">
+        | undefined;
+
+      cancelled = job !== undefined;
+      this.failParents(job?.parent_id, parseInt(id), "was cancelled");
+    });
+    return cancelled ? "cancelled" : this.getJobStatus(id);
+  }
+
+  async getChildrenResults(parentId: string): Promise<Record<string, unknown>> {
+    const stmt = this.db.prepare(`
+      SELECT id, result FROM jobs 
+       WHERE parent_id = ? AND status = 'done' AND result IS NOT NULL
+    `);
+    const results: Record<string, unknown> = {};
+    for (const row of stmt.all(parseInt(parentId)) as Row[]) {
+      results[row.id.toString()] = JSON.parse(row.result!);
+    }
+    return results;
+  }
+
+  async updateProgress(id: string, progress: JobProgress): Promise<void> {
+    const stmt = this.db.prepare(`UPDATE jobs SET progress = ? WHERE id = ?`);
+    stmt.run(JSON.stringify(progress), parseInt(id));
+  }
+
+  async getProgress(id: string): Promise<JobProgress | null> {
+    const stmt = this.db.prepare(
+      `SELECT progress FROM jobs WHERE id = ? AND queue_name = ?`
+    );
+    const job = stmt.get(parseInt(id), this.queueName) as { progress: string | null } | undefined;
+    return job?.progress ? JSON.parse(job.progress) : null;
+  }
+
+  async getJobResult(id: string): Promise<JobResult | null> {
+    const stmt = this.db.prepare(
+      `SELECT status, result, error_message FROM jobs WHERE id = ? AND queue_name = ?`
+    );
+    const job = stmt.get(parseInt(id), this.queueName) as
+      | Pick<Row, "status" | "result" | "error_message">
+      | undefined;
+
+    if (job?.status === "done" && job.result != null) {
+      return { status: "done", result: JSON.parse(job.result) };
+    }
+    if (job?.status === "failed" && job.error_message != null) {
+      return { status: "failed", error: job.error_message };
+    }
+    if (job?.status === "cancelled") {
+      return { status: "cancelled" };
+    }
+    return null;
+  }
+
+  async pruneResults(before: Date): Promise<void> {
+    const stmt = this.db.prepare(`
+      UPDATE jobs SET result = NULL, error_message = NULL
+       WHERE queue_name = ? AND status IN ('done', 'failed') AND done_time < ?
+    `);
+    stmt.run(this.queueName, before.getTime());
+  }
+
+  async consumeRateLimit(
+    key: string,
+    max: number,
+    durationMs: number
+  ): Promise<number> {
+    const now = Date.now();
+    const windowStart = now - (now % durationMs);
+
+    // Windows that ended, of every key, so keys that aren't used anymore
+    // (e.g. per tenant) don't pile up
+    this.db.prepare(`DELETE FROM rate_limits WHERE expires_at <= ?`).run(now);
+
+    // Starts a new window or counts the job in the current one while it has room
+    const stmt = this.db.prepare(`
+      INSERT INTO rate_limits (key, window_start, count, expires_at) VALUES (?, ?, 1, ?)
+      ON CONFLICT (key) DO UPDATE SET
+        count = CASE WHEN window_start = excluded.window_start THEN count + 1 ELSE 1 END,
+        window_start = excluded.window_start,
+        expires_at = excluded.expires_at
+       WHERE window_start != excluded.window_start OR count < ?
+       RETURNING count
+    `);
+    const row = stmt.get(this.rateLimitKey(key), windowStart, windowStart + durationMs, max);
+
+    return row ? 0 : windowStart + durationMs - now;
+  }
+
+  /** Rate limits are counted per queue, like the jobs they throttle */
+  private rateLimitKey(key: string): string {
+    return `${this.queueName}:${key}`;
+  }
+
+  async countJobs(): Promise<Partial<JobCounts>> {
+    const stmt = this.db.prepare(`
+      SELECT 
+        CASE WHEN status = 'waiting' AND delay_time > ? THEN 'delayed' ELSE status END AS status,
+        COUNT(*) AS count
+       FROM jobs 
+       WHERE queue_name = ?
+       GROUP BY 1
+    `);
+    const rows = stmt.all(Date.now(), this.queueName) as Array<{
+      status: JobStatus;
+      count: number;
+    }>;
+
+    const counts: Partial<JobCounts> = {};
+    for (const row of rows) {
+      counts[row.status] = row.count;
+    }
+    return counts;
+  }
+
+  async listJobs(filter: JobFilter & { limit: number }): Promise<JobInfo[]> {
+    const now = Date.now();
+    const conditions = ["queue_name = ?"];
+    const params: unknown[] = [this.queueName];
+
+    // Delayed jobs are stored as waiting jobs with a delay time in the future
+    if (filter.status === "delayed") {
+      conditions.push("status = 'waiting' AND delay_time > ?");
+      params.push(now);
+    } else if (filter.status === "waiting") {
+      conditions.push("status = 'waiting' AND (delay_time IS NULL OR delay_time <= ?)");
+      params.push(now);
+    } else if (filter.status !== undefined) {
+      conditions.push("status = ?");
+      params.push(filter.status);
+    }
+    if (filter.name !== undefined) {
+      conditions.push("name = ?");
+      params.push(filter.name);
+    }
+    if (filter.after !== undefined) {
+      conditions.push("id > ?");
+      params.push(parseInt(filter.after));
+    }
+
+    const stmt = this.db.prepare(`
+      SELECT ${JOB_INFO_COLUMNS} FROM jobs 
+       WHERE ${conditions.join(" AND ")}
+       ORDER BY id 
+       LIMIT ?
+    `);
+    const jobs = stmt.all(...params, filter.limit) as Row[];
+    return jobs.map((job) => this.toJobInfo(job, now));
+  }
+
+  async getJob(id: string): Promise<JobInfo | null> {
+    const stmt = this.db.prepare(
+      `SELECT ${JOB_INFO_COLUMNS} FROM jobs WHERE id = ? AND queue_name = ?`
+    );
+    const job = stmt.get(parseInt(id), this.queueName) as Row | undefined;
+    return job ? this.toJobInfo(job, Date.now()) : null;
+  }
+
+  private toJobInfo(job: Row, now: number): JobInfo {
+    return {
+      id: job.id.toString(),
+      name: job.name,
+      status:
+        job.status === "waiting" && job.delay_time != null && job.delay_time > now
+          ? "delayed"
+          : job.status,
+      payload: JSON.parse(job.payload),
+      meta: {
+        name: job.name,
+        ttr: job.ttr,
+        delaySeconds: job.delay_seconds,
+        priority: job.priority,
+        pushedAt: new Date(job.push_time),
+        maxAttempts: job.max_attempts ?? undefined,
+        backoff: job.backoff
+          ? (JSON.parse(job.backoff) as BackoffOptions)
+          : undefined,
+        parentId: job.parent_id?.toString(),
+        serializer: job.serializer ?? undefined,
+        compression: job.compression ?? undefined,
+        encryptionKeyId: job.encryption_key_id ?? undefined,
+        claimCheck: job.claim_check ?? undefined,
+      },
+      // The attempt column counts released attempts, jobs keep the
+      // reservation time of an attempt that wasn't released
+      attempts: job.attempt + (job.reserve_time != null ? 1 : 0),
+      error: job.error_message ?? undefined,
+      pushedAt: new Date(job.push_time),
+      finishedAt: job.done_time != null ? new Date(job.done_time) : undefined,
+    };
+  }
+
+  async requeueJob(id: string): Promise<boolean> {
+    const stmt = this.db.prepare(`
+      UPDATE jobs SET 
+        status = 'waiting',
+        attempt = 0,
+        delay_time = NULL,
+        reserve_time = NULL,
+        expire_time = NULL,
+        done_time = NULL,
+        error_message = NULL
+       WHERE id = ? AND queue_name = ? AND status = 'failed'
+    `);
+    return stmt.run(parseInt(id), this.queueName).changes > 0;
+  }
+
+  async deleteJob(id: string): Promise<boolean> {
+    const stmt = this.db.prepare(`DELETE FROM jobs WHERE id = ? AND queue_name = ?`);
+    return stmt.run(parseInt(id), this.queueName).changes > 0;
+  }
+
+  async purgeJobs(status: FinishedJobStatus, before: Date): Promise<number> {
+    const stmt = this.db.prepare(`
+      DELETE FROM jobs WHERE queue_name = ? AND status = ? AND done_time < ?
+    `);
+    return stmt.run(this.queueName, status, before.getTime()).changes;
+  }
+
+  async claimLegacyJobs(names: string[]): Promise<number> {
+    if (names.length === 0 || this.queueName === LEGACY_QUEUE_NAME) return 0;
+
+    // Jobs whose deduplication ID this queue already holds stay where they are
+    const stmt = this.db.prepare(`
+      UPDATE OR IGNORE jobs SET queue_name = ?
+       WHERE queue_name = ? AND name IN (${names.map(() => "?").join(", ")})
+    `);
+    return stmt.run(this.queueName, LEGACY_QUEUE_NAME, ...names).changes;
   }
 
   async markJobDone(id: string): Promise<void> {
@@ -260,13 +852,17 @@ export class SQLiteDatabaseAdapter implements DatabaseAdapter {
   }
 
   async clear(): Promise<void> {
-    // Delete all jobs from the database and reset auto-increment
-    const deleteStmt = this.db.prepare("DELETE FROM jobs");
-    deleteStmt.run();
-
-    // Reset the auto-increment counter
+    // Delete the jobs and rate limits of this queue only
+    const deleteStmt = this.db.prepare("DELETE FROM jobs WHERE queue_name = ?");
+    deleteStmt.run(this.queueName);
+    const prefix = this.rateLimitKey("");
+    this.db
+      .prepare("DELETE FROM rate_limits WHERE substr(key, 1, ?) = ?")
+      .run(prefix.length, prefix);
+
+    // Reset the auto-increment counter once no queue has jobs left
     const resetStmt = this.db.prepare(
-      "DELETE FROM sqlite_sequence WHERE name = ?"
+      "DELETE FROM sqlite_sequence WHERE name = ? AND NOT EXISTS (SELECT 1 FROM jobs)"
     );
     resetStmt.run("jobs");
   }
@@ -281,9 +877,10 @@ export class SQLiteDatabaseAdapter implements DatabaseAdapter {
 
 // Main export - constructor pattern
 export class SQLiteQueue<T = Record<string, any>> extends DbQueue<T> {
-  constructor(config: { database: SQLiteDatabase; name: string }) {
-    const adapter = new SQLiteDatabaseAdapter(config.database);
-    super(adapter, { name: config.name });
+  constructor(config: QueueOptions & { database: SQLiteDatabase }) {
+    const { database, ...options } = config;
+    const adapter = new SQLiteDatabaseAdapter(database, options.name);
+    super(adapter, options);
   }
 }
 
@@ -1,9 +1,11 @@
 import {
   SQSClient,
   SendMessageCommand,
+  SendMessageBatchCommand,
   ReceiveMessageCommand,
   DeleteMessageCommand,
   ChangeMessageVisibilityCommand,
+  ChangeMessageVisibilityBatchCommand,
   type SendMessageCommandInput,
   type ReceiveMessageCommandInput,
   type DeleteMessageCommandInput,
@@ -14,6 +16,7 @@ import type {
   JobStatus,
   JobMeta,
   QueueMessage,
+  PushResult,
   BaseJobOptions,
   WithDelay,
 } from "../interfaces/job.ts";
@@ -44,10 +47,79 @@ export class SqsQueue<TJobMap = Record<string, any>> extends Queue<
     super(options);
     // SQS supports long polling via WaitTimeSeconds
     this.supportsLongPolling = true;
+    this.supportsExtension = true;
     this.#onFailure = options.onFailure;
+    // FIFO queues deduplicate messages with the same MessageDeduplicationId
+    this.supportsDeduplication = this.isFifo;
+  }
+
+  private get isFifo(): boolean {
+    return this.queueUrl.endsWith(".fifo");
   }
 
   protected async pushMessage(payload: unknown, meta: JobMeta): Promise<string> {
+    const command = new SendMessageCommand({
+      QueueUrl: this.queueUrl,
+      ...this.toMessage(payload, meta),
+    });
+
+    const result = await this.client.send(command);
+
+    if (!result.MessageId) {
+      throw new Error("Failed to send message - no MessageId returned");
+    }
+    return result.MessageId;
+  }
+
+  /**
+   * Sends the messages with `SendMessageBatch`, 10 at a time as allowed by SQS.
+   */
+  protected override async pushMessages(
+    messages: Array<{ payload: unknown; meta: JobMeta }>
+  ): Promise<PushResult[]> {
+    const results: PushResult[] = new Array(messages.length);
+
+    for (let start = 0; start < messages.length; start += 10) {
+      const chunk = messages.slice(start, start + 10);
+      const command = new SendMessageBatchCommand({
+        QueueUrl: this.queueUrl,
+        // Entry IDs are the position in the batch
+        Entries: chunk.map(({ payload, meta }, position) => ({
+          Id: String(start + position),
+          ...this.toMessage(payload, meta),
+        })),
+      });
+
+      try {
+        const result = await this.client.send(command);
+        for (const entry of result.Successful ?? []) {
+          results[Number(entry.Id)] = { id: entry.MessageId! };
+        }
+        for (const entry of result.Failed ?? []) {
+          results[Number(entry.Id)] = {
+            error: new Error(`${entry.Code}: ${entry.Message ?? "Failed to send message"}`),
+          };
+        }
+      } catch (error) {
+        for (let index = start; index < start + chunk.length; index++) {
+          results[index] = { error };
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Builds the body and attributes of a message, shared by single and batch sends.
+   *
+   * @param previousAttempts - Attempts a deferred job used before it was sent again
+   */
+  private toMessage(
+    payload: unknown,
+    meta: JobMeta,
+    previousAttempts: number = 0
+  ): Omit<SendMessageCommandInput, "QueueUrl"> {
     const messageAttributes: Record<
       string,
       { StringValue: string; DataType: string }
@@ -70,69 +142,139 @@ export class SqsQueue<TJobMap = Record<string, any>> extends Queue<
         DataType: "Number",
       };
     }
+    if (meta.maxAttempts) {
+      messageAttributes.maxAttempts = {
+        StringValue: meta.maxAttempts.toString(),
+        DataType: "Number",
+      };
+    }
+    if (meta.backoff) {
+      messageAttributes.backoff = {
+        StringValue: JSON.stringify(meta.backoff),
+        DataType: "String",
+      };
+    }
+    if (meta.serializer) {
+      messageAttributes.serializer = {
+        StringValue: meta.serializer,
+        DataType: "String",
+      };
+    }
+    if (meta.compression) {
+      messageAttributes.compression = {
+        StringValue: meta.compression,
+        DataType: "String",
+      };
+    }
+    if (meta.encryptionKeyId) {
+      messageAttributes.encryptionKeyId = {
+        StringValue: meta.encryptionKeyId,
+        DataType: "String",
+      };
+    }
+    if (meta.claimCheck) {
+      messageAttributes.claimCheck = {
+        StringValue: meta.claimCheck,
+        DataType: "String",
+      };
+    }
+    if (previousAttempts > 0) {
+      messageAttributes.previousAttempts = {
+        StringValue: previousAttempts.toString(),
+        DataType: "Number",
+      };
+    }
 
-    const command = new SendMessageCommand({
-      QueueUrl: this.queueUrl,
+    const message: Omit<SendMessageCommandInput, "QueueUrl"> = {
       MessageBody: JSON.stringify(payload),
       DelaySeconds: meta.delaySeconds || 0,
       MessageAttributes: messageAttributes,
-    });
-
-    const result = await this.client.send(command);
-
-    if (!result.MessageId) {
-      throw new Error("Failed to send message - no MessageId returned");
+    };
+    if (this.isFifo) {
+      // Messages of one group are delivered in order, one at a time
+      message.MessageGroupId = meta.name;
+      // FIFO queues only accept delays set on the queue
+      if (!meta.delaySeconds) delete message.DelaySeconds;
+      // SQS always deduplicates within 5 minutes, `deduplicationSeconds` doesn't apply
+      if (meta.deduplicationId !== undefined) {
+        message.MessageDeduplicationId = meta.deduplicationId;
+      }
     }
-    return result.MessageId;
+    return message;
   }
 
   protected async reserve(timeout: number): Promise<QueueMessage | null> {
+    const [message] = await this.reserveMany(timeout, 1);
+    return message ?? null;
+  }
+
+  /**
+   * Receives up to 10 messages per call, the most SQS returns at once.
+   */
+  protected override async reserveMany(
+    timeout: number,
+    limit: number
+  ): Promise<QueueMessage[]> {
     const command = new ReceiveMessageCommand({
       QueueUrl: this.queueUrl,
-      MaxNumberOfMessages: 1,
+      MaxNumberOfMessages: Math.min(Math.max(limit, 1), 10),
       WaitTimeSeconds: timeout,
       MessageAttributeNames: ["All"],
+      MessageSystemAttributeNames: ["ApproximateReceiveCount"],
     });
 
     const result = await this.client.send(command);
 
-    if (!result.Messages || result.Messages.length === 0) {
-      return null;
-    }
+    const messages: QueueMessage[] = [];
+    for (const message of result.Messages ?? []) {
+      if (!message.Body || !message.MessageId || !message.ReceiptHandle) {
+        continue;
+      }
+      const payload = JSON.parse(message.Body);
 
-    const message = result.Messages[0];
-    if (
-      !message ||
-      !message.Body ||
-      !message.MessageId ||
-      !message.ReceiptHandle
-    ) {
-      return null;
+      const attributes = message.MessageAttributes;
+      const receiveCount = message.Attributes?.ApproximateReceiveCount;
+      const previousAttempts = attributes?.previousAttempts?.StringValue
+        ? parseInt(attributes.previousAttempts.StringValue)
+        : 0;
+      const meta: JobMeta = {
+        name: attributes?.name?.StringValue || "",
+        ttr: attributes?.ttr?.StringValue ? parseInt(attributes.ttr.StringValue) : undefined,
+        priority: attributes?.priority?.StringValue ? parseInt(attributes.priority.StringValue) : undefined,
+        receiptHandle: message.ReceiptHandle,
+        // SQS counts every delivery, which matches our 1-based attempt number
+        // once the attempts of deferred copies are added
+        attempt: receiveCount ? previousAttempts + parseInt(receiveCount) : undefined,
+        maxAttempts: attributes?.maxAttempts?.StringValue ? parseInt(attributes.maxAttempts.StringValue) : undefined,
+        backoff: attributes?.backoff?.StringValue ? JSON.parse(attributes.backoff.StringValue) : undefined,
+        serializer: attributes?.serializer?.StringValue,
+        compression: attributes?.compression?.StringValue,
+        encryptionKeyId: attributes?.encryptionKeyId?.StringValue,
+        claimCheck: attributes?.claimCheck?.StringValue,
+      };
+
+      messages.push({ id: message.MessageId, payload, meta });
     }
-    const payload = JSON.parse(message.Body);
 
-    const meta: JobMeta = {
-      name: message.MessageAttributes?.name?.StringValue || "",
-      ttr: message.MessageAttributes?.ttr?.StringValue ? parseInt(message.MessageAttributes.ttr.StringValue) : undefined,
-      priority: message.MessageAttributes?.priority?.StringValue ? parseInt(message.MessageAttributes.priority.StringValue) : undefined,
-      receiptHandle: message.ReceiptHandle,
-    };
+    const withTtr = messages.filter(({ meta }) => meta.ttr);
+    if (withTtr.length === 0) {
+      return messages;
+    }
 
-    if (meta.ttr) {
-      const visibilityCommand = new ChangeMessageVisibilityCommand({
-        QueueUrl: this.queueUrl,
-        ReceiptHandle: message.ReceiptHandle,
+    const visibilityCommand = new ChangeMessageVisibilityBatchCommand({
+      QueueUrl: this.queueUrl,
+      Entries: withTtr.map(({ meta }, index) => ({
+        Id: String(index),
+        ReceiptHandle: meta.receiptHandle,
         VisibilityTimeout: meta.ttr,
-      });
-
-      await this.client.send(visibilityCommand);
-    }
+      })),
+    });
+    const { Failed = [] } = await this.client.send(visibilityCommand);
 
-    return {
-      id: message.MessageId,
-      payload,
-      meta,
-    };
+    // Messages keeping the queue's visibility timeout could be received
+    // again before their TTR is over, leave them to be redelivered
+    const failed = new Set(Failed.map((entry) => withTtr[Number(entry.Id)]));
+    return messages.filter((message) => !failed.has(message));
   }
 
   protected async completeJob(message: QueueMessage): Promise<void> {
@@ -154,15 +296,16 @@ export class SqsQueue<TJobMap = Record<string, any>> extends Queue<
     message: QueueMessage,
     error: unknown
   ): Promise<void> {
-    if (this.#onFailure === "leaveInQueue") {
+    // Jobs forwarded to a dead-letter queue are always removed from this one
+    if (this.#onFailure === "leaveInQueue" || this.deadLetter) {
       if (!message.meta.receiptHandle) {
         throw new Error(
           "Cannot fail SQS message: receiptHandle is missing from metadata"
         );
       }
 
-      // For SQS, we delete failed messages too since SQS doesn't track failure states
-      // Future enhancement could send to a dead letter queue
+      // SQS doesn't track failure states, so failed messages are deleted.
+      // Configure `deadLetter` on the queue to keep them.
       const deleteCommand = new DeleteMessageCommand({
         QueueUrl: this.queueUrl,
         ReceiptHandle: message.meta.receiptHandle,
@@ -172,6 +315,78 @@ export class SqsQueue<TJobMap = Record<string, any>> extends Queue<
     }
   }
 
+  protected override async retryJob(
+    message: QueueMessage,
+    delaySeconds: number
+  ): Promise<void> {
+    if (!message.meta.receiptHandle) {
+      throw new Error(
+        "Cannot retry SQS message: receiptHandle is missing from metadata"
+      );
+    }
+
+    // Keep the message in the queue and make it visible again after the delay.
+    // SQS caps the visibility timeout at 12 hours.
+    const visibilityCommand = new ChangeMessageVisibilityCommand({
+      QueueUrl: this.queueUrl,
+      ReceiptHandle: message.meta.receiptHandle,
+      VisibilityTimeout: Math.min(43200, Math.ceil(delaySeconds)),
+    });
+
+    await this.client.send(visibilityCommand);
+  }
+
+  protected override async extendJob(
+    message: QueueMessage,
+    seconds: number
+  ): Promise<void> {
+    if (!message.meta.receiptHandle) {
+      throw new Error(
+        "Cannot extend SQS message: receiptHandle is missing from metadata"
+      );
+    }
+
+    // The new visibility timeout counts from now, capped at 12 hours
+    const visibilityCommand = new ChangeMessageVisibilityCommand({
+      QueueUrl: this.queueUrl,
+      ReceiptHandle: message.meta.receiptHandle,
+      VisibilityTimeout: Math.min(43200, Math.ceil(seconds)),
+    });
+
+    await this.client.send(visibilityCommand);
+  }
+
+  /**
+   * Sends a delayed copy of the message and deletes the original, since SQS
+   * counts every delivery and can't change the attributes of a message. The
+   * copy records the attempts used before this delivery, which doesn't count.
+   * Delays are capped at SQS's 15 minutes, jobs still over their limit then
+   * are deferred again.
+   *
+   * FIFO queues only accept delays set on the queue, so their messages are
+   * hidden again instead, and deferred deliveries count as attempts.
+   */
+  protected override async deferJob(
+    message: QueueMessage,
+    delaySeconds: number
+  ): Promise<void> {
+    if (this.isFifo) {
+      await this.retryJob(message, delaySeconds);
+      return;
+    }
+
+    const command = new SendMessageCommand({
+      QueueUrl: this.queueUrl,
+      ...this.toMessage(
+        this.storedPayload(message),
+        { ...message.meta, delaySeconds: Math.min(900, Math.ceil(delaySeconds)) },
+        (message.meta.attempt ?? 1) - 1
+      ),
+    });
+    await this.client.send(command);
+    await this.completeJob(message);
+  }
+
   async status(id: string): Promise<JobStatus> {
     throw new Error("SQS does not support status");
   }
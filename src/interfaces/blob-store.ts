@@ -0,0 +1,29 @@
+/**
+ * Storage for payloads too large to go through the queue, see
+ * `QueueOptions.claimCheck`. Keys are generated by the queue.
+ */
+export interface BlobStore {
+  put(key: string, data: string): Promise<void>;
+  /** Rejects when the blob doesn't exist */
+  get(key: string): Promise<string>;
+  /** Resolves when the blob doesn't exist */
+  delete(key: string): Promise<void>;
+  /** Keeps the blob readable until `at`, then lets `prune` delete it */
+  expire(key: string, at: Date): Promise<void>;
+  /** Deletes blobs whose expiry has passed */
+  prune(): Promise<void>;
+}
+
+export interface ClaimCheckOptions {
+  store: BlobStore;
+  /**
+   * Payloads whose serialized, and possibly compressed, size reaches this
+   * many bytes are offloaded to the store. Defaults to 65536 (64 KiB).
+   */
+  thresholdBytes?: number;
+  /**
+   * How long, in seconds, the blobs of failed and cancelled jobs are kept,
+   * e.g. to inspect dead-lettered jobs. Defaults to 604800 (7 days).
+   */
+  deadLetterRetentionSeconds?: number;
+}
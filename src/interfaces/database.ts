@@ -1,12 +1,95 @@
-import type { JobStatus, JobMeta } from './job.ts';
+import type { JobStatus, JobMeta, JobProgress, JobResult, PushResult, JobInfo, JobFilter, JobCounts, FinishedJobStatus } from './job.ts';
 
 export interface DatabaseAdapter {
+  /**
+   * Optional: set when `insertJob` honours `meta.deduplicationId`, returning the
+   * ID of the job holding it while that job is queued (waiting, delayed or
+   * waiting-children, whatever its attempt) or was added less than
+   * `meta.deduplicationSeconds` ago
+   */
+  readonly supportsDeduplication?: boolean;
+  /**
+   * Stores a new job. `payload` is a string when it was serialized other than
+   * as JSON, compressed, encrypted or offloaded, and `meta.serializer`,
+   * `meta.compression`, `meta.encryptionKeyId` and `meta.claimCheck` must be
+   * returned with the reserved job
+   */
   insertJob(payload: unknown, meta: JobMeta): Promise<string>;
+  /**
+   * Optional: insert many jobs with one batch write, for `addJobs()`.
+   * Returns the ID, or the error, of every job in input order
+   */
+  insertJobs?(jobs: Array<{ payload: unknown; meta: JobMeta }>): Promise<PushResult[]>;
+  /**
+   * Optional: put reserved jobs whose TTR expired back in the queue, returning
+   * them. DbQueue calls it before reserving jobs, so `reserveJob` needn't
+   * recover jobs itself when this is implemented
+   */
+  recoverStalledJobs?(): Promise<Array<{ id: string; name: string }>>;
   reserveJob(timeout: number): Promise<QueueJobRecord | null>;
-  completeJob(id: string): Promise<void>;
-  releaseJob(id: string): Promise<void>;
+  /**
+   * Optional: reserve up to `limit` jobs in one round-trip, in the order
+   * `reserveJob` would return them
+   */
+  reserveJobs?(timeout: number, limit: number): Promise<QueueJobRecord[]>;
+  /** Marks a job as done, storing the handler's return value when given */
+  completeJob(id: string, result?: unknown): Promise<void>;
+  /**
+   * Returns a reserved job to the queue, available again after `delaySeconds`.
+   * `countAttempt` is false when the job was put back without running (default: true)
+   */
+  releaseJob(id: string, delaySeconds?: number, countAttempt?: boolean): Promise<void>;
   failJob(id: string, error: string): Promise<void>;
+  /** Optional: move the expiry of a reserved job to `seconds` from now */
+  extendJob?(id: string, seconds: number): Promise<void>;
   getJobStatus(id: string): Promise<JobStatus | null>;
+  /** Optional: store the progress reported by a running job */
+  updateProgress?(id: string, progress: JobProgress): Promise<void>;
+  /** Optional: read the last progress reported by a job */
+  getProgress?(id: string): Promise<JobProgress | null>;
+  /**
+   * Optional: remove a waiting or delayed job, or mark a reserved job as cancelled.
+   * Returns 'cancelled', the status of an already finished job, or null if not found
+   */
+  cancelJob?(id: string): Promise<JobStatus | null>;
+  /**
+   * Optional: read the results of a parent job's completed children, keyed by child ID.
+   * Adapters implementing it must store `meta.parentId`, keep jobs with a
+   * `meta.childCount` in the 'waiting-children' status until that many children
+   * completed, and fail the parent when a child fails or is cancelled
+   */
+  getChildrenResults?(parentId: string): Promise<Record<string, unknown>>;
+  /** Optional: read the stored outcome of a finished job */
+  getJobResult?(id: string): Promise<JobResult | null>;
+  /** Optional: remove stored results of jobs finished before `before` */
+  pruneResults?(before: Date): Promise<void>;
+  /**
+   * Optional: take a slot from a rate limit shared by all workers using the database.
+   * Returns 0 when a slot was taken, otherwise the milliseconds until one frees up.
+   * Without it, rate limits only hold per process
+   */
+  consumeRateLimit?(key: string, max: number, durationMs: number): Promise<number>;
+  /**
+   * Optional: count the stored jobs per status, enabling the admin methods
+   * of DbQueue. Adapters implementing it implement the ones below too
+   */
+  countJobs?(): Promise<Partial<JobCounts>>;
+  /** Optional: list stored jobs matching the filter, oldest first */
+  listJobs?(filter: JobFilter & { limit: number }): Promise<JobInfo[]>;
+  /** Optional: read a stored job, or null if not found */
+  getJob?(id: string): Promise<JobInfo | null>;
+  /** Optional: put a failed job back in the queue with its attempts reset */
+  requeueJob?(id: string): Promise<boolean>;
+  /** Optional: delete a job whatever its status, returning false if not found */
+  deleteJob?(id: string): Promise<boolean>;
+  /** Optional: delete jobs with the given status that finished before `before` */
+  purgeJobs?(status: FinishedJobStatus, before: Date): Promise<number>;
+  /**
+   * Optional: move the jobs stored before queues were named, kept under the
+   * queue name "default", to this queue when their job name is in `names`.
+   * Returns the number of moved jobs
+   */
+  claimLegacyJobs?(names: string[]): Promise<number>;
 }
 
 export interface QueueJobRecord {
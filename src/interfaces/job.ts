@@ -1,6 +1,6 @@
 import type { Queue } from "../core/queue.ts";
 
-export type JobStatus = 'waiting' | 'delayed' | 'reserved' | 'done' | 'failed';
+export type JobStatus = 'waiting' | 'waiting-children' | 'delayed' | 'reserved' | 'done' | 'failed' | 'cancelled';
 
 export interface JobMeta {
   /** Job name */
@@ -19,6 +19,73 @@ export interface JobMeta {
   doneAt?: Date;
   /** SQS receipt handle */
   receiptHandle?: string;  // For SQS
+  /** Attempt number of the current execution, starting at 1 */
+  attempt?: number;
+  /** Maximum number of attempts before the job fails permanently */
+  maxAttempts?: number;
+  /** Backoff policy applied between attempts */
+  backoff?: BackoffOptions;
+  /** ID of the parent job waiting for this one, see `Queue.addFlow()` */
+  parentId?: string;
+  /** Number of child jobs that must complete before this job runs */
+  childCount?: number;
+  /** Key identifying duplicates of this job, see `BaseJobOptions.deduplicationId` */
+  deduplicationId?: string;
+  /** Seconds after it was added during which the job keeps blocking duplicates */
+  deduplicationSeconds?: number;
+  /** Name of the serializer that encoded the stored payload, unset for plain JSON */
+  serializer?: string;
+  /** Compression algorithm of the stored payload, unset when uncompressed */
+  compression?: string;
+  /** ID of the key that encrypted the stored payload, unset when unencrypted */
+  encryptionKeyId?: string;
+  /** Key of the payload in the claim-check blob store, the stored payload is then the key too */
+  claimCheck?: string;
+}
+
+/**
+ * Serializable backoff policy, stored together with the job.
+ *
+ * - `fixed`: always wait `delaySeconds`
+ * - `exponential`: wait `delaySeconds * 2^(attempt - 1)`, capped by `maxDelaySeconds`.
+ *   With `jitter` the delay is randomized between half and the full value.
+ */
+export type BackoffOptions =
+  | { type: 'fixed'; delaySeconds: number }
+  | { type: 'exponential'; delaySeconds: number; maxDelaySeconds?: number; jitter?: boolean };
+
+/**
+ * Custom backoff function returning the number of seconds to wait before
+ * retrying. `attempt` is the attempt that just failed, starting at 1.
+ */
+export type BackoffFunction = (attempt: number, error: unknown) => number;
+
+export type BackoffPolicy = BackoffOptions | BackoffFunction;
+
+/**
+ * Retry configuration used at the queue level and per job name.
+ */
+export interface RetryOptions {
+  /** Maximum number of attempts, including the first one (default: 1) */
+  maxAttempts?: number;
+  /** Delay between attempts (default: retry immediately) */
+  backoff?: BackoffPolicy;
+}
+
+/**
+ * Limits how many jobs of one name start per time window. Jobs over the limit
+ * stay queued until the window has room again.
+ */
+export interface RateLimitOptions {
+  /** Maximum number of jobs started per window */
+  max: number;
+  /** Length of the window in seconds */
+  durationSeconds: number;
+  /**
+   * Applies the limit separately per key, e.g. `(payload) => payload.tenantId`.
+   * Jobs without a key share one limit.
+   */
+  key?: (payload: any) => string | number | undefined;
 }
 
 /**
@@ -35,12 +102,91 @@ export interface JobContext<T> {
   pushedAt?: Date;
   /** Job reserved at */
   reservedAt?: Date;
+  /**
+   * Aborted when the job's TTR elapses. Pass it to fetch, database drivers, etc.
+   * to cancel work cleanly; the job fails with a `QueueErrorTimeout` either way.
+   */
+  signal: AbortSignal;
+  /**
+   * Reports the job's progress, e.g. a percentage or a status object.
+   * The value is persisted by the driver and emitted as a `progress` event.
+   */
+  updateProgress(progress: JobProgress): Promise<void>;
+  /**
+   * Heartbeat for long-running jobs: extends the job's reservation so it
+   * expires `seconds` (default: the job's TTR) from now, and restarts the
+   * TTR countdown of `signal` accordingly. Throws a `QueueError` named
+   * "QueueErrorExtendNotSupported" on drivers that can't extend reservations.
+   */
+  extend(seconds?: number): Promise<void>;
+  /**
+   * Returns the results of the job's children, keyed by child job ID.
+   * Only jobs added as a parent with `addFlow()` have children.
+   */
+  getChildrenResults<TResult = unknown>(): Promise<Record<string, TResult>>;
 }
 
+/**
+ * Stored outcome of a finished job.
+ */
+export type JobResult<TResult = unknown> =
+  | { status: 'done'; result: TResult }
+  | { status: 'failed'; error: string }
+  | { status: 'cancelled' };
+
+/**
+ * A stored job as seen by admin tools, see `Queue.listJobs()`.
+ */
+export interface JobInfo {
+  id: string;
+  /** Job name, unknown for finished jobs of drivers that only keep their result */
+  name?: string;
+  status: JobStatus;
+  /** Payload as stored, unset once the driver dropped it */
+  payload?: unknown;
+  /** Stored job meta, unset once the driver dropped it */
+  meta?: JobMeta;
+  /** Number of attempts started so far, unknown when the driver dropped it */
+  attempts?: number;
+  /** Error of a failed job */
+  error?: string;
+  pushedAt?: Date;
+  /** Set once the job is done, failed or cancelled */
+  finishedAt?: Date;
+}
+
+/**
+ * Selects the jobs returned by `Queue.listJobs()`.
+ */
+export interface JobFilter {
+  status?: JobStatus;
+  /** Job name */
+  name?: string;
+  /** Maximum number of jobs returned, oldest first (default: 100) */
+  limit?: number;
+  /** Only jobs added after the one with this ID, to read the next page */
+  after?: string;
+}
+
+/**
+ * Number of stored jobs per status.
+ */
+export type JobCounts = Record<JobStatus, number>;
+
+/**
+ * Statuses of jobs that won't run again unless retried.
+ */
+export type FinishedJobStatus = 'done' | 'failed' | 'cancelled';
+
+/**
+ * Progress reported by a job handler: a number (e.g. a percentage) or any JSON object.
+ */
+export type JobProgress = number | object;
+
 /**
  * Type for a single job handler function.
  */
-export type JobHandler<T, Q = Queue> = (job: JobContext<T>, queue: Queue) => Promise<void> | void;
+export type JobHandler<T, Q = Queue> = (job: JobContext<T>, queue: Queue) => Promise<unknown> | unknown;
 
 /**
  * Type mapping all job types to their corresponding handlers.
@@ -58,17 +204,147 @@ export interface QueueMessage {
   meta: JobMeta;
 }
 
-export type QueueEvent = 
-  | { type: 'beforePush'; name: string; payload: any; meta: JobMeta }
-  | { type: 'afterPush'; id: string; name: string; payload: any; meta: JobMeta }
-  | { type: 'beforeExec'; id: string; name: string; payload: any; meta: JobMeta }
-  | { type: 'afterExec'; id: string; name: string; payload: any; meta: JobMeta; result: any }
-  | { type: 'afterError'; id: string; name: string; payload: any; meta: JobMeta; error: unknown };
+/**
+ * Payload of a job pushed to a dead-letter queue. The job keeps its original
+ * name, and the original payload is wrapped together with the failure details.
+ */
+export interface DeadLetterPayload<TPayload = unknown> {
+  /** Original job payload */
+  payload: TPayload;
+  /** Original job meta */
+  meta: JobMeta;
+  /** Job ID in the source queue */
+  originalId: string;
+  /** Name of the source queue */
+  queue: string;
+  /** Last error thrown by the handler */
+  error: { name: string; message: string; stack?: string };
+  /** Number of attempts made before giving up */
+  attempts: number;
+  /** ISO timestamp of the final failure */
+  failedAt: string;
+}
+
+/**
+ * An event about a job, one variant per job name so that checking `name`
+ * narrows `payload` to that job's payload type.
+ */
+export type JobEvent<TJobMap, TType extends string, TFields = {}> = {
+  [K in keyof TJobMap & string]: {
+    type: TType;
+    id: string;
+    name: K;
+    payload: TJobMap[K];
+    meta: JobMeta;
+  } & TFields;
+}[keyof TJobMap & string];
+
+/**
+ * Events emitted by a queue, keyed by event name.
+ */
+export interface QueueEventMap<TJobMap = Record<string, any>> {
+  /** Before a job is pushed, it has no ID yet */
+  beforePush: {
+    [K in keyof TJobMap & string]: {
+      type: 'beforePush';
+      name: K;
+      payload: TJobMap[K];
+      meta: JobMeta;
+    };
+  }[keyof TJobMap & string];
+  /** After a job was pushed */
+  afterPush: JobEvent<TJobMap, 'afterPush'>;
+  /** Before a reserved job's handler runs */
+  beforeExec: JobEvent<TJobMap, 'beforeExec'>;
+  /** After a handler returned */
+  afterExec: JobEvent<TJobMap, 'afterExec', { result: any }>;
+  /** After a handler threw or exceeded its TTR */
+  afterError: JobEvent<TJobMap, 'afterError', { error: unknown }>;
+  /** When a handler reports its progress */
+  progress: JobEvent<TJobMap, 'progress', { progress: JobProgress }>;
+  /** After a job was marked as done in the driver */
+  afterComplete: JobEvent<TJobMap, 'afterComplete', { result: any }>;
+  /** After a job failed for good, once its attempts are used up */
+  afterFail: JobEvent<TJobMap, 'afterFail', { error: unknown }>;
+  /** After a failed job was scheduled for another attempt */
+  retrying: JobEvent<
+    TJobMap,
+    'retrying',
+    { error: unknown; attempt: number; delaySeconds: number }
+  >;
+  /**
+   * When a reserved job whose TTR expired, e.g. because its worker crashed,
+   * was put back in the queue. Not every driver knows the job's name.
+   */
+  stalled: { type: 'stalled'; id: string; name?: keyof TJobMap & string };
+  /** When a delayed job became available. Not every driver knows the job's name. */
+  delayedPromoted: { type: 'delayedPromoted'; id: string; name?: keyof TJobMap & string };
+  /** When `run()` has no job in flight and found no job to reserve */
+  idle: { type: 'idle' };
+  /** When `run()` found no job to reserve after reserving jobs before */
+  drained: { type: 'drained' };
+}
+
+export type QueueEvent<TJobMap = Record<string, any>> =
+  QueueEventMap<TJobMap>[keyof QueueEventMap<TJobMap>];
 
 // Base options supported by all drivers (without payload)
 export interface BaseJobOptions {
   /** Time to run - number of seconds to run the job */ 
   ttr?: number;
+  /** Maximum number of attempts, overrides the queue and job name settings */
+  maxAttempts?: number;
+  /** Backoff policy between attempts, overrides the queue and job name settings */
+  backoff?: BackoffOptions;
+  /**
+   * Deduplication key. While a job with the same key is queued (waiting,
+   * delayed or waiting to be retried), or was added less than
+   * `deduplicationSeconds` ago, `addJob` returns the existing job's ID instead
+   * of adding a new job.
+   */
+  deduplicationId?: string;
+  /** How long the key keeps blocking duplicates after the job was added (default: 0) */
+  deduplicationSeconds?: number;
+}
+
+/**
+ * A job and the child jobs that must complete before it runs, for `addFlow()`.
+ * Children can have children of their own.
+ */
+export type FlowJob<TJobMap, TJobRequest> = {
+  [K in keyof TJobMap & string]: {
+    name: K;
+    children?: FlowJob<TJobMap, TJobRequest>[];
+  } & TJobRequest & { payload: TJobMap[K] };
+}[keyof TJobMap & string];
+
+/**
+ * A job for `addJobs()`: its name, payload and `addJob` options.
+ */
+export type BulkJob<TJobMap, TJobRequest> = {
+  [K in keyof TJobMap & string]: { name: K } & TJobRequest & { payload: TJobMap[K] };
+}[keyof TJobMap & string];
+
+/**
+ * Outcome of one job passed to `addJobs()`.
+ */
+export type AddJobResult =
+  | { status: 'added'; id: string }
+  | { status: 'failed'; error: Error };
+
+/**
+ * Outcome of pushing one message of a batch to a driver: the job ID, or the
+ * error that kept this message from being added.
+ */
+export type PushResult = { id: string } | { error: unknown };
+
+/**
+ * IDs of the jobs added by `addFlow()`, with the same shape as the flow.
+ */
+export interface FlowNode {
+  id: string;
+  name: string;
+  children: FlowNode[];
 }
 
 // Feature interfaces for composable job options
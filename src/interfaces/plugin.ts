@@ -1,5 +1,8 @@
 import type { Queue } from '../core/queue.ts';
-import type { QueueMessage } from './job.ts';
+import type { QueueMessage, BackoffPolicy, RetryOptions, RateLimitOptions } from './job.ts';
+import type { JobSchemas } from './schema.ts';
+import type { CompressionOptions, EncryptionOptions, Serializer } from './serializer.ts';
+import type { ClaimCheckOptions } from './blob-store.ts';
 
 /**
  * Plugin interface for extending queue functionality.
@@ -17,10 +20,16 @@ export interface QueuePlugin {
    * Use this hook to initialize resources, connections, or state.
    * Return a cleanup function that will be called on shutdown.
    * 
+   * Plugins shared through a `QueueManager` are initialized once for all of
+   * its queues, with the first one as `queue` and all of them as `queues`.
+   * 
    * @param ctx - Context containing the queue instance (queue.name is always available)
    * @returns Optional cleanup function
    */
-  init?(ctx: { queue: Queue }): Promise<(() => Promise<void>) | void>;
+  init?(ctx: {
+    queue: Queue;
+    queues?: readonly Queue[];
+  }): Promise<(() => Promise<void>) | void>;
 
   /**
    * Called before each poll/reserve attempt.
@@ -74,6 +83,8 @@ export interface QueuePlugin {
 export interface QueueOptions {
   /**
    * Required name for the queue (used in plugin context and logging).
+   * The SQLite and Mongoose drivers store it with every job, so queues with
+   * different names can share one table or collection.
    */
   name: string;
   
@@ -81,6 +92,139 @@ export interface QueueOptions {
    * Default time-to-run for jobs in seconds.
    */
   ttrDefault?: number;
+
+  /**
+   * Maximum number of jobs processed at the same time by `run()`.
+   * Useful for I/O bound handlers. Defaults to 1 (sequential processing).
+   */
+  concurrency?: number;
+
+  /**
+   * Maximum number of jobs reserved per poll by `run()`. Jobs reserved beyond
+   * the free `concurrency` slots wait in a local buffer, and their TTR runs
+   * from the moment they were reserved. SQS reserves up to 10 per poll, the
+   * SQLite, Mongoose and Redis drivers any number, other drivers one.
+   * Defaults to 1.
+   */
+  batchSize?: number;
+
+  /**
+   * Maximum number of attempts for every job, including the first one.
+   * Failed jobs go back to the delayed state until their attempts are used up.
+   * Defaults to 1 (no retries).
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay between attempts. Defaults to retrying immediately.
+   */
+  backoff?: BackoffPolicy;
+
+  /**
+   * Per job name retry settings, overriding `maxAttempts` and `backoff`.
+   */
+  jobOptions?: Record<string, RetryOptions>;
+
+  /**
+   * Per job name rate limits, checked when a job is reserved. Jobs over the
+   * limit are put back without using an attempt. Redis and DB drivers share
+   * limits across all workers, the other drivers apply them per process.
+   *
+   * @example
+   * ```typescript
+   * rateLimits: {
+   *   'send-email': { max: 10, durationSeconds: 1 },
+   *   'sync-tenant': { max: 100, durationSeconds: 60, key: (payload) => payload.tenantId },
+   * }
+   * ```
+   */
+  rateLimits?: Record<string, RateLimitOptions>;
+
+  /**
+   * Per job name payload schemas, from any Standard Schema library (zod,
+   * valibot, arktype...). `addJob` rejects invalid payloads with a
+   * `QueueErrorValidation`, and workers validate again before calling the
+   * handler, failing invalid jobs without retrying them. Handlers and pushed
+   * jobs get the payload as output by the schema.
+   *
+   * @example
+   * ```typescript
+   * schemas: {
+   *   'send-email': z.object({ to: z.string().email(), subject: z.string() }),
+   * }
+   * ```
+   */
+  schemas?: JobSchemas;
+
+  /**
+   * How payloads are stored. Defaults to JSON, which loses `Date`, `Map`,
+   * `BigInt` and binary values; `typedJsonSerializer` and `msgpackSerializer`
+   * keep them. The serializer is recorded with every job, so jobs stored with
+   * a built-in serializer still decode after this option changes.
+   *
+   * @example
+   * ```typescript
+   * import { typedJsonSerializer } from 'adapter-queue/serializers/json';
+   *
+   * serializer: typedJsonSerializer,
+   * ```
+   */
+  serializer?: Serializer;
+
+  /**
+   * Compresses serialized payloads above a size threshold with gzip or
+   * brotli, e.g. to stay below the 256 KB SQS message limit. The algorithm is
+   * recorded with every compressed job, so compressed and uncompressed jobs
+   * share a queue and any worker decompresses them.
+   *
+   * @example
+   * ```typescript
+   * compression: { algorithm: 'brotli', thresholdBytes: 4096 },
+   * ```
+   */
+  compression?: CompressionOptions;
+
+  /**
+   * Encrypts payloads at rest with AES-256-GCM, after serialization and
+   * compression. Jobs record the ID of their key, so rotating `currentKeyId`
+   * keeps older jobs decryptable as long as their key stays in `keys`.
+   *
+   * @example
+   * ```typescript
+   * encryption: {
+   *   keys: { '2024-06': Buffer.from(process.env.QUEUE_KEY_2024_06!, 'base64') },
+   *   currentKeyId: '2024-06',
+   * },
+   * ```
+   */
+  encryption?: EncryptionOptions;
+
+  /**
+   * Offloads payloads above a size threshold to a blob store, so only a
+   * reference goes through the queue, e.g. for documents larger than the
+   * SQS message limit. Payloads are fetched again before the handler runs,
+   * and deleted once the job completes, or after `deadLetterRetentionSeconds`
+   * when it fails.
+   *
+   * @example
+   * ```typescript
+   * claimCheck: { store: new FileBlobStore({ path: '/mnt/shared/blobs' }), thresholdBytes: 128 * 1024 },
+   * ```
+   */
+  claimCheck?: ClaimCheckOptions;
+
+  /**
+   * Queue that receives jobs which failed permanently, possibly on a different
+   * driver. Jobs keep their name and their payload becomes a `DeadLetterPayload`
+   * holding the original payload, meta, last error and attempt count.
+   */
+  deadLetter?: Queue<any, any>;
+
+  /**
+   * How long, in seconds, drivers keep the result or error of finished jobs
+   * for `getJobResult()` and `waitUntilFinished()`. Defaults to 86400 (1 day).
+   */
+  resultRetentionSeconds?: number;
   
   /**
    * Array of plugins to use with this queue.
@@ -88,4 +232,28 @@ export interface QueueOptions {
    * and their hooks are called during the job lifecycle.
    */
   plugins?: QueuePlugin[];
-}
\ No newline at end of file
+}
+
+/**
+ * Options accepted by `Queue.run()` for a single worker run.
+ */
+export interface RunOptions {
+  /**
+   * Maximum number of jobs processed at the same time during this run.
+   * Overrides the queue's `concurrency` option.
+   */
+  concurrency?: number;
+
+  /**
+   * Maximum number of jobs reserved per poll during this run.
+   * Overrides the queue's `batchSize` option.
+   */
+  batchSize?: number;
+
+  /**
+   * Signal that gracefully stops this run when aborted. No new jobs are
+   * reserved, in-flight jobs are awaited and plugins are disposed before
+   * `run()` resolves.
+   */
+  signal?: AbortSignal;
+}
@@ -0,0 +1,45 @@
+/**
+ * When a scheduled job runs: a cron expression or a fixed interval.
+ */
+export type ScheduleDefinition =
+  | {
+      /** Cron expression, e.g. `0 2 * * *` for every night at 2:00 */
+      cron: string;
+      /** IANA time zone the expression is evaluated in (default: UTC) */
+      timezone?: string;
+    }
+  | {
+      /** Interval between runs in seconds */
+      everySeconds: number;
+    };
+
+/**
+ * Persisted state of a schedule, shared by all scheduler instances.
+ */
+export interface ScheduleState {
+  id: string;
+  /** Identifies the schedule definition, state is reset when it changes */
+  signature: string;
+  nextRunAt: Date;
+  lastRunAt: Date | null;
+}
+
+/**
+ * Storage for schedule state. Implementations must make `claim` atomic, it is
+ * what keeps several scheduler instances from adding the same run twice.
+ */
+export interface ScheduleStore {
+  /**
+   * Creates the state of a schedule unless it already exists with the same signature.
+   * Returns the stored state.
+   */
+  register(id: string, signature: string, nextRunAt: Date): Promise<ScheduleState>;
+  get(id: string): Promise<ScheduleState | null>;
+  /**
+   * Moves a schedule from the run at `expected` to the run at `next`.
+   * Returns false when the stored next run is no longer `expected`, because
+   * another instance claimed the run.
+   */
+  claim(id: string, expected: Date, next: Date, runAt: Date): Promise<boolean>;
+  remove(id: string): Promise<void>;
+}
@@ -0,0 +1,91 @@
+/**
+ * The Standard Schema interface (https://standardschema.dev), implemented by
+ * zod, valibot, arktype and others. Copied here, as the spec recommends, so
+ * no schema library is a dependency.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": StandardSchemaV1.Props<Input, Output>;
+}
+
+export declare namespace StandardSchemaV1 {
+  export interface Props<Input = unknown, Output = Input> {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => Result<Output> | Promise<Result<Output>>;
+    readonly types?: Types<Input, Output> | undefined;
+  }
+
+  export type Result<Output> = SuccessResult<Output> | FailureResult;
+
+  export interface SuccessResult<Output> {
+    readonly value: Output;
+    readonly issues?: undefined;
+  }
+
+  export interface FailureResult {
+    readonly issues: ReadonlyArray<Issue>;
+  }
+
+  export interface Issue {
+    readonly message: string;
+    readonly path?: ReadonlyArray<PropertyKey | PathSegment> | undefined;
+  }
+
+  export interface PathSegment {
+    readonly key: PropertyKey;
+  }
+
+  export interface Types<Input = unknown, Output = Input> {
+    readonly input: Input;
+    readonly output: Output;
+  }
+
+  export type InferInput<Schema extends StandardSchemaV1> = NonNullable<
+    Schema["~standard"]["types"]
+  >["input"];
+
+  export type InferOutput<Schema extends StandardSchemaV1> = NonNullable<
+    Schema["~standard"]["types"]
+  >["output"];
+}
+
+/**
+ * The Standard JSON Schema extension, implemented by schema libraries that
+ * can describe themselves as JSON Schema.
+ */
+export interface StandardJSONSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": StandardSchemaV1.Props<Input, Output> & {
+    readonly jsonSchema: {
+      readonly input: (options: JSONSchemaOptions) => Record<string, unknown>;
+      readonly output: (options: JSONSchemaOptions) => Record<string, unknown>;
+    };
+  };
+}
+
+export interface JSONSchemaOptions {
+  /** JSON Schema dialect, e.g. "draft-2020-12" or "draft-07" */
+  readonly target: string;
+  readonly libraryOptions?: Record<string, unknown>;
+}
+
+/**
+ * Payload schemas keyed by job name.
+ */
+export type JobSchemas = Record<string, StandardSchemaV1>;
+
+/**
+ * Job map inferred from payload schemas, for use as a queue's `TJobMap`.
+ *
+ * @example
+ * ```typescript
+ * const schemas = {
+ *   'send-email': z.object({ to: z.string().email(), subject: z.string() }),
+ * };
+ * const queue = new InMemoryQueue<JobMapFromSchemas<typeof schemas>>({ name: 'emails', schemas });
+ * ```
+ */
+export type JobMapFromSchemas<TSchemas extends JobSchemas> = {
+  [K in keyof TSchemas]: StandardSchemaV1.InferOutput<TSchemas[K]>;
+};
@@ -0,0 +1,38 @@
+/**
+ * Turns job payloads into the string stored by the driver and back.
+ * Binary formats encode their output as base64.
+ */
+export interface Serializer {
+  /**
+   * Recorded with every job, so jobs still decode after the queue's
+   * serializer changes. Must be unique.
+   */
+  readonly name: string;
+  serialize(payload: unknown): string;
+  deserialize(data: string): unknown;
+}
+
+/**
+ * Compression algorithms built on `node:zlib`.
+ */
+export type CompressionAlgorithm = "gzip" | "brotli";
+
+export interface CompressionOptions {
+  /** Defaults to "gzip" */
+  algorithm?: CompressionAlgorithm;
+  /**
+   * Serialized payloads smaller than this many bytes are stored uncompressed.
+   * Defaults to 1024.
+   */
+  thresholdBytes?: number;
+}
+
+/**
+ * Keyring for AES-256-GCM payload encryption.
+ */
+export interface EncryptionOptions {
+  /** 32-byte keys by key ID. Keep retired keys until their jobs are gone */
+  keys: Record<string, Uint8Array>;
+  /** ID of the key new jobs are encrypted with */
+  currentKeyId: string;
+}
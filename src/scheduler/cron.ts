@@ -0,0 +1,298 @@
+import { QueueError } from "../core/queue.ts";
+
+/**
+ * Parsed cron expression: the set of allowed values for each field.
+ */
+export interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether the day of month field was restricted (not `*`) */
+  restrictedDayOfMonth: boolean;
+  /** Whether the day of week field was restricted (not `*`) */
+  restrictedDayOfWeek: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+/**
+ * Parses a standard 5 field cron expression (minute, hour, day of month,
+ * month, day of week). Supports `*`, lists, ranges, steps, month and day
+ * names, and the `@yearly`, `@monthly`, `@weekly`, `@daily` and `@hourly` macros.
+ *
+ * @param expression - The cron expression, e.g. `0 2 * * 1-5`
+ * @returns The parsed expression
+ * @throws QueueError named "QueueErrorInvalidCron" when the expression is invalid
+ */
+export function parseCron(expression: string): CronExpression {
+  const source = MACROS[expression.trim().toLowerCase()] ?? expression;
+  const fields = source.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw invalidCron(expression, "expected 5 fields");
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields as [
+    string,
+    string,
+    string,
+    string,
+    string
+  ];
+  const daysOfWeek = parseField(expression, dayOfWeek, 0, 7, DAY_NAMES);
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes: parseField(expression, minute, 0, 59),
+    hours: parseField(expression, hour, 0, 23),
+    daysOfMonth: parseField(expression, dayOfMonth, 1, 31),
+    months: parseField(expression, month, 1, 12, MONTH_NAMES),
+    daysOfWeek,
+    restrictedDayOfMonth: dayOfMonth !== "*",
+    restrictedDayOfWeek: dayOfWeek !== "*",
+  };
+}
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Computes the first time after `after` matching a cron expression, evaluated
+ * in the given IANA time zone. A wall clock time skipped when clocks go
+ * forward runs once, at the end of the skipped period, and one repeated when
+ * clocks go back runs once, at its first occurrence. Expressions running every
+ * hour follow elapsed time instead: they skip the missing times and run in
+ * both occurrences of the repeated ones.
+ *
+ * @param cron - Cron expression, parsed or as a string
+ * @param after - The returned time is strictly later than this one
+ * @param timeZone - IANA time zone such as `Europe/Madrid` (default: UTC)
+ * @returns The next matching time, at the start of its minute
+ */
+export function nextCronRun(
+  cron: CronExpression | string,
+  after: Date,
+  timeZone = "UTC"
+): Date {
+  const expression = typeof cron === "string" ? parseCron(cron) : cron;
+  const clock = new WallClock(getFormatter(timeZone), expression.hours.size === 24);
+
+  // Wall clock times are walked as UTC dates, so day and hour jumps ignore DST
+  const start = Math.floor(after.getTime() / MINUTE) * MINUTE;
+  // Close to a DST change, earlier wall clock times can map to later instants
+  let local = clock.localTime(start) + (clock.changesNear(start) ? -3 * HOUR : MINUTE);
+  // Day mismatches jump a day at a time, so this covers several years
+  const limit = local + 5 * 366 * DAY;
+  let next: { time: number; local: number } | undefined;
+
+  while (local <= limit) {
+    // Wall clock times this much later can't map to an earlier instant
+    if (next && local > next.local + 3 * HOUR) break;
+    const date = new Date(local);
+    const [year, month, day, hour] = [
+      date.getUTCFullYear(),
+      date.getUTCMonth(),
+      date.getUTCDate(),
+      date.getUTCHours(),
+    ];
+
+    if (
+      !expression.months.has(month + 1) ||
+      !matchesDay(expression, { day, weekday: date.getUTCDay() })
+    ) {
+      local = Date.UTC(year, month, day + 1);
+      continue;
+    }
+    if (!expression.hours.has(hour)) {
+      local = Date.UTC(year, month, day, hour + 1);
+      continue;
+    }
+    if (!expression.minutes.has(date.getUTCMinutes())) {
+      local += MINUTE;
+      continue;
+    }
+
+    for (const time of clock.instants(local)) {
+      if (time > after.getTime() && (!next || time < next.time)) {
+        next = { time, local };
+      }
+    }
+    if (next && !clock.changesNear(next.time)) break;
+    local += MINUTE;
+  }
+
+  if (next) return new Date(next.time);
+  throw new QueueError({
+    name: "QueueErrorInvalidCron",
+    message: "Cron expression never matches",
+    cause: undefined,
+  });
+}
+
+/**
+ * Maps between instants and wall clock times of a time zone, both in
+ * milliseconds, wall clock times as if they were UTC.
+ */
+class WallClock {
+  constructor(
+    private readonly formatter: Intl.DateTimeFormat,
+    /** Whether to follow elapsed time rather than run each wall clock time once */
+    private readonly everyHour: boolean
+  ) {}
+
+  localTime(time: number): number {
+    const parts = { year: 0, month: 0, day: 0, hour: 0, minute: 0 };
+    for (const part of this.formatter.formatToParts(time)) {
+      if (part.type in parts) {
+        parts[part.type as keyof typeof parts] = Number(part.value);
+      }
+    }
+    return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  }
+
+  /** Whether the UTC offset changes within 3 hours of the instant */
+  changesNear(time: number): boolean {
+    return this.offset(time - 3 * HOUR) !== this.offset(time + 3 * HOUR);
+  }
+
+  /**
+   * Returns the instants a wall clock time runs at: usually one, none or
+   * both occurrences of a repeated time when following elapsed time.
+   */
+  instants(local: number): number[] {
+    // Time zones change their offset at most once a day
+    const earlier = this.offset(local - DAY);
+    const later = this.offset(local + DAY);
+    const times = [...new Set([local - earlier, local - later])]
+      .filter((time) => this.offset(time) === local - time)
+      .sort((a, b) => a - b);
+
+    if (times.length === 0) {
+      // Skipped when clocks went forward, runs when the skipped period ends
+      return this.everyHour ? [] : [this.changeAt(local - later, local - earlier, later)];
+    }
+    return this.everyHour ? times : times.slice(0, 1);
+  }
+
+  private offset(time: number): number {
+    const minute = Math.floor(time / MINUTE) * MINUTE;
+    return this.localTime(minute) - minute;
+  }
+
+  /**
+   * Finds the first minute between `from` and `to` with the given offset.
+   */
+  private changeAt(from: number, to: number, offset: number): number {
+    while (to - from > MINUTE) {
+      const middle = Math.floor((from + to) / 2 / MINUTE) * MINUTE;
+      if (this.offset(middle) === offset) to = middle;
+      else from = middle;
+    }
+    return to;
+  }
+}
+
+function matchesDay(
+  expression: CronExpression,
+  parts: { day: number; weekday: number }
+): boolean {
+  const dayOfMonth = expression.daysOfMonth.has(parts.day);
+  const dayOfWeek = expression.daysOfWeek.has(parts.weekday);
+
+  // Like standard cron, a job runs when either restricted day field matches
+  if (expression.restrictedDayOfMonth && expression.restrictedDayOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+function parseField(
+  expression: string,
+  field: string,
+  min: number,
+  max: number,
+  names: string[] = []
+): Set<number> {
+  const values = new Set<number>();
+  const toNumber = (value: string): number => {
+    const index = names.indexOf(value.toLowerCase());
+    // Month names start at 1, day names at 0
+    const number = index !== -1 ? index + min : Number(value);
+    if (!Number.isInteger(number) || number < min || number > max) {
+      throw invalidCron(expression, `"${value}" is out of range ${min}-${max}`);
+    }
+    return number;
+  };
+
+  for (const part of field.split(",")) {
+    const [range = "", stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw invalidCron(expression, `invalid step "${stepText}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = min;
+      end = max;
+    } else if (range.includes("-")) {
+      const [from = "", to = ""] = range.split("-");
+      start = toNumber(from);
+      end = toNumber(to);
+    } else {
+      start = toNumber(range);
+      end = stepText === undefined ? start : max;
+    }
+
+    if (start > end) {
+      throw invalidCron(expression, `invalid range "${range}"`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function invalidCron(expression: string, reason: string): QueueError {
+  return new QueueError({
+    name: "QueueErrorInvalidCron",
+    message: `Invalid cron expression "${expression}": ${reason}`,
+    cause: undefined,
+  });
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
@@ -0,0 +1,52 @@
+import type {
+  ScheduleState,
+  ScheduleStore,
+} from "../interfaces/scheduler.ts";
+
+/**
+ * Keeps schedule state in memory. Only suitable for a single process, as
+ * state is lost on restart and not shared with other instances.
+ */
+export class InMemoryScheduleStore implements ScheduleStore {
+  private states = new Map<string, ScheduleState>();
+
+  async register(
+    id: string,
+    signature: string,
+    nextRunAt: Date
+  ): Promise<ScheduleState> {
+    const existing = this.states.get(id);
+    if (existing && existing.signature === signature) {
+      return { ...existing };
+    }
+
+    const state: ScheduleState = { id, signature, nextRunAt, lastRunAt: null };
+    this.states.set(id, state);
+    return { ...state };
+  }
+
+  async get(id: string): Promise<ScheduleState | null> {
+    const state = this.states.get(id);
+    return state ? { ...state } : null;
+  }
+
+  async claim(
+    id: string,
+    expected: Date,
+    next: Date,
+    runAt: Date
+  ): Promise<boolean> {
+    const state = this.states.get(id);
+    if (!state || state.nextRunAt.getTime() !== expected.getTime()) {
+      return false;
+    }
+
+    state.nextRunAt = next;
+    state.lastRunAt = runAt;
+    return true;
+  }
+
+  async remove(id: string): Promise<void> {
+    this.states.delete(id);
+  }
+}
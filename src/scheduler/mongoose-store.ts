@@ -0,0 +1,101 @@
+import { Schema, model, Model } from "mongoose";
+import type {
+  ScheduleState,
+  ScheduleStore,
+} from "../interfaces/scheduler.ts";
+
+// MongoDB document structure for schedule state
+export interface IQueueScheduleDocument {
+  _id: string;
+  signature: string;
+  nextRunAt: Date;
+  lastRunAt: Date | null;
+}
+
+export const QueueScheduleSchema = new Schema<IQueueScheduleDocument>(
+  {
+    _id: { type: String, required: true },
+    signature: { type: String, required: true },
+    nextRunAt: { type: Date, required: true },
+    lastRunAt: { type: Date, default: null },
+  },
+  {
+    collection: "queue_schedules",
+    timestamps: false,
+  }
+);
+
+/**
+ * Keeps schedule state in the `queue_schedules` collection.
+ */
+export class MongooseScheduleStore implements ScheduleStore {
+  private model: Model<IQueueScheduleDocument>;
+
+  constructor(scheduleModel?: Model<IQueueScheduleDocument>) {
+    this.model = scheduleModel ?? createScheduleModel();
+  }
+
+  async register(
+    id: string,
+    signature: string,
+    nextRunAt: Date
+  ): Promise<ScheduleState> {
+    // Insert the state unless it exists, then reset it if the definition changed
+    await this.model.updateOne(
+      { _id: id },
+      { $setOnInsert: { signature, nextRunAt, lastRunAt: null } },
+      { upsert: true, session: undefined }
+    );
+    await this.model.updateOne(
+      { _id: id, signature: { $ne: signature } },
+      { $set: { signature, nextRunAt, lastRunAt: null } },
+      { session: undefined }
+    );
+
+    return (await this.get(id))!;
+  }
+
+  async get(id: string): Promise<ScheduleState | null> {
+    const doc = await this.model
+      .findOne({ _id: id }, null, { session: undefined })
+      .lean()
+      .exec();
+    if (!doc) return null;
+
+    return {
+      id: doc._id,
+      signature: doc.signature,
+      nextRunAt: doc.nextRunAt,
+      lastRunAt: doc.lastRunAt ?? null,
+    };
+  }
+
+  async claim(
+    id: string,
+    expected: Date,
+    next: Date,
+    runAt: Date
+  ): Promise<boolean> {
+    const { modifiedCount } = await this.model.updateOne(
+      { _id: id, nextRunAt: expected },
+      { $set: { nextRunAt: next, lastRunAt: runAt } },
+      { session: undefined }
+    );
+    return modifiedCount === 1;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.model.deleteOne({ _id: id }, { session: undefined });
+  }
+}
+
+// Create the default schedule model
+export function createScheduleModel(
+  modelName: string = "QueueSchedule"
+): Model<IQueueScheduleDocument> {
+  try {
+    return model<IQueueScheduleDocument>(modelName);
+  } catch {
+    return model<IQueueScheduleDocument>(modelName, QueueScheduleSchema);
+  }
+}
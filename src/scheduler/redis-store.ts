@@ -0,0 +1,108 @@
+import type {
+  ScheduleState,
+  ScheduleStore,
+} from "../interfaces/scheduler.ts";
+
+// Subset of the 'redis' npm package client used by the schedule store
+export interface RedisScheduleClient {
+  hGet(key: string, field: string): Promise<string | null>;
+  hSet(key: string, field: string, value: string): Promise<number>;
+  hDel(key: string, fields: string[]): Promise<number>;
+  set(
+    key: string,
+    value: string,
+    options: { NX: true; PX: number }
+  ): Promise<string | null>;
+}
+
+/** How long a claimed run stays locked, far longer than any tick takes */
+const CLAIM_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Keeps schedule state in a Redis hash. Runs are claimed with `SET NX`, so
+ * only one scheduler instance adds each run.
+ */
+export class RedisScheduleStore implements ScheduleStore {
+  private statesKey: string;
+  private prefix: string;
+
+  constructor(
+    private redis: RedisScheduleClient,
+    options: { keyPrefix?: string } = {}
+  ) {
+    this.prefix = options.keyPrefix || "queue";
+    this.statesKey = `${this.prefix}:schedules`;
+  }
+
+  async register(
+    id: string,
+    signature: string,
+    nextRunAt: Date
+  ): Promise<ScheduleState> {
+    const existing = await this.get(id);
+    if (existing && existing.signature === signature) {
+      return existing;
+    }
+
+    const state: ScheduleState = { id, signature, nextRunAt, lastRunAt: null };
+    await this.save(state);
+    return state;
+  }
+
+  async get(id: string): Promise<ScheduleState | null> {
+    const value = await this.redis.hGet(this.statesKey, id);
+    if (!value) return null;
+
+    const state = JSON.parse(value) as {
+      signature: string;
+      nextRunAt: number;
+      lastRunAt: number | null;
+    };
+    return {
+      id,
+      signature: state.signature,
+      nextRunAt: new Date(state.nextRunAt),
+      lastRunAt: state.lastRunAt !== null ? new Date(state.lastRunAt) : null,
+    };
+  }
+
+  async claim(
+    id: string,
+    expected: Date,
+    next: Date,
+    runAt: Date
+  ): Promise<boolean> {
+    const claimKey = `${this.prefix}:schedules:${id}:${expected.getTime()}`;
+    const claimed = await this.redis.set(claimKey, runAt.toISOString(), {
+      NX: true,
+      PX: CLAIM_TTL_MS,
+    });
+    if (claimed === null) {
+      return false;
+    }
+
+    const state = await this.get(id);
+    if (!state || state.nextRunAt.getTime() !== expected.getTime()) {
+      return false;
+    }
+
+    await this.save({ ...state, nextRunAt: next, lastRunAt: runAt });
+    return true;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.redis.hDel(this.statesKey, [id]);
+  }
+
+  private async save(state: ScheduleState): Promise<void> {
+    await this.redis.hSet(
+      this.statesKey,
+      state.id,
+      JSON.stringify({
+        signature: state.signature,
+        nextRunAt: state.nextRunAt.getTime(),
+        lastRunAt: state.lastRunAt?.getTime() ?? null,
+      })
+    );
+  }
+}
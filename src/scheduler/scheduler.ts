@@ -0,0 +1,334 @@
+import { EventEmitter } from "events";
+import { Queue, QueueError } from "../core/queue.ts";
+import type { BaseJobOptions, BaseJobRequest } from "../interfaces/job.ts";
+import type {
+  ScheduleDefinition,
+  ScheduleStore,
+} from "../interfaces/scheduler.ts";
+import { nextCronRun, parseCron, type CronExpression } from "./cron.ts";
+
+export interface SchedulerOptions<
+  TJobMap,
+  TJobRequest extends BaseJobRequest<any>
+> {
+  /** Queue receiving the scheduled jobs */
+  queue: Queue<TJobMap, TJobRequest>;
+  /** Storage for schedule state, shared by all scheduler instances */
+  store: ScheduleStore;
+  /** Time between checks for due schedules in milliseconds (default: 1000) */
+  pollIntervalMs?: number;
+}
+
+/**
+ * Options of a single schedule.
+ */
+export interface ScheduleOptions {
+  /**
+   * Whether runs missed while no scheduler was running are added one by one
+   * when it starts again (default: true). When false they collapse into one run.
+   */
+  catchUp?: boolean;
+}
+
+/**
+ * Emitted as `scheduled` after a scheduled job was added to the queue.
+ */
+export interface ScheduledEvent {
+  type: "scheduled";
+  /** Schedule ID */
+  scheduleId: string;
+  /** ID of the added job */
+  jobId: string;
+  /** Job name */
+  name: string;
+  /** Time the run was due */
+  runAt: Date;
+}
+
+interface RegisteredSchedule {
+  definition: ScheduleDefinition;
+  options: ScheduleOptions;
+  cron?: CronExpression;
+  /** Job name */
+  name: string;
+  /** Adds the scheduled job with extra options */
+  addJob(
+    options: Pick<BaseJobOptions, "deduplicationId" | "deduplicationSeconds">
+  ): Promise<string>;
+}
+
+/** How long the job of a run blocks adding that run again, see `addRun` */
+const RUN_DEDUPLICATION_SECONDS = 86400;
+
+/**
+ * Adds jobs to a queue on a cron or interval schedule.
+ *
+ * Schedule state lives in a {@link ScheduleStore}, and every run is claimed
+ * atomically, so several replicas can run a scheduler without adding a run
+ * twice and a restarted scheduler picks up missed runs.
+ *
+ * @example
+ * ```typescript
+ * const scheduler = new Scheduler({
+ *   queue,
+ *   store: new SQLiteScheduleStore(db),
+ * });
+ *
+ * scheduler.add(
+ *   'nightly-report',
+ *   { cron: '0 2 * * *', timezone: 'Europe/Madrid' },
+ *   { name: 'generate-report', payload: { type: 'daily' } }
+ * );
+ * scheduler.add('cleanup', { everySeconds: 600 }, { name: 'cleanup', payload: {} });
+ *
+ * scheduler.start();
+ * // ...
+ * await scheduler.stop();
+ * ```
+ */
+export class Scheduler<
+  TJobMap = Record<string, any>,
+  TJobRequest extends BaseJobRequest<any> = BaseJobRequest<any>
+> extends EventEmitter {
+  private queue: Queue<TJobMap, TJobRequest>;
+  private store: ScheduleStore;
+  private pollIntervalMs: number;
+  private schedules = new Map<string, RegisteredSchedule>();
+  /** Schedules whose state was registered in the store */
+  private registered = new Set<string>();
+  private controller?: AbortController;
+  private loop?: Promise<void>;
+  /** Whether the queue honours `deduplicationId`, until it rejects one */
+  private deduplicates = true;
+
+  constructor(options: SchedulerOptions<TJobMap, TJobRequest>) {
+    super();
+    this.queue = options.queue;
+    this.store = options.store;
+    this.pollIntervalMs = options.pollIntervalMs ?? 1000;
+  }
+
+  /**
+   * Registers a recurring job. Schedules are identified by `id` across
+   * restarts and replicas, so keep it stable.
+   *
+   * @param id - Unique schedule ID
+   * @param definition - Cron expression with optional time zone, or an interval
+   * @param job - Job name, payload and `addJob` options
+   * @param options - Schedule options
+   * @throws QueueError named "QueueErrorInvalidCron" when the cron expression is invalid
+   */
+  add<K extends keyof TJobMap & string>(
+    id: string,
+    definition: ScheduleDefinition,
+    job: { name: K } & TJobRequest & { payload: TJobMap[K] },
+    options: ScheduleOptions = {}
+  ): void {
+    let cron: CronExpression | undefined;
+    if ("cron" in definition) {
+      cron = parseCron(definition.cron);
+      // Fail early on unknown time zones
+      nextCronRun(cron, new Date(), definition.timezone);
+    } else if (!(definition.everySeconds > 0)) {
+      throw new QueueError({
+        message: `Schedule ${id} needs a positive everySeconds`,
+        cause: undefined,
+      });
+    }
+
+    this.schedules.set(id, {
+      definition,
+      options,
+      cron,
+      name: job.name,
+      // The request keeps `name`, which addJob doesn't read
+      addJob: (extra) => this.queue.addJob(job.name, { ...job, ...extra, handle: false }),
+    });
+    this.registered.delete(id);
+  }
+
+  /**
+   * Unregisters a schedule and deletes its stored state.
+   *
+   * @param id - The schedule ID
+   */
+  async remove(id: string): Promise<void> {
+    this.schedules.delete(id);
+    this.registered.delete(id);
+    await this.store.remove(id);
+  }
+
+  /**
+   * Starts checking for due schedules every `pollIntervalMs`.
+   */
+  start(): void {
+    if (this.loop) return;
+
+    const controller = new AbortController();
+    this.controller = controller;
+    this.loop = (async () => {
+      while (!controller.signal.aborted) {
+        await this.tick().catch((error) => {
+          console.error("Scheduler error:", error);
+        });
+        await sleep(this.pollIntervalMs, controller.signal);
+      }
+    })();
+  }
+
+  /**
+   * Stops the scheduler, waiting for a check in progress to finish.
+   */
+  async stop(): Promise<void> {
+    this.controller?.abort();
+    await this.loop;
+    this.controller = undefined;
+    this.loop = undefined;
+  }
+
+  /**
+   * Adds the jobs of all schedules that are due. Called by `start()`, or
+   * directly when driving the scheduler from your own timer.
+   *
+   * @param now - Current time
+   * @returns Promise resolving to the IDs of the added jobs
+   */
+  async tick(now: Date = new Date()): Promise<string[]> {
+    const jobIds: string[] = [];
+
+    for (const [id, schedule] of this.schedules) {
+      let state = this.registered.has(id)
+        ? await this.store.get(id)
+        : await this.register(id, schedule, now);
+      if (!state) {
+        // State removed by another instance, register it again next time
+        this.registered.delete(id);
+        continue;
+      }
+
+      while (state.nextRunAt <= now) {
+        const runAt = state.nextRunAt;
+        const next = this.nextRun(schedule, runAt, now);
+
+        // Whoever claims the run adds the job, other instances skip it
+        const jobId = await this.addRun(id, schedule, runAt, next, now);
+        if (jobId === undefined) break;
+        jobIds.push(jobId);
+
+        const event: ScheduledEvent = {
+          type: "scheduled",
+          scheduleId: id,
+          jobId,
+          name: schedule.name,
+          runAt,
+        };
+        this.emit("scheduled", event);
+
+        state = { ...state, nextRunAt: next, lastRunAt: now };
+      }
+    }
+
+    return jobIds;
+  }
+
+  /**
+   * Returns the next time a schedule is due, or undefined if it isn't registered yet.
+   *
+   * @param id - The schedule ID
+   */
+  async nextRunAt(id: string): Promise<Date | undefined> {
+    const state = await this.store.get(id);
+    return state?.nextRunAt;
+  }
+
+  /**
+   * Adds the job of a run and claims the run, or returns undefined when
+   * another instance claimed it.
+   *
+   * When the queue deduplicates jobs, the job is added first with an ID
+   * derived from the run: a crash before the claim adds the same job again on
+   * the next tick rather than losing the run, and instances racing for the
+   * run get the same job. Otherwise the run is claimed first, and handed back
+   * when adding its job fails.
+   */
+  private async addRun(
+    id: string,
+    schedule: RegisteredSchedule,
+    runAt: Date,
+    next: Date,
+    now: Date
+  ): Promise<string | undefined> {
+    if (this.deduplicates) {
+      try {
+        const jobId = await schedule.addJob({
+          deduplicationId: `${id}:${runAt.toISOString()}`,
+          deduplicationSeconds: RUN_DEDUPLICATION_SECONDS,
+        });
+        return (await this.store.claim(id, runAt, next, now)) ? jobId : undefined;
+      } catch (error) {
+        if ((error as Error).name !== "QueueErrorDeduplicationNotSupported") throw error;
+        this.deduplicates = false;
+      }
+    }
+
+    if (!(await this.store.claim(id, runAt, next, now))) return undefined;
+    try {
+      return await schedule.addJob({});
+    } catch (error) {
+      await this.store.claim(id, next, runAt, now);
+      throw error;
+    }
+  }
+
+  private async register(
+    id: string,
+    schedule: RegisteredSchedule,
+    now: Date
+  ) {
+    const signature = JSON.stringify(schedule.definition);
+    const state = await this.store.register(
+      id,
+      signature,
+      this.nextRun(schedule, now, now)
+    );
+    this.registered.add(id);
+    return state;
+  }
+
+  /**
+   * Computes the run after `previous`. Without catch up, runs that are
+   * already past `now` are skipped.
+   */
+  private nextRun(
+    schedule: RegisteredSchedule,
+    previous: Date,
+    now: Date
+  ): Date {
+    const catchUp = schedule.options.catchUp ?? true;
+    const { definition } = schedule;
+
+    if ("cron" in definition) {
+      const after = catchUp || previous > now ? previous : now;
+      return nextCronRun(schedule.cron!, after, definition.timezone);
+    }
+
+    const intervalMs = definition.everySeconds * 1000;
+    let next = previous.getTime() + intervalMs;
+    if (!catchUp && next <= now.getTime()) {
+      next += Math.ceil((now.getTime() - next + 1) / intervalMs) * intervalMs;
+    }
+    return new Date(next);
+  }
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal.addEventListener("abort", done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
@@ -0,0 +1,85 @@
+import type { SQLiteDatabase } from "../drivers/sqlite.ts";
+import type {
+  ScheduleState,
+  ScheduleStore,
+} from "../interfaces/scheduler.ts";
+
+type Row = {
+  id: string;
+  signature: string;
+  next_run_at: number;
+  last_run_at: number | null;
+};
+
+/**
+ * Keeps schedule state in a `schedules` table, next to the queue's `jobs` table.
+ */
+export class SQLiteScheduleStore implements ScheduleStore {
+  constructor(private db: SQLiteDatabase) {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schedules (
+        id TEXT PRIMARY KEY,
+        signature TEXT NOT NULL,
+        next_run_at INTEGER NOT NULL,
+        last_run_at INTEGER
+      )
+    `);
+  }
+
+  async register(
+    id: string,
+    signature: string,
+    nextRunAt: Date
+  ): Promise<ScheduleState> {
+    // Existing state is kept unless the schedule definition changed
+    const stmt = this.db.prepare(`
+      INSERT INTO schedules (id, signature, next_run_at, last_run_at)
+      VALUES (?, ?, ?, NULL)
+      ON CONFLICT (id) DO UPDATE SET
+        signature = excluded.signature,
+        next_run_at = excluded.next_run_at,
+        last_run_at = NULL
+       WHERE schedules.signature != excluded.signature
+    `);
+    stmt.run(id, signature, nextRunAt.getTime());
+
+    return (await this.get(id))!;
+  }
+
+  async get(id: string): Promise<ScheduleState | null> {
+    const row = this.db
+      .prepare(`SELECT * FROM schedules WHERE id = ?`)
+      .get(id) as Row | undefined;
+    if (!row) return null;
+
+    return {
+      id: row.id,
+      signature: row.signature,
+      nextRunAt: new Date(row.next_run_at),
+      lastRunAt: row.last_run_at !== null ? new Date(row.last_run_at) : null,
+    };
+  }
+
+  async claim(
+    id: string,
+    expected: Date,
+    next: Date,
+    runAt: Date
+  ): Promise<boolean> {
+    const stmt = this.db.prepare(`
+      UPDATE schedules SET next_run_at = ?, last_run_at = ?
+       WHERE id = ? AND next_run_at = ?
+    `);
+    const { changes } = stmt.run(
+      next.getTime(),
+      runAt.getTime(),
+      id,
+      expected.getTime()
+    );
+    return changes === 1;
+  }
+
+  async remove(id: string): Promise<void> {
+    this.db.prepare(`DELETE FROM schedules WHERE id = ?`).run(id);
+  }
+}
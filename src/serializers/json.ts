@@ -0,0 +1,125 @@
+import type { Serializer } from "../interfaces/serializer.ts";
+
+/**
+ * Plain JSON, the default. Payloads are stored as they are in the driver's
+ * native JSON form, so `Date`, `Map`, `BigInt` and binary values don't
+ * survive the round trip.
+ */
+export const jsonSerializer: Serializer = {
+  name: "json",
+  serialize: (payload) => JSON.stringify(payload),
+  deserialize: (data) => JSON.parse(data),
+};
+
+/** Key marking an encoded value in typed JSON */
+const TAG = "$t";
+
+type Tagged =
+  | { $t: "Date"; v: string }
+  | { $t: "BigInt"; v: string }
+  | { $t: "Number"; v: "NaN" | "Infinity" | "-Infinity" }
+  | { $t: "Undefined" }
+  | { $t: "Map"; v: Array<[unknown, unknown]> }
+  | { $t: "Set"; v: unknown[] }
+  | { $t: "Bytes"; v: string }
+  | { $t: "RegExp"; v: [source: string, flags: string] }
+  | { $t: "Object"; v: Record<string, unknown> };
+
+/**
+ * JSON that keeps `Date`, `Map`, `Set`, `BigInt`, `RegExp`, `Buffer` and
+ * other typed arrays (decoded as `Buffer`), `undefined` and non-finite
+ * numbers, by replacing them with tagged objects, in the style of superjson.
+ */
+export const typedJsonSerializer: Serializer = {
+  name: "typed-json",
+  serialize: (payload) => JSON.stringify(encode(payload)),
+  deserialize: (data) => decode(JSON.parse(data)),
+};
+
+function encode(value: unknown): unknown {
+  switch (typeof value) {
+    case "bigint":
+      return { $t: "BigInt", v: value.toString() } satisfies Tagged;
+    case "undefined":
+      return { $t: "Undefined" } satisfies Tagged;
+    case "number":
+      return Number.isFinite(value)
+        ? value
+        : ({ $t: "Number", v: String(value) as "NaN" } satisfies Tagged);
+    case "object":
+      break;
+    default:
+      return value;
+  }
+
+  if (value === null) return null;
+  if (value instanceof Date) {
+    return { $t: "Date", v: value.toISOString() } satisfies Tagged;
+  }
+  if (value instanceof Map) {
+    return {
+      $t: "Map",
+      v: [...value].map(([key, item]) => [encode(key), encode(item)]),
+    } satisfies Tagged;
+  }
+  if (value instanceof Set) {
+    return { $t: "Set", v: [...value].map(encode) } satisfies Tagged;
+  }
+  if (ArrayBuffer.isView(value)) {
+    const bytes = Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+    return { $t: "Bytes", v: bytes.toString("base64") } satisfies Tagged;
+  }
+  if (value instanceof RegExp) {
+    return { $t: "RegExp", v: [value.source, value.flags] } satisfies Tagged;
+  }
+  if (Array.isArray(value)) {
+    return value.map(encode);
+  }
+
+  const entries: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    entries[key] = encode(item);
+  }
+  // Plain objects that look like a tag are wrapped, so they decode as they were
+  return TAG in entries
+    ? ({ $t: "Object", v: entries } satisfies Tagged)
+    : entries;
+}
+
+function decode(value: unknown): unknown {
+  if (typeof value !== "object" || value === null) return value;
+  if (Array.isArray(value)) return value.map(decode);
+
+  if (TAG in value) {
+    const tagged = value as Tagged;
+    switch (tagged.$t) {
+      case "Date":
+        return new Date(tagged.v);
+      case "BigInt":
+        return BigInt(tagged.v);
+      case "Number":
+        return Number(tagged.v);
+      case "Undefined":
+        return undefined;
+      case "Map":
+        return new Map(tagged.v.map(([key, item]) => [decode(key), decode(item)]));
+      case "Set":
+        return new Set(tagged.v.map(decode));
+      case "Bytes":
+        return Buffer.from(tagged.v, "base64");
+      case "RegExp":
+        return new RegExp(tagged.v[0], tagged.v[1]);
+      case "Object":
+        return decodeEntries(tagged.v);
+    }
+  }
+  return decodeEntries(value as Record<string, unknown>);
+}
+
+function decodeEntries(value: Record<string, unknown>): Record<string, unknown> {
+  const entries: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    entries[key] = decode(item);
+  }
+  return entries;
+}
@@ -0,0 +1,372 @@
+import type { Serializer } from "../interfaces/serializer.ts";
+
+/**
+ * MessagePack (https://msgpack.org), stored as base64. Keeps binary data
+ * (decoded as `Buffer`), `Date` (as the timestamp extension), `BigInt`
+ * (as 64-bit integers) and `undefined` (as the extension msgpackr uses). Maps with string keys decode as plain objects, other
+ * maps as `Map`; sets encode as arrays.
+ */
+export const msgpackSerializer: Serializer = {
+  name: "msgpack",
+  serialize: (payload) => Buffer.from(encodeMsgpack(payload)).toString("base64"),
+  deserialize: (data) => decodeMsgpack(Buffer.from(data, "base64")),
+};
+
+/** Extension type of timestamps, as defined by the spec */
+const TIMESTAMP_EXT = -1;
+/** Extension type of `undefined`, encoded as fixext 1 like msgpackr does */
+const UNDEFINED_EXT = 0;
+
+/**
+ * Encodes a value as MessagePack.
+ *
+ * Numbers use the smallest integer format up to 32 bits and float64 above;
+ * the 64-bit integer formats are kept for `BigInt`, so they round-trip.
+ */
+export function encodeMsgpack(value: unknown): Uint8Array {
+  const writer = new Writer();
+  writer.write(value);
+  return writer.bytes();
+}
+
+/**
+ * Decodes MessagePack, the inverse of `encodeMsgpack`.
+ *
+ * @throws Error when the data is truncated or uses an unsupported type
+ */
+export function decodeMsgpack(bytes: Uint8Array): unknown {
+  const reader = new Reader(bytes);
+  const value = reader.read();
+  if (reader.offset !== bytes.byteLength) {
+    throw new Error("Unexpected data after MessagePack value");
+  }
+  return value;
+}
+
+class Writer {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  private length = 0;
+
+  bytes(): Uint8Array {
+    return this.buffer.subarray(0, this.length);
+  }
+
+  write(value: unknown): void {
+    switch (typeof value) {
+      case "undefined":
+        // nil decodes as null, the extension keeps undefined apart
+        this.u8(0xd4).u8(UNDEFINED_EXT).u8(0);
+        return;
+      case "boolean":
+        this.u8(value ? 0xc3 : 0xc2);
+        return;
+      case "number":
+        return this.number(value);
+      case "bigint":
+        return this.bigint(value);
+      case "string":
+        return this.string(value);
+      case "object":
+        break;
+      default:
+        throw new Error(`Can't encode ${typeof value} as MessagePack`);
+    }
+
+    if (value === null) {
+      this.u8(0xc0);
+      return;
+    }
+    if (ArrayBuffer.isView(value)) {
+      return this.binary(
+        new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+      );
+    }
+    if (value instanceof Date) return this.timestamp(value);
+    if (Array.isArray(value) || value instanceof Set) {
+      const items = [...value];
+      this.header(items.length, 0x90, 0xdc, 0xdd);
+      for (const item of items) this.write(item);
+      return;
+    }
+
+    const entries =
+      value instanceof Map ? [...value] : Object.entries(value as object);
+    this.header(entries.length, 0x80, 0xde, 0xdf);
+    for (const [key, item] of entries) {
+      this.write(key);
+      this.write(item);
+    }
+  }
+
+  private number(value: number): void {
+    if (!Number.isInteger(value) || value < -0x80000000 || value > 0xffffffff) {
+      this.u8(0xcb);
+      this.ensure(8);
+      this.view.setFloat64(this.length, value);
+      this.length += 8;
+    } else if (value >= 0) {
+      if (value < 0x80) this.u8(value);
+      else if (value <= 0xff) this.u8(0xcc).u8(value);
+      else if (value <= 0xffff) this.u8(0xcd).u16(value);
+      else this.u8(0xce).u32(value);
+    } else if (value >= -0x20) {
+      this.u8(value & 0xff);
+    } else if (value >= -0x80) {
+      this.u8(0xd0).u8(value & 0xff);
+    } else if (value >= -0x8000) {
+      this.u8(0xd1).u16(value & 0xffff);
+    } else {
+      this.u8(0xd2).u32(value >>> 0);
+    }
+  }
+
+  private bigint(value: bigint): void {
+    this.ensure(9);
+    if (value >= 0n && value <= 0xffffffffffffffffn) {
+      this.view.setUint8(this.length, 0xcf);
+      this.view.setBigUint64(this.length + 1, value);
+    } else if (value < 0n && value >= -0x8000000000000000n) {
+      this.view.setUint8(this.length, 0xd3);
+      this.view.setBigInt64(this.length + 1, value);
+    } else {
+      throw new Error(`Can't encode ${value} as MessagePack, it exceeds 64 bits`);
+    }
+    this.length += 9;
+  }
+
+  private string(value: string): void {
+    const bytes = Buffer.from(value, "utf8");
+    if (bytes.length < 0x20) this.u8(0xa0 | bytes.length);
+    else if (bytes.length <= 0xff) this.u8(0xd9).u8(bytes.length);
+    else if (bytes.length <= 0xffff) this.u8(0xda).u16(bytes.length);
+    else this.u8(0xdb).u32(bytes.length);
+    this.raw(bytes);
+  }
+
+  private binary(bytes: Uint8Array): void {
+    if (bytes.length <= 0xff) this.u8(0xc4).u8(bytes.length);
+    else if (bytes.length <= 0xffff) this.u8(0xc5).u16(bytes.length);
+    else this.u8(0xc6).u32(bytes.length);
+    this.raw(bytes);
+  }
+
+  /** Timestamp 96: nanoseconds as uint32, then seconds as int64 */
+  private timestamp(date: Date): void {
+    const millis = date.getTime();
+    if (Number.isNaN(millis)) {
+      throw new Error("Can't encode an invalid Date as MessagePack");
+    }
+    const seconds = Math.floor(millis / 1000);
+    this.u8(0xc7).u8(12).u8(TIMESTAMP_EXT & 0xff);
+    this.u32((millis - seconds * 1000) * 1e6);
+    this.ensure(8);
+    this.view.setBigInt64(this.length, BigInt(seconds));
+    this.length += 8;
+  }
+
+  private header(size: number, fix: number, short: number, long: number): void {
+    if (size < 0x10) this.u8(fix | size);
+    else if (size <= 0xffff) this.u8(short).u16(size);
+    else this.u8(long).u32(size);
+  }
+
+  private u8(value: number): this {
+    this.ensure(1);
+    this.view.setUint8(this.length, value);
+    this.length += 1;
+    return this;
+  }
+
+  private u16(value: number): this {
+    this.ensure(2);
+    this.view.setUint16(this.length, value);
+    this.length += 2;
+    return this;
+  }
+
+  private u32(value: number): this {
+    this.ensure(4);
+    this.view.setUint32(this.length, value);
+    this.length += 4;
+    return this;
+  }
+
+  private raw(bytes: Uint8Array): void {
+    this.ensure(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  private ensure(size: number): void {
+    if (this.length + size <= this.buffer.length) return;
+    const grown = new Uint8Array(
+      Math.max(this.buffer.length * 2, this.length + size)
+    );
+    grown.set(this.bytes());
+    this.buffer = grown;
+    this.view = new DataView(grown.buffer);
+  }
+}
+
+class Reader {
+  private readonly view: DataView;
+  offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  read(): unknown {
+    const type = this.u8();
+
+    if (type < 0x80) return type;
+    if (type < 0x90) return this.map(type & 0x0f);
+    if (type < 0xa0) return this.array(type & 0x0f);
+    if (type < 0xc0) return this.string(type & 0x1f);
+    if (type >= 0xe0) return type - 0x100;
+
+    switch (type) {
+      case 0xc0:
+        return null;
+      case 0xc2:
+        return false;
+      case 0xc3:
+        return true;
+      case 0xc4:
+        return this.binary(this.u8());
+      case 0xc5:
+        return this.binary(this.u16());
+      case 0xc6:
+        return this.binary(this.u32());
+      case 0xc7:
+        return this.ext(this.u8());
+      case 0xc8:
+        return this.ext(this.u16());
+      case 0xc9:
+        return this.ext(this.u32());
+      case 0xca:
+        return this.advance(4, (at) => this.view.getFloat32(at));
+      case 0xcb:
+        return this.advance(8, (at) => this.view.getFloat64(at));
+      case 0xcc:
+        return this.u8();
+      case 0xcd:
+        return this.u16();
+      case 0xce:
+        return this.u32();
+      case 0xcf:
+        return this.advance(8, (at) => this.view.getBigUint64(at));
+      case 0xd0:
+        return this.advance(1, (at) => this.view.getInt8(at));
+      case 0xd1:
+        return this.advance(2, (at) => this.view.getInt16(at));
+      case 0xd2:
+        return this.advance(4, (at) => this.view.getInt32(at));
+      case 0xd3:
+        return this.advance(8, (at) => this.view.getBigInt64(at));
+      case 0xd4:
+        return this.ext(1);
+      case 0xd5:
+        return this.ext(2);
+      case 0xd6:
+        return this.ext(4);
+      case 0xd7:
+        return this.ext(8);
+      case 0xd8:
+        return this.ext(16);
+      case 0xd9:
+        return this.string(this.u8());
+      case 0xda:
+        return this.string(this.u16());
+      case 0xdb:
+        return this.string(this.u32());
+      case 0xdc:
+        return this.array(this.u16());
+      case 0xdd:
+        return this.array(this.u32());
+      case 0xde:
+        return this.map(this.u16());
+      case 0xdf:
+        return this.map(this.u32());
+      default:
+        throw new Error(`Unsupported MessagePack type 0x${type.toString(16)}`);
+    }
+  }
+
+  private array(size: number): unknown[] {
+    const items: unknown[] = [];
+    for (let i = 0; i < size; i++) items.push(this.read());
+    return items;
+  }
+
+  private map(size: number): Record<string, unknown> | Map<unknown, unknown> {
+    const entries: Array<[unknown, unknown]> = [];
+    for (let i = 0; i < size; i++) entries.push([this.read(), this.read()]);
+    return entries.every(([key]) => typeof key === "string")
+      ? Object.fromEntries(entries)
+      : new Map(entries);
+  }
+
+  private string(size: number): string {
+    return Buffer.from(this.slice(size)).toString("utf8");
+  }
+
+  private binary(size: number): Buffer {
+    return Buffer.from(this.slice(size));
+  }
+
+  private ext(size: number): Date | undefined {
+    const type = this.advance(1, (at) => this.view.getInt8(at));
+    if (type === UNDEFINED_EXT) {
+      this.slice(size);
+      return undefined;
+    }
+    if (type !== TIMESTAMP_EXT) {
+      throw new Error(`Unsupported MessagePack extension type ${type}`);
+    }
+    switch (size) {
+      case 4:
+        return new Date(this.u32() * 1000);
+      case 8: {
+        // 30-bit nanoseconds, then 34-bit seconds
+        const high = this.u32();
+        const low = this.u32();
+        const seconds = (high & 0x3) * 0x100000000 + low;
+        return new Date(seconds * 1000 + Math.floor((high >>> 2) / 1e6));
+      }
+      case 12: {
+        const nanoseconds = this.u32();
+        const seconds = this.advance(8, (at) => this.view.getBigInt64(at));
+        return new Date(Number(seconds) * 1000 + Math.floor(nanoseconds / 1e6));
+      }
+      default:
+        throw new Error(`Invalid MessagePack timestamp of ${size} bytes`);
+    }
+  }
+
+  private u8(): number {
+    return this.advance(1, (at) => this.view.getUint8(at));
+  }
+
+  private u16(): number {
+    return this.advance(2, (at) => this.view.getUint16(at));
+  }
+
+  private u32(): number {
+    return this.advance(4, (at) => this.view.getUint32(at));
+  }
+
+  private slice(size: number): Uint8Array {
+    return this.advance(size, (at) => this.bytes.subarray(at, at + size));
+  }
+
+  private advance<T>(size: number, read: (at: number) => T): T {
+    if (this.offset + size > this.bytes.byteLength) {
+      throw new Error("Unexpected end of MessagePack data");
+    }
+    const value = read(this.offset);
+    this.offset += size;
+    return value;
+  }
+}
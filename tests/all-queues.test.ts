@@ -7,8 +7,10 @@ import {
   beforeEach,
   afterEach,
   assert,
+  vi,
 } from "vitest";
 import { promises as fs } from "fs";
+import { randomBytes } from "crypto";
 import path from "path";
 import os from "os";
 import { GenericContainer, type StartedTestContainer } from "testcontainers";
@@ -28,7 +30,13 @@ import { SqsQueue } from "../src/drivers/sqs.js";
 import { MongooseQueue, createQueueModel } from "../src/drivers/mongoose.js";
 import mongoose from "mongoose";
 import type { Queue } from "../src/core/queue.js";
+import { QueueErrorJobCancelled } from "../src/core/queue.js";
 import type { JobRequestFull } from "../src/interfaces/job.ts";
+import {
+  jsonSerializer,
+  typedJsonSerializer,
+} from "../src/serializers/json.ts";
+import { msgpackSerializer } from "../src/serializers/msgpack.ts";
 
 interface TestJobs {
   "simple-job": { data: string };
@@ -42,6 +50,13 @@ interface QueueDriverConfig {
     supportsPriority?: boolean;
     supportsDelayedJobs?: boolean;
     supportsStatus?: boolean;
+    supportsProgress?: boolean;
+    supportsResults?: boolean;
+    supportsCancellation?: boolean;
+    supportsFlows?: boolean;
+    supportsDeduplication?: boolean;
+    supportsStalledEvents?: boolean;
+    supportsAdmin?: boolean;
   };
   beforeAll?: () => Promise<void>;
   afterAll?: () => Promise<void>;
@@ -57,6 +72,13 @@ const drivers: Array<() => Promise<QueueDriverConfig> | QueueDriverConfig> = [
       supportsPriority: true,
       supportsDelayedJobs: true,
       supportsStatus: true,
+      supportsProgress: true,
+      supportsResults: true,
+      supportsCancellation: true,
+      supportsFlows: true,
+      supportsDeduplication: true,
+      supportsStalledEvents: true,
+      supportsAdmin: true,
     },
     createQueue: async () => {
       return new InMemoryQueue<TestJobs>({
@@ -74,6 +96,13 @@ const drivers: Array<() => Promise<QueueDriverConfig> | QueueDriverConfig> = [
         supportsPriority: false,
         supportsDelayedJobs: true,
         supportsStatus: true,
+        supportsProgress: false,
+        supportsResults: false,
+        supportsCancellation: true,
+        supportsFlows: false,
+        supportsDeduplication: false,
+        supportsStalledEvents: true,
+        supportsAdmin: true,
       },
       beforeAll: async () => {
         // Create base temp directory for all FileQueue tests
@@ -108,6 +137,13 @@ const drivers: Array<() => Promise<QueueDriverConfig> | QueueDriverConfig> = [
       supportsPriority: true, // SQLite supports priority ordering
       supportsDelayedJobs: true,
       supportsStatus: true,
+      supportsProgress: true,
+      supportsResults: true,
+      supportsCancellation: true,
+      supportsFlows: true,
+      supportsDeduplication: true,
+      supportsStalledEvents: true,
+      supportsAdmin: true,
     },
     createQueue: async () => {
       // Use in-memory SQLite database for tests - much faster and no file cleanup needed
@@ -132,6 +168,13 @@ const drivers: Array<() => Promise<QueueDriverConfig> | QueueDriverConfig> = [
         supportsPriority: true,
         supportsDelayedJobs: true,
         supportsStatus: true,
+        supportsProgress: true,
+        supportsResults: true,
+        supportsCancellation: true,
+        supportsFlows: true,
+        supportsDeduplication: true,
+        supportsStalledEvents: true,
+        supportsAdmin: true,
       },
       beforeAll: async () => {
         redisContainer = await new GenericContainer("valkey/valkey:7-alpine")
@@ -177,6 +220,13 @@ const drivers: Array<() => Promise<QueueDriverConfig> | QueueDriverConfig> = [
         supportsPriority: false, // SQS doesn't support priority ordering
         supportsDelayedJobs: true,
         supportsStatus: false, // SQS doesn't support status queries
+        supportsProgress: false,
+        supportsResults: false,
+        supportsCancellation: false,
+        supportsFlows: false,
+        supportsDeduplication: false,
+        supportsStalledEvents: false,
+        supportsAdmin: false,
       },
       beforeAll: async () => {
         sqsContainer = await new GenericContainer("softwaremill/elasticmq-native:1.5.7")
@@ -246,6 +296,13 @@ const drivers: Array<() => Promise<QueueDriverConfig> | QueueDriverConfig> = [
         supportsPriority: true, // MongoDB supports priority ordering
         supportsDelayedJobs: true, // MongoDB supports delayed jobs
         supportsStatus: true, // MongoDB supports status queries
+        supportsProgress: true,
+        supportsResults: true,
+        supportsCancellation: true,
+        supportsFlows: true,
+        supportsDeduplication: true,
+        supportsStalledEvents: true,
+        supportsAdmin: true,
       },
       beforeAll: async () => {
         mongoContainer = await new GenericContainer("mongo:7")
@@ -407,6 +464,61 @@ describe.concurrent.each(configs)("Queue Driver: $name", (config) => {
       });
     });
 
+    describe("Bulk Operations", () => {
+      it(`${config.name} should add many jobs at once`, async () => {
+        const executed: string[] = [];
+        queue.setHandlers({
+          "simple-job": async ({ payload }) => {
+            executed.push(payload.data);
+          },
+          "priority-job": async () => {},
+          "delayed-job": async () => {},
+          "failing-job": async () => {},
+        });
+
+        const data = Array.from({ length: 25 }, (_, index) => `job-${index}`);
+        const results = await queue.addJobs(
+          data.map((item) => ({ name: "simple-job", payload: { data: item } }))
+        );
+
+        expect(results).toHaveLength(25);
+        const ids = results.map((result) => {
+          assert(result.status === "added");
+          return result.id;
+        });
+        expect(new Set(ids).size).toBe(25);
+
+        await queue.run(false);
+
+        expect([...executed].sort()).toEqual([...data].sort());
+      });
+
+      it(`${config.name} should process jobs reserved in batches`, async () => {
+        const executed: string[] = [];
+        queue.setHandlers({
+          "simple-job": async ({ payload }) => {
+            executed.push(payload.data);
+          },
+          "priority-job": async () => {},
+          "delayed-job": async () => {},
+          "failing-job": async () => {},
+        });
+
+        const data = Array.from({ length: 7 }, (_, index) => `job-${index}`);
+        const ids: string[] = [];
+        for (const item of data) {
+          ids.push(await queue.addJob("simple-job", { payload: { data: item } }));
+        }
+
+        await queue.run(false, 0, { concurrency: 2, batchSize: 3 });
+
+        expect([...executed].sort()).toEqual([...data].sort());
+        for (const id of ids) {
+          expect(await queue.status(id)).toBe("done");
+        }
+      });
+    });
+
     describe("Job Processing", () => {
       it(`${config.name} should process jobs successfully`, async () => {
         const processedJobs: string[] = [];
@@ -536,6 +648,186 @@ describe.concurrent.each(configs)("Queue Driver: $name", (config) => {
       });
     });
 
+    describe("Events", () => {
+      it.skipIf(!features.supportsStalledEvents)(
+        `${config.name} should emit stalled when a job's TTR expires`,
+        async () => {
+          const stalled: string[] = [];
+          queue.on("stalled", (event) => stalled.push(event.id));
+
+          const id = await queue.addJob("simple-job", {
+            payload: { data: "test payload" },
+            ttr: 1,
+          });
+          const reserved = await queue["reserve"](0);
+          assert(reserved);
+
+          await new Promise((resolve) => setTimeout(resolve, 2100));
+          await queue["reserve"](0);
+
+          expect(stalled).toEqual([id]);
+        },
+        10000
+      );
+
+      it(`${config.name} should emit lifecycle events in order`, async () => {
+        const events: string[] = [];
+        queue.setHandlers({
+          "simple-job": async () => {},
+          "priority-job": async () => {},
+          "delayed-job": async () => {},
+          "failing-job": async () => {
+            throw new Error("Job failed");
+          },
+        });
+
+        const iterator = queue.events({
+          types: ["afterComplete", "afterFail", "drained", "idle"],
+        });
+        await queue.addJob("simple-job", { payload: { data: "ok" } });
+        await queue.run(false);
+        await queue.addJob("failing-job", { payload: { shouldFail: true } });
+        await queue.run(false);
+
+        for await (const event of iterator) {
+          events.push(event.type);
+          if (events.length === 6) break;
+        }
+
+        expect(events).toEqual([
+          "afterComplete",
+          "drained",
+          "idle",
+          "afterFail",
+          "drained",
+          "idle",
+        ]);
+      });
+    });
+
+    describe("Serializers", () => {
+      it.each([typedJsonSerializer, msgpackSerializer])(
+        `${config.name} should keep payload types with the $name serializer`,
+        async (serializer) => {
+          (queue as any).serializer = serializer;
+          const received: unknown[] = [];
+          queue.setHandlers({
+            "simple-job": async ({ payload }) => {
+              received.push(payload);
+            },
+            "priority-job": async () => {},
+            "delayed-job": async () => {},
+            "failing-job": async () => {},
+          });
+
+          const payload = {
+            data: "typed",
+            at: new Date("2024-01-02T03:04:05.678Z"),
+            big: 12345678901234567890n,
+            bytes: Buffer.from([0, 1, 254, 255]),
+          };
+          await queue.addJob("simple-job", { payload: payload as any });
+          await queue.run(false);
+
+          expect(received).toEqual([payload]);
+        }
+      );
+
+      it(`${config.name} should decode jobs stored with an earlier serializer`, async () => {
+        const received: unknown[] = [];
+        queue.setHandlers({
+          "simple-job": async ({ payload }) => {
+            received.push(payload);
+          },
+          "priority-job": async () => {},
+          "delayed-job": async () => {},
+          "failing-job": async () => {},
+        });
+
+        (queue as any).serializer = msgpackSerializer;
+        await queue.addJob("simple-job", { payload: { data: "msgpack" } });
+        (queue as any).serializer = jsonSerializer;
+        await queue.addJob("simple-job", { payload: { data: "json" } });
+        await queue.run(false);
+
+        expect(received).toEqual([{ data: "msgpack" }, { data: "json" }]);
+      });
+
+      it(`${config.name} should hold compressed and uncompressed jobs side by side`, async () => {
+        (queue as any).compression = { algorithm: "gzip", thresholdBytes: 1024 };
+        const received: string[] = [];
+        queue.setHandlers({
+          "simple-job": async ({ payload }) => {
+            received.push(payload.data);
+          },
+          "priority-job": async () => {},
+          "delayed-job": async () => {},
+          "failing-job": async () => {},
+        });
+
+        const large = "compressible ".repeat(1000);
+        await queue.addJob("simple-job", { payload: { data: large } });
+        await queue.addJob("simple-job", { payload: { data: "small" } });
+        await queue.run(false);
+
+        expect(received).toEqual([large, "small"]);
+      });
+
+      it(`${config.name} should offload large payloads to the blob store`, async () => {
+        const blobs = new Map<string, string>();
+        (queue as any).claimCheck = {
+          thresholdBytes: 1024,
+          store: {
+            put: async (key: string, data: string) => void blobs.set(key, data),
+            get: async (key: string) => blobs.get(key)!,
+            delete: async (key: string) => void blobs.delete(key),
+            expire: async () => {},
+            prune: async () => {},
+          },
+        };
+        const received: string[] = [];
+        queue.setHandlers({
+          "simple-job": async ({ payload }) => {
+            received.push(payload.data);
+          },
+          "priority-job": async () => {},
+          "delayed-job": async () => {},
+          "failing-job": async () => {},
+        });
+
+        const large = "offloaded ".repeat(1000);
+        await queue.addJob("simple-job", { payload: { data: large } });
+        await queue.addJob("simple-job", { payload: { data: "small" } });
+        expect(blobs.size).toBe(1);
+
+        await queue.run(false);
+
+        expect(received).toEqual([large, "small"]);
+        expect(blobs.size).toBe(0);
+      });
+
+      it(`${config.name} should encrypt payloads and decrypt them after key rotation`, async () => {
+        const keys = { first: randomBytes(32), second: randomBytes(32) };
+        (queue as any).encryption = { keys, currentKeyId: "first" };
+        const received: string[] = [];
+        queue.setHandlers({
+          "simple-job": async ({ payload }) => {
+            received.push(payload.data);
+          },
+          "priority-job": async () => {},
+          "delayed-job": async () => {},
+          "failing-job": async () => {},
+        });
+
+        await queue.addJob("simple-job", { payload: { data: "first" } });
+        (queue as any).encryption = { keys, currentKeyId: "second" };
+        await queue.addJob("simple-job", { payload: { data: "second" } });
+        await queue.run(false);
+
+        expect(received).toEqual(["first", "second"]);
+      });
+    });
+
     describe("Job Completion", () => {
       it(`${config.name} should mark jobs as completed`, async () => {
         const id = await queue.addJob("simple-job", {
@@ -578,6 +870,515 @@ describe.concurrent.each(configs)("Queue Driver: $name", (config) => {
       });
     });
 
+    describe("Retries", () => {
+      it(`${config.name} should retry failed jobs with an increasing attempt`, async () => {
+        const attempts: Array<number | undefined> = [];
+
+        queue.setHandlers({
+          "failing-job": async ({ meta }) => {
+            attempts.push(meta.attempt);
+            if (attempts.length < 2) {
+              throw new Error("Transient failure");
+            }
+          },
+          "simple-job": async () => {},
+          "priority-job": async () => {},
+          "delayed-job": async () => {},
+        });
+
+        await queue.addJob("failing-job", {
+          payload: { shouldFail: true },
+          maxAttempts: 3,
+        });
+
+        await queue.run(false);
+
+        expect(attempts).toEqual([1, 2]);
+        expect(await queue["reserve"](0)).toBeNull();
+      });
+
+      it(`${config.name} should not retry once attempts are used up`, async () => {
+        let calls = 0;
+
+        queue.setHandlers({
+          "failing-job": async () => {
+            calls++;
+            throw new Error("Permanent failure");
+          },
+          "simple-job": async () => {},
+          "priority-job": async () => {},
+          "delayed-job": async () => {},
+        });
+
+        await queue.addJob("failing-job", {
+          payload: { shouldFail: true },
+          maxAttempts: 2,
+        });
+
+        await queue.run(false);
+
+        expect(calls).toBe(2);
+        expect(await queue["reserve"](0)).toBeNull();
+      });
+
+      it.skipIf(!features.supportsStatus)(
+        `${config.name} should put retried jobs in the delayed state`,
+        async () => {
+          queue.setHandlers({
+            "failing-job": async () => {
+              throw new Error("Transient failure");
+            },
+            "simple-job": async () => {},
+            "priority-job": async () => {},
+            "delayed-job": async () => {},
+          });
+
+          const id = await queue.addJob("failing-job", {
+            payload: { shouldFail: true },
+            maxAttempts: 2,
+            backoff: { type: "fixed", delaySeconds: 30 },
+          });
+
+          await queue.run(false);
+
+          expect(await queue.status(id)).toBe("delayed");
+        }
+      );
+    });
+
+    describe.skipIf(!features.supportsDeduplication)("Deduplication", () => {
+      it(`${config.name} should return the waiting job for a duplicate`, async () => {
+        const executed: string[] = [];
+        queue.setHandlers({
+          "simple-job": async ({ payload }) => {
+            executed.push(payload.data);
+          },
+          "priority-job": async () => {},
+          "delayed-job": async () => {},
+          "failing-job": async () => {},
+        });
+
+        const id = await queue.addJob("simple-job", {
+          payload: { data: "refund" },
+          deduplicationId: "refund-1",
+        });
+        const duplicateId = await queue.addJob("simple-job", {
+          payload: { data: "refund replay" },
+          deduplicationId: "refund-1",
+        });
+        const otherId = await queue.addJob("simple-job", {
+          payload: { data: "other refund" },
+          deduplicationId: "refund-2",
+        });
+
+        expect(duplicateId).toBe(id);
+        expect(otherId).not.toBe(id);
+
+        await queue.run(false);
+
+        expect(executed).toEqual(["refund", "other refund"]);
+      });
+
+      it(`${config.name} should accept duplicates once the job started and its window passed`, async () => {
+        queue.setHandlers({
+          "simple-job": async () => {},
+          "priority-job": async () => {},
+          "delayed-job": async () => {},
+          "failing-job": async () => {},
+        });
+
+        const first = await queue.addJob("simple-job", {
+          payload: { data: "no window" },
+          deduplicationId: "no-window",
+        });
+        const windowed = await queue.addJob("simple-job", {
+          payload: { data: "window" },
+          deduplicationId: "window",
+          deduplicationSeconds: 60,
+        });
+        await queue.run(false);
+
+        const second = await queue.addJob("simple-job", {
+          payload: { data: "no window" },
+          deduplicationId: "no-window",
+        });
+        const duplicate = await queue.addJob("simple-job", {
+          payload: { data: "window" },
+          deduplicationId: "window",
+          deduplicationSeconds: 60,
+        });
+
+        expect(second).not.toBe(first);
+        expect(duplicate).toBe(windowed);
+      });
+
+      it(`${config.name} should keep blocking duplicates while the job waits to be retried`, async () => {
+        queue.setHandlers({
+          "simple-job": async () => {},
+          "priority-job": async () => {},
+          "delayed-job": async () => {},
+          "failing-job": async () => {
+            throw new Error("Transient failure");
+          },
+        });
+
+        const id = await queue.addJob("failing-job", {
+          payload: { shouldFail: true },
+          deduplicationId: "retried",
+          maxAttempts: 2,
+          backoff: { type: "fixed", delaySeconds: 30 },
+        });
+        await queue.run(false);
+
+        const duplicate = await queue.addJob("failing-job", {
+          payload: { shouldFail: true },
+          deduplicationId: "retried",
+        });
+        expect(duplicate).toBe(id);
+      });
+
+      it(`${config.name} should forget deduplication IDs when the queue is cleared`, async () => {
+        const clearable = queue as unknown as { clear?: () => unknown };
+        // Not every driver can be cleared
+        if (!clearable.clear) return;
+
+        await queue.addJob("simple-job", {
+          payload: { data: "cleared" },
+          deduplicationId: "cleared",
+          deduplicationSeconds: 60,
+        });
+        await clearable.clear();
+
+        // A job is added again, rather than the ID of the cleared one returned
+        const added = await queue.addJob("simple-job", {
+          payload: { data: "cleared" },
+          deduplicationId: "cleared",
+        });
+        expect(await queue.inspectJob(added)).toMatchObject({ status: "waiting" });
+      });
+    });
+
+    describe("Extending Jobs", () => {
+      it(`${config.name} should not hand out an extended job again`, async () => {
+        let redelivered: unknown = "not checked";
+        queue.setHandlers({
+          "simple-job": async ({ extend }) => {
+            await extend(5);
+            await new Promise((resolve) => setTimeout(resolve, 2100));
+            redelivered = await queue["reserve"](0);
+          },
+          "priority-job": async () => {},
+          "delayed-job": async () => {},
+          "failing-job": async () => {},
+        });
+
+        const id = await queue.addJob("simple-job", {
+          payload: { data: "long" },
+          ttr: 1,
+        });
+        await queue.run(false);
+
+        expect(redelivered).toBeNull();
+        if (features.supportsStatus) {
+          expect(await queue.status(id)).toBe("done");
+        }
+      }, 10000);
+    });
+
+    describe("Rate Limiting", () => {
+      it(`${config.name} should keep jobs over the rate limit queued`, async () => {
+        const executed: string[] = [];
+        queue["rateLimits"] = { "simple-job": { max: 2, durationSeconds: 60 } };
+        queue.setHandlers({
+          "simple-job": async ({ payload }) => {
+            executed.push(payload.data);
+          },
+          "priority-job": async () => {},
+          "delayed-job": async () => {},
+          "failing-job": async () => {},
+        });
+
+        await queue.addJob("simple-job", { payload: { data: "first" } });
+        await queue.addJob("simple-job", { payload: { data: "second" } });
+        const id = await queue.addJob("simple-job", { payload: { data: "third" } });
+
+        await queue.run(false);
+
+        expect(executed).toEqual(["first", "second"]);
+        if (features.supportsStatus) {
+          expect(await queue.status(id)).toBe("delayed");
+        }
+      });
+
+      it(`${config.name} should apply the rate limit per key`, async () => {
+        const executed: string[] = [];
+        queue["rateLimits"] = {
+          "simple-job": {
+            max: 1,
+            durationSeconds: 60,
+            key: (payload) => payload.data.split(":")[0],
+          },
+        };
+        queue.setHandlers({
+          "simple-job": async ({ payload }) => {
+            executed.push(payload.data);
+          },
+          "priority-job": async () => {},
+          "delayed-job": async () => {},
+          "failing-job": async () => {},
+        });
+
+        await queue.addJob("simple-job", { payload: { data: "tenant-a:1" } });
+        await queue.addJob("simple-job", { payload: { data: "tenant-a:2" } });
+        await queue.addJob("simple-job", { payload: { data: "tenant-b:1" } });
+
+        await queue.run(false);
+
+        expect(executed).toEqual(["tenant-a:1", "tenant-b:1"]);
+      });
+    });
+
+    describe.skipIf(!features.supportsProgress)("Progress", () => {
+      it(`${config.name} should persist progress reported by handlers`, async () => {
+        const reported: unknown[] = [];
+        let id = "";
+
+        queue.setHandlers({
+          "simple-job": async ({ updateProgress }) => {
+            await updateProgress(50);
+            reported.push(await queue.getProgress(id));
+            await updateProgress({ step: "done", pages: 3 });
+            reported.push(await queue.getProgress(id));
+          },
+          "priority-job": async () => {},
+          "delayed-job": async () => {},
+          "failing-job": async () => {},
+        });
+
+        id = await queue.addJob("simple-job", { payload: { data: "report" } });
+        expect(await queue.getProgress(id)).toBeUndefined();
+
+        await queue.run(false);
+
+        expect(reported).toEqual([50, { step: "done", pages: 3 }]);
+      });
+    });
+
+    describe.skipIf(!features.supportsResults)("Results", () => {
+      it(`${config.name} should store handler results for awaitable jobs`, async () => {
+        queue.setHandlers({
+          "simple-job": async ({ payload }) => ({ echoed: payload.data }),
+          "priority-job": async () => {},
+          "delayed-job": async () => {},
+          "failing-job": async () => {
+            throw new Error("Intentional failure");
+          },
+        });
+
+        const job = await queue.addJob("simple-job", {
+          payload: { data: "result" },
+          handle: true,
+        });
+        const failing = await queue.addJob("failing-job", {
+          payload: { shouldFail: true },
+          handle: true,
+        });
+        expect(await job.result()).toBeUndefined();
+
+        await queue.run(false);
+
+        await expect(job.waitUntilFinished({ timeoutMs: 1000 })).resolves.toEqual({
+          echoed: "result",
+        });
+        await expect(
+          failing.waitUntilFinished({ timeoutMs: 1000 })
+        ).rejects.toMatchObject({
+          name: "QueueErrorJobFailed",
+          message: "Intentional failure",
+        });
+      });
+    });
+
+    describe.skipIf(!features.supportsCancellation)("Cancellation", () => {
+      it(`${config.name} should remove cancelled waiting jobs`, async () => {
+        const executed: string[] = [];
+        queue.setHandlers({
+          "simple-job": async ({ payload }) => {
+            executed.push(payload.data);
+          },
+          "priority-job": async () => {},
+          "delayed-job": async () => {},
+          "failing-job": async () => {},
+        });
+
+        const id = await queue.addJob("simple-job", {
+          payload: { data: "cancelled" },
+        });
+        await queue.addJob("simple-job", { payload: { data: "kept" } });
+
+        expect(await queue.cancel(id)).toBe("cancelled");
+        await queue.run(false);
+
+        expect(executed).toEqual(["kept"]);
+      });
+
+      it(`${config.name} should abort the handler of a cancelled reserved job`, async () => {
+        let reason: unknown;
+        let id = "";
+        const completed: string[] = [];
+        queue.on("afterExec", (event) => completed.push(event.id));
+
+        queue.setHandlers({
+          "simple-job": ({ signal }) =>
+            new Promise<void>((resolve) => {
+              signal.addEventListener("abort", () => {
+                reason = signal.reason;
+                resolve();
+              });
+              void queue.cancel(id);
+            }),
+          "priority-job": async () => {},
+          "delayed-job": async () => {},
+          "failing-job": async () => {},
+        });
+
+        id = await queue.addJob("simple-job", { payload: { data: "running" } });
+        await queue.run(false);
+
+        expect(reason).toBeInstanceOf(QueueErrorJobCancelled);
+        expect(completed).toEqual([]);
+        expect(await queue["reserve"](0)).toBeNull();
+        expect(await queue.cancel(id)).not.toBe("reserved");
+      });
+
+      // Drivers keeping failed jobs, the File driver forgets finished jobs
+      it.skipIf(!features.supportsResults)(
+        `${config.name} should report failed jobs as failed, also when cancelled`,
+        async () => {
+          queue.setHandlers({
+            "simple-job": async () => {},
+            "priority-job": async () => {},
+            "delayed-job": async () => {},
+            "failing-job": async () => {
+              throw new Error("Intentional failure");
+            },
+          });
+
+          const id = await queue.addJob("failing-job", {
+            payload: { shouldFail: true },
+          });
+          await queue.run(false);
+
+          expect(await queue.status(id)).toBe("failed");
+          expect(await queue.cancel(id)).toBe("failed");
+        }
+      );
+    });
+
+    describe.skipIf(!features.supportsFlows)("Flows", () => {
+      it(`${config.name} should run parents after their children with their results`, async () => {
+        const order: string[] = [];
+        let childrenResults: Record<string, unknown> = {};
+
+        queue.setHandlers({
+          "simple-job": async ({ payload }) => {
+            order.push(payload.data);
+            return payload.data.toUpperCase();
+          },
+          "priority-job": async ({ payload, getChildrenResults }) => {
+            order.push(payload.message);
+            childrenResults = await getChildrenResults();
+          },
+          "delayed-job": async () => {},
+          "failing-job": async () => {},
+        });
+
+        const flow = await queue.addFlow({
+          name: "priority-job",
+          payload: { message: "merge" },
+          children: [
+            { name: "simple-job", payload: { data: "page-1" } },
+            { name: "simple-job", payload: { data: "page-2" } },
+          ],
+        });
+        const [first, second] = flow.children;
+        assert(first && second);
+
+        if (features.supportsStatus) {
+          expect(await queue.status(flow.id)).toBe("waiting-children");
+        }
+
+        await queue.run(false);
+
+        expect(order).toEqual(["page-1", "page-2", "merge"]);
+        expect(childrenResults).toEqual({
+          [first.id]: "PAGE-1",
+          [second.id]: "PAGE-2",
+        });
+      });
+
+      it(`${config.name} should fail parents when a child fails`, async () => {
+        const parentHandler = vi.fn();
+        queue.setHandlers({
+          "simple-job": async () => {},
+          "priority-job": parentHandler,
+          "delayed-job": async () => {},
+          "failing-job": async () => {
+            throw new Error("Intentional failure");
+          },
+        });
+
+        const flow = await queue.addFlow({
+          name: "priority-job",
+          payload: { message: "merge" },
+          children: [
+            { name: "simple-job", payload: { data: "page-1" } },
+            { name: "failing-job", payload: { shouldFail: true } },
+          ],
+        });
+
+        await queue.run(false);
+
+        expect(parentHandler).not.toHaveBeenCalled();
+        expect(await queue["reserve"](0)).toBeNull();
+        expect(await queue.getJobResult(flow.id)).toEqual({
+          status: "failed",
+          error: `Child job ${flow.children[1]!.id} failed: Intentional failure`,
+        });
+      });
+
+      it(`${config.name} should cancel the jobs of a flow that couldn't be added`, async () => {
+        const pushMessage = queue["pushMessage"].bind(queue);
+        const pushed: string[] = [];
+        // The second child can't be added
+        vi.spyOn(queue as any, "pushMessage").mockImplementation(async (data: any, meta: any) => {
+          if (pushed.length === 2) throw new Error("Storage unavailable");
+          const id = await pushMessage(data, meta);
+          pushed.push(id);
+          return id;
+        });
+
+        await expect(
+          queue.addFlow({
+            name: "priority-job",
+            payload: { message: "merge" },
+            children: [
+              { name: "simple-job", payload: { data: "page-1" } },
+              { name: "simple-job", payload: { data: "page-2" } },
+            ],
+          })
+        ).rejects.toThrow("Error adding job to the queue");
+
+        expect(pushed).toHaveLength(2);
+        expect(await queue["reserve"](0)).toBeNull();
+        if (features.supportsStatus) {
+          for (const id of pushed) {
+            expect(await queue.status(id)).toBe("cancelled");
+          }
+        }
+      });
+    });
+
     // Status-specific tests (only for drivers that support status queries)
     describe.skipIf(!features.supportsStatus)("Status Queries", () => {
       it(`${config.name} should return correct job status`, async () => {
@@ -620,6 +1421,88 @@ describe.concurrent.each(configs)("Queue Driver: $name", (config) => {
         }
       );
     });
+
+    describe.skipIf(!features.supportsAdmin)("Admin", () => {
+      it(`${config.name} should count, list and inspect stored jobs`, async () => {
+        const first = await queue.addJob("simple-job", { payload: { data: "first" } });
+        await queue.addJob("priority-job", { payload: { message: "second" } });
+        const delayed = await queue.addJob("delayed-job", {
+          payload: { message: "later" },
+          delaySeconds: 60,
+        });
+
+        expect(await queue.countJobs()).toMatchObject({ waiting: 2, delayed: 1, reserved: 0 });
+
+        const waiting = await queue.listJobs({ status: "waiting" });
+        expect(waiting.map((job) => job.name)).toEqual(["simple-job", "priority-job"]);
+        expect(await queue.listJobs({ status: "waiting", limit: 1 })).toHaveLength(1);
+        const [next] = await queue.listJobs({ status: "waiting", limit: 1, after: first });
+        expect(next).toMatchObject({ name: "priority-job" });
+        const [delayedJob] = await queue.listJobs({ name: "delayed-job" });
+        expect(delayedJob).toMatchObject({ id: delayed, status: "delayed" });
+
+        expect(await queue.inspectJob(first)).toMatchObject({
+          id: first,
+          name: "simple-job",
+          status: "waiting",
+          payload: { data: "first" },
+          attempts: 0,
+          pushedAt: expect.any(Date),
+        });
+        expect(await queue.inspectJob("12345")).toBeUndefined();
+      });
+
+      it(`${config.name} should delete waiting jobs but not running ones`, async () => {
+        const waiting = await queue.addJob("simple-job", { payload: { data: "deleted" } });
+        const running = await queue.addJob("simple-job", { payload: { data: "running" } });
+
+        expect(await queue.removeJob(waiting)).toBe(true);
+        expect(await queue.removeJob(waiting)).toBe(false);
+
+        const reserved = await queue["reserve"](0);
+        expect(reserved?.id).toBe(running);
+        await expect(queue.removeJob(running)).rejects.toMatchObject({
+          name: "QueueErrorJobRunning",
+        });
+      });
+
+      it.skipIf(!features.supportsResults)(
+        `${config.name} should retry and purge failed jobs`,
+        async () => {
+          let fail = true;
+          queue.setHandlers({
+            "simple-job": async () => {},
+            "priority-job": async () => {},
+            "delayed-job": async () => {},
+            "failing-job": async () => {
+              if (fail) throw new Error("Intentional failure");
+            },
+          });
+
+          const retried = await queue.addJob("failing-job", { payload: { shouldFail: true } });
+          const purged = await queue.addJob("failing-job", { payload: { shouldFail: true } });
+          await queue.run(false);
+
+          const failed = await queue.listJobs({ status: "failed" });
+          expect(failed.map((job) => job.id)).toEqual([retried, purged]);
+          expect(failed[0]).toMatchObject({
+            name: "failing-job",
+            error: "Intentional failure",
+            attempts: 1,
+            finishedAt: expect.any(Date),
+          });
+
+          expect(await queue.retry(retried)).toBe(true);
+          expect(await queue.retry(retried)).toBe(false);
+          expect(await queue.purge("failed", new Date(Date.now() + 1000))).toBe(1);
+          expect(await queue.inspectJob(purged)).toBeUndefined();
+
+          fail = false;
+          await queue.run(false);
+          expect(await queue.countJobs()).toMatchObject({ done: 1, failed: 0 });
+        }
+      );
+    });
   });
   console.timeEnd(`${config.name} setup`);
 });
@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { FileBlobStore } from "../../src/blob-stores/file-store.ts";
+
+describe("FileBlobStore", () => {
+  let dir: string;
+  let store: FileBlobStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "blob-store-tests-"));
+    store = new FileBlobStore({ path: dir });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should store, read and delete blobs", async () => {
+    await store.put("a", "payload");
+    expect(await store.get("a")).toBe("payload");
+
+    await store.delete("a");
+    await expect(store.get("a")).rejects.toThrow();
+    // Deleting a missing blob is fine
+    await store.delete("a");
+  });
+
+  it("should keep expiring blobs readable until pruned after their expiry", async () => {
+    await store.put("past", "old");
+    await store.put("future", "new");
+    await store.expire("past", new Date(Date.now() - 1000));
+    await store.expire("future", new Date(Date.now() + 60_000));
+
+    expect(await store.get("past")).toBe("old");
+
+    await store.prune();
+    await expect(store.get("past")).rejects.toThrow();
+    expect(await store.get("future")).toBe("new");
+  });
+
+  it("should reject keys leaving the directory", async () => {
+    await expect(store.put("../escape", "x")).rejects.toThrow("Invalid blob key ../escape");
+  });
+});
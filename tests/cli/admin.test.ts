@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { EventEmitter } from "events";
+import { PassThrough } from "stream";
+import { promises as fs } from "fs";
+import path from "path";
+import os from "os";
+import Database from "better-sqlite3";
+import { runAdmin } from "../../src/cli/admin.ts";
+import type { CliIo } from "../../src/cli/io.ts";
+import { FileQueue } from "../../src/drivers/file.ts";
+import { SQLiteQueue } from "../../src/drivers/sqlite.ts";
+
+interface EmailJobs {
+  "send-email": { to: string };
+  "send-sms": { to: string };
+}
+
+function createIo() {
+  const stdout = new PassThrough();
+  const stderr = new PassThrough();
+  let output = "";
+  let errors = "";
+  stdout.on("data", (chunk) => (output += chunk));
+  stderr.on("data", (chunk) => (errors += chunk));
+  const io: CliIo = { stdout, stderr, signals: new EventEmitter() };
+  return { io, output: () => output, errors: () => errors };
+}
+
+async function admin(...args: string[]) {
+  const { io, output, errors } = createIo();
+  const code = await runAdmin(args, io);
+  return { code, output: output(), errors: errors() };
+}
+
+describe("adapter-queue admin", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "admin-cli-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe("with the SQLite driver", () => {
+    let database: Database.Database;
+    let queue: SQLiteQueue<EmailJobs>;
+    let driver: string[];
+
+    beforeEach(async () => {
+      const file = path.join(dir, "jobs.db");
+      database = new Database(file);
+      queue = new SQLiteQueue<EmailJobs>({ database, name: "emails" });
+      queue.setHandlers({
+        "send-email": async ({ payload }) => {
+          if (payload.to.startsWith("bounce")) throw new Error(`Mailbox ${payload.to} is full`);
+        },
+        "send-sms": async () => {},
+      });
+      driver = ["--driver", `sqlite://${file}`, "--queue", "emails"];
+
+      await queue.addJob("send-email", { payload: { to: "a@example.com" } });
+      await queue.addJob("send-email", { payload: { to: "bounce1@example.com" } });
+      await queue.addJob("send-sms", { payload: { to: "+15550100" } });
+      await queue.addJob("send-email", { payload: { to: "bounce2@example.com" } });
+      await queue.run(false);
+      await queue.addJob("send-email", { payload: { to: "b@example.com" } });
+    });
+
+    afterEach(() => {
+      database.close();
+    });
+
+    it("should print the counts and list jobs by status and name", async () => {
+      const stats = await admin("stats", ...driver);
+      expect(stats.output).toMatch(/^waiting +1\n/);
+      expect(stats.output).toMatch(/\ndone +2\n/);
+      expect(stats.output).toMatch(/\nfailed +2\n/);
+
+      const list = await admin("list", "--status", "failed", "--name", "send-email", ...driver);
+      const [header, ...rows] = list.output.trim().split("\n");
+      expect(header).toMatch(/^ID +STATUS +NAME +ATTEMPTS +PUSHED +FINISHED +ERROR$/);
+      expect(rows).toHaveLength(2);
+      expect(rows[0]).toMatch(/^2 +failed +send-email +1 +\S+ +\S+ +Mailbox bounce1@example.com is full$/);
+
+      const json = await admin("list", "--name", "send-sms", "--json", ...driver);
+      expect(JSON.parse(json.output)).toEqual([
+        expect.objectContaining({ id: "3", status: "done", payload: { to: "+15550100" } }),
+      ]);
+    });
+
+    it("should show a job and report unknown ones", async () => {
+      const shown = await admin("show", "2", ...driver);
+      expect(shown.code).toBe(0);
+      expect(JSON.parse(shown.output)).toMatchObject({
+        id: "2",
+        name: "send-email",
+        status: "failed",
+        payload: { to: "bounce1@example.com" },
+        error: "Mailbox bounce1@example.com is full",
+      });
+
+      const missing = await admin("show", "42", ...driver);
+      expect(missing.code).toBe(1);
+      expect(missing.errors).toBe("Job 42 not found\n");
+    });
+
+    it("should retry one or every failed job", async () => {
+      expect((await admin("retry", "2", ...driver)).output).toBe("Retried job 2\n");
+      const again = await admin("retry", "2", ...driver);
+      expect(again.code).toBe(1);
+
+      expect((await admin("retry", "--all-failed", ...driver)).output).toBe(
+        "Retried 1 failed jobs\n"
+      );
+      expect(await queue.countJobs()).toMatchObject({ waiting: 3, failed: 0 });
+    });
+
+    it("should delete jobs and purge old finished ones", async () => {
+      expect((await admin("delete", "5", ...driver)).output).toBe("Deleted job 5\n");
+      expect((await admin("delete", "5", ...driver)).code).toBe(1);
+
+      expect(
+        (await admin("purge", "--status", "done", "--older-than", "1h", ...driver)).output
+      ).toBe("Purged 0 done jobs\n");
+      database.prepare("UPDATE jobs SET done_time = done_time - 8 * 86400000").run();
+      expect(
+        (await admin("purge", "--status", "done", "--older-than", "7d", ...driver)).output
+      ).toBe("Purged 2 done jobs\n");
+
+      expect(await queue.countJobs()).toMatchObject({ waiting: 0, done: 0, failed: 2 });
+    });
+
+    it("should move a job to another queue of the database", async () => {
+      const moved = await admin("move", "2", "--to", "emails-retry", ...driver);
+      expect(moved.output).toBe("Moved job 2 to emails-retry as job 6\n");
+
+      const target = new SQLiteQueue<EmailJobs>({ database, name: "emails-retry" });
+      expect(await target.listJobs()).toEqual([
+        expect.objectContaining({ status: "waiting", payload: { to: "bounce1@example.com" } }),
+      ]);
+      expect(await queue.inspectJob("2")).toBeUndefined();
+    });
+  });
+
+  describe("with the file driver", () => {
+    it("should move waiting jobs to a queue in another directory", async () => {
+      const source = new FileQueue<EmailJobs>({ name: "emails", path: path.join(dir, "emails") });
+      await source.addJob("send-email", { payload: { to: "a@example.com" } });
+      const target = path.join(dir, "retries");
+
+      const moved = await admin(
+        "move",
+        "1",
+        "--to",
+        `file://${target}`,
+        "--driver",
+        `file://${dir}/emails`
+      );
+
+      expect(moved.output).toBe(`Moved job 1 to file://${target} as job 1\n`);
+      expect(await source.countJobs()).toMatchObject({ waiting: 0 });
+      const [job] = await new FileQueue({ name: "emails", path: target }).listJobs();
+      expect(job).toMatchObject({ name: "send-email", payload: { to: "a@example.com" } });
+    });
+  });
+
+  it("should reject invalid commands and options", async () => {
+    const driver = ["--driver", `file://${dir}`];
+    for (const args of [
+      [],
+      ["stats"],
+      ["unknown", ...driver],
+      ["list", "--status", "lost", ...driver],
+      ["list", "--limit", "0", ...driver],
+      ["show", ...driver],
+      ["delete", "1", "2", ...driver],
+      ["delete", "--all-failed", ...driver],
+      ["purge", "--status", "waiting", "--older-than", "7d", ...driver],
+      ["purge", "--status", "done", "--older-than", "a week", ...driver],
+      ["move", "1", "--to", "other", ...driver],
+    ]) {
+      await expect(admin(...args)).rejects.toThrow(
+        expect.objectContaining({ name: "QueueErrorUsage" })
+      );
+    }
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { createQueueFromUrl } from "../../src/cli/driver-url.ts";
+import { TestSQSClient } from "../mocks/test-sqs-client.ts";
+
+const queueUrl = "https://sqs.eu-west-1.amazonaws.com/123456789012/emails";
+
+/**
+ * Creates a queue from an SQS URL, talking to an in-memory SQS instead of AWS.
+ */
+async function createSqsQueue(url: string) {
+  const connection = await createQueueFromUrl(url, { name: "emails" });
+  const client = new TestSQSClient();
+  (connection.queue as any).client = client;
+  connection.queue.setHandlers({
+    "send-email": async () => {
+      throw new Error("Mailbox unavailable");
+    },
+  });
+  return { ...connection, client };
+}
+
+describe("createQueueFromUrl", () => {
+  it("should leave failed SQS messages in the queue by default", async () => {
+    const { queue, client, close } = await createSqsQueue(queueUrl);
+    await queue.addJob("send-email", { payload: {} });
+
+    await queue.run(false);
+
+    expect(client.deletedMessages).toHaveLength(0);
+    expect(client.getAllMessages()).toHaveLength(1);
+    await close();
+  });
+
+  it("should delete failed SQS messages with onFailure=delete", async () => {
+    const { queue, client, close } = await createSqsQueue(`${queueUrl}?onFailure=delete`);
+    await queue.addJob("send-email", { payload: {} });
+
+    await queue.run(false);
+
+    expect(client.deletedMessages).toHaveLength(1);
+    expect(client.getAllMessages()).toHaveLength(0);
+    await close();
+  });
+});
@@ -0,0 +1,10 @@
+// Worker module exporting handlers, run with a driver URL
+export const processed: string[] = [];
+
+export const name = "emails";
+
+export const handlers = {
+  "send-email": async ({ payload }: { payload: { to: string } }) => {
+    processed.push(payload.to);
+  },
+};
@@ -0,0 +1,15 @@
+// Worker module exporting a configured queue
+import { InMemoryQueue } from "../../../src/drivers/memory.ts";
+
+export const processed: string[] = [];
+
+export const queue = new InMemoryQueue<{ "send-email": { to: string; delayMs?: number } }>({
+  name: "emails",
+});
+
+queue.setHandlers({
+  "send-email": async ({ payload }) => {
+    await new Promise((resolve) => setTimeout(resolve, payload.delayMs ?? 0));
+    processed.push(payload.to);
+  },
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { EventEmitter } from "events";
+import { PassThrough } from "stream";
+import { promises as fs } from "fs";
+import path from "path";
+import os from "os";
+import { runWorker } from "../../src/cli/worker.ts";
+import type { CliIo } from "../../src/cli/io.ts";
+import { FileQueue } from "../../src/drivers/file.ts";
+import * as handlersModule from "./fixtures/handlers.ts";
+import * as queueModule from "./fixtures/queue.ts";
+
+const handlersPath = path.join(__dirname, "fixtures/handlers.ts");
+const queuePath = path.join(__dirname, "fixtures/queue.ts");
+
+function createIo() {
+  const stdout = new PassThrough();
+  let output = "";
+  stdout.on("data", (chunk) => (output += chunk));
+  const io: CliIo = { stdout, stderr: new PassThrough(), signals: new EventEmitter() };
+  return { io, output: () => output };
+}
+
+describe("adapter-queue worker", () => {
+  beforeEach(() => {
+    handlersModule.processed.length = 0;
+    queueModule.processed.length = 0;
+  });
+
+  describe("with a handlers module", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), "worker-cli-"));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it("should process the jobs of the driver URL once", async () => {
+      const producer = new FileQueue({ name: "emails", path: dir });
+      await producer.addJob("send-email", { payload: { to: "a@example.com" } });
+      await producer.addJob("send-email", { payload: { to: "b@example.com" } });
+      const { io, output } = createIo();
+
+      const code = await runWorker(
+        [handlersPath, "--driver", `file://${dir}`, "--once", "--log-format", "json"],
+        io
+      );
+
+      expect(code).toBe(0);
+      expect(handlersModule.processed).toEqual(["a@example.com", "b@example.com"]);
+      const lines = output().trim().split("\n").map((line) => JSON.parse(line));
+      expect(lines.map((line) => line.message)).toEqual([
+        "Worker started",
+        "Job started",
+        "Job completed",
+        "Job started",
+        "Job completed",
+        "Worker stopped",
+      ]);
+      expect(lines[2]).toMatchObject({
+        level: "info",
+        queue: "emails",
+        id: "1",
+        job: "send-email",
+        durationMs: expect.any(Number),
+      });
+    });
+
+    it("should need a driver URL", async () => {
+      await expect(runWorker([handlersPath], createIo().io)).rejects.toThrow(
+        expect.objectContaining({ name: "QueueErrorUsage" })
+      );
+    });
+  });
+
+  describe("with a queue module", () => {
+    it("should stop after --max-jobs jobs", async () => {
+      for (const to of ["a", "b", "c"]) {
+        await queueModule.queue.addJob("send-email", { payload: { to } });
+      }
+      const { io, output } = createIo();
+
+      const code = await runWorker([queuePath, "--max-jobs", "2", "--timeout", "0"], io);
+
+      expect(code).toBe(0);
+      expect(queueModule.processed).toEqual(["a", "b"]);
+      expect(output()).toMatch(/INFO \[emails\] Stopping worker reason=max-jobs\n/);
+      queueModule.queue.clear();
+    });
+
+    it("should stop gracefully on the first signal", async () => {
+      await queueModule.queue.addJob("send-email", { payload: { to: "a", delayMs: 50 } });
+      const { io } = createIo();
+
+      const done = runWorker([queuePath, "--timeout", "0"], io);
+      await new Promise((resolve) => queueModule.queue.once("beforeExec", resolve));
+      io.signals.emit("SIGTERM", "SIGTERM");
+
+      expect(await done).toBe(0);
+      expect(queueModule.processed).toEqual(["a"]);
+    });
+
+    it("should exit right away on the second signal", async () => {
+      await queueModule.queue.addJob("send-email", { payload: { to: "a", delayMs: 500 } });
+      const { io } = createIo();
+
+      const done = runWorker([queuePath, "--timeout", "0"], io);
+      await new Promise((resolve) => queueModule.queue.once("beforeExec", resolve));
+      io.signals.emit("SIGINT", "SIGINT");
+      io.signals.emit("SIGINT", "SIGINT");
+
+      expect(await done).toBe(130);
+      expect(queueModule.processed).toEqual([]);
+      await queueModule.queue.stop();
+    });
+
+    it("should reject invalid options", async () => {
+      for (const args of [
+        [queuePath, "--concurrency", "0"],
+        [queuePath, "--log-format", "xml"],
+        [queuePath, "--driver", "file:///tmp"],
+        [queuePath, "--unknown"],
+        [],
+      ]) {
+        await expect(runWorker(args, createIo().io)).rejects.toThrow(
+          expect.objectContaining({ name: "QueueErrorUsage" })
+        );
+      }
+    });
+  });
+});
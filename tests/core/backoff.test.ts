@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { computeBackoff } from "../../src/core/backoff.ts";
+
+describe("computeBackoff", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should retry immediately without a policy", () => {
+    expect(computeBackoff(undefined, 3, new Error())).toBe(0);
+  });
+
+  it("should return the same delay for a fixed policy", () => {
+    const policy = { type: "fixed", delaySeconds: 5 } as const;
+    expect(computeBackoff(policy, 1, new Error())).toBe(5);
+    expect(computeBackoff(policy, 4, new Error())).toBe(5);
+  });
+
+  it("should double the delay for an exponential policy", () => {
+    const policy = { type: "exponential", delaySeconds: 2 } as const;
+    expect(computeBackoff(policy, 1, new Error())).toBe(2);
+    expect(computeBackoff(policy, 2, new Error())).toBe(4);
+    expect(computeBackoff(policy, 3, new Error())).toBe(8);
+  });
+
+  it("should cap exponential delays with maxDelaySeconds", () => {
+    const policy = {
+      type: "exponential",
+      delaySeconds: 10,
+      maxDelaySeconds: 30,
+    } as const;
+    expect(computeBackoff(policy, 5, new Error())).toBe(30);
+  });
+
+  it("should randomize exponential delays with jitter", () => {
+    const policy = {
+      type: "exponential",
+      delaySeconds: 4,
+      jitter: true,
+    } as const;
+
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(computeBackoff(policy, 2, new Error())).toBe(4);
+
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    expect(computeBackoff(policy, 2, new Error())).toBe(6);
+  });
+
+  it("should call custom backoff functions with attempt and error", () => {
+    const error = new Error("503");
+    const policy = vi.fn(() => 7);
+    expect(computeBackoff(policy, 2, error)).toBe(7);
+    expect(policy).toHaveBeenCalledWith(2, error);
+  });
+
+  it("should never return negative delays", () => {
+    expect(computeBackoff(() => -10, 1, undefined)).toBe(0);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import {
+  compressPayload,
+  decompressPayload,
+} from "../../src/core/compression.ts";
+
+const large = JSON.stringify({ text: "repeated text ".repeat(200) });
+
+describe("compressPayload", () => {
+  it.each(["gzip", "brotli"] as const)("should round-trip with %s", async (algorithm) => {
+    const compressed = await compressPayload(large, { algorithm });
+
+    expect(compressed).toBeDefined();
+    expect(compressed!.length).toBeLessThan(large.length);
+    expect(await decompressPayload(compressed!, algorithm)).toBe(large);
+  });
+
+  it("should leave payloads below the threshold uncompressed", async () => {
+    expect(await compressPayload('{"a":1}', {})).toBeUndefined();
+    expect(await compressPayload(large, { thresholdBytes: large.length + 1 })).toBeUndefined();
+    expect(await compressPayload('{"a":1}', { thresholdBytes: 0 })).toBeUndefined();
+  });
+
+  it("should reject unknown algorithms", async () => {
+    await expect(decompressPayload("", "zstd")).rejects.toThrow(
+      "Unknown compression algorithm zstd"
+    );
+  });
+});
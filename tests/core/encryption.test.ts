@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { randomBytes } from "crypto";
+import {
+  decryptPayload,
+  encryptPayload,
+} from "../../src/core/encryption.ts";
+
+const key = randomBytes(32);
+
+describe("encryptPayload", () => {
+  it("should round-trip payloads", () => {
+    const data = JSON.stringify({ email: "user@example.com" });
+    const encrypted = encryptPayload(data, key, "emails");
+
+    expect(encrypted).not.toContain("user@example.com");
+    expect(decryptPayload(encrypted, key, "emails")).toBe(data);
+  });
+
+  it("should use a random IV for every payload", () => {
+    expect(encryptPayload("same", key, "emails")).not.toBe(encryptPayload("same", key, "emails"));
+  });
+
+  it("should reject the wrong key and tampered data", () => {
+    const encrypted = encryptPayload("secret", key, "emails");
+    expect(() => decryptPayload(encrypted, randomBytes(32), "emails")).toThrow();
+
+    const tampered = Buffer.from(encrypted, "base64");
+    tampered[tampered.length - 1]! ^= 1;
+    expect(() => decryptPayload(tampered.toString("base64"), key, "emails")).toThrow();
+    expect(() => decryptPayload(encrypted, key, "invoices")).toThrow();
+    expect(() => decryptPayload("c2hvcnQ=", key, "emails")).toThrow("Encrypted payload is too short");
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from "vitest";
+import { InMemoryQueue } from "../../src/drivers/memory.ts";
+import { QueueManager } from "../../src/core/queue-manager.ts";
+import type { QueuePlugin } from "../../src/interfaces/plugin.ts";
+
+interface TestJobs {
+  "test-job": { fail?: boolean };
+}
+
+function createQueue(name: string) {
+  const queue = new InMemoryQueue<TestJobs>({ name });
+  const state = { active: 0, maxActive: 0 };
+  queue.setHandlers({
+    "test-job": async ({ payload }) => {
+      state.active++;
+      state.maxActive = Math.max(state.maxActive, state.active);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      state.active--;
+      if (payload.fail) throw new Error("boom");
+    },
+  });
+  return { queue, state };
+}
+
+describe("QueueManager", () => {
+  it("should run every queue with its own concurrency", async () => {
+    const emails = createQueue("emails");
+    const images = createQueue("images");
+    for (let i = 0; i < 4; i++) {
+      await emails.queue.addJob("test-job", { payload: {} });
+      await images.queue.addJob("test-job", { payload: {} });
+    }
+    await images.queue.addJob("test-job", { payload: { fail: true } });
+
+    const manager = new QueueManager()
+      .register(emails.queue, { concurrency: 3, timeout: 0 })
+      .register(images.queue, { timeout: 0 });
+    await manager.startAll({ repeat: false });
+
+    expect(emails.state.maxActive).toBe(3);
+    expect(images.state.maxActive).toBe(1);
+    expect(manager.stats()).toEqual({
+      queues: [
+        { name: "emails", running: false, active: 0, completed: 4, failed: 0, retried: 0, stalled: 0 },
+        { name: "images", running: false, active: 0, completed: 4, failed: 1, retried: 0, stalled: 0 },
+      ],
+      totals: { running: 0, active: 0, completed: 8, failed: 1, retried: 0, stalled: 0 },
+    });
+  });
+
+  it("should stop every queue and then dispose shared plugins once", async () => {
+    const calls: string[] = [];
+    const plugin: QueuePlugin = {
+      init: vi.fn(async ({ queues }) => {
+        calls.push(`init ${queues?.map((queue) => queue.name).join(",")}`);
+        return async () => {
+          calls.push("dispose");
+        };
+      }),
+      beforeJob: async (job) => {
+        calls.push(`job ${job.id}`);
+      },
+    };
+    const emails = createQueue("emails");
+    const images = createQueue("images");
+    await emails.queue.addJob("test-job", { payload: {} });
+
+    const manager = new QueueManager({ plugins: [plugin] })
+      .register(emails.queue, { timeout: 0 })
+      .register(images.queue, { timeout: 0 });
+    const started = manager.startAll();
+    await vi.waitFor(() => expect(manager.stats().totals.completed).toBe(1));
+    expect(manager.stats().totals.running).toBe(2);
+
+    await manager.stopAll();
+    await started;
+
+    expect(plugin.init).toHaveBeenCalledTimes(1);
+    expect(calls).toEqual(["init emails,images", "job 1", "dispose"]);
+    expect(emails.queue.isRunning).toBe(false);
+    expect(images.queue.isRunning).toBe(false);
+    expect(manager.isRunning).toBe(false);
+  });
+
+  it("should stop the queues one at a time in reverse registration order", async () => {
+    const stops: string[] = [];
+    const emails = createQueue("emails");
+    const images = createQueue("images");
+    const reports = createQueue("reports");
+    const runningAtDispose: string[] = [];
+    const plugin: QueuePlugin = {
+      init: async ({ queues }) => async () => {
+        for (const queue of queues ?? []) {
+          if (queue.isRunning) runningAtDispose.push(queue.name);
+        }
+      },
+    };
+    for (const { queue } of [emails, images, reports]) {
+      const stop = queue.stop.bind(queue);
+      vi.spyOn(queue, "stop").mockImplementation(async (options) => {
+        stops.push(`stopping ${queue.name}`);
+        await stop(options);
+        stops.push(`stopped ${queue.name}`);
+      });
+    }
+
+    const manager = new QueueManager({ plugins: [plugin] })
+      .register(emails.queue, { timeout: 0 })
+      .register(images.queue, { timeout: 0 })
+      .register(reports.queue, { timeout: 0 });
+    const started = manager.startAll();
+    await vi.waitFor(() => expect(manager.stats().totals.running).toBe(3));
+
+    await manager.stopAll();
+    await started;
+
+    expect(stops).toEqual([
+      "stopping reports",
+      "stopped reports",
+      "stopping images",
+      "stopped images",
+      "stopping emails",
+      "stopped emails",
+    ]);
+    expect(runningAtDispose).toEqual([]);
+  });
+
+  it("should stop the other queues when one fails", async () => {
+    const emails = createQueue("emails");
+    // Without handlers its worker fails right away
+    const images = new InMemoryQueue<TestJobs>({ name: "images" });
+
+    const manager = new QueueManager()
+      .register(emails.queue, { timeout: 0 })
+      .register(images, { timeout: 0 });
+
+    await expect(manager.startAll()).rejects.toThrow("Handlers must be registered");
+    expect(emails.queue.isRunning).toBe(false);
+  });
+
+  it("should reject queues with the same name or registered while running", async () => {
+    const manager = new QueueManager().register(createQueue("emails").queue);
+
+    expect(() => manager.register(createQueue("emails").queue)).toThrow(
+      expect.objectContaining({ name: "QueueErrorDuplicateQueue" })
+    );
+
+    const started = manager.startAll();
+    expect(() => manager.register(createQueue("images").queue)).toThrow(
+      expect.objectContaining({ name: "QueueErrorManagerRunning" })
+    );
+    await manager.stopAll({ timeoutMs: 1000 });
+    await started;
+  });
+});
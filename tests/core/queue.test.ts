@@ -1,10 +1,23 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
-import { Queue, QueueError } from "../../src/core/queue.ts";
+import { randomBytes } from "crypto";
+import {
+  Queue,
+  QueueError,
+  QueueErrorTimeout,
+  QueueErrorJobCancelled,
+  QueueErrorValidation,
+  JobHandle,
+} from "../../src/core/queue.ts";
 import type {
   JobMeta,
   QueueMessage,
   JobRequestFull,
+  JobResult,
 } from "../../src/interfaces/job.ts";
+import type { StandardSchemaV1 } from "../../src/interfaces/schema.ts";
+import { typedJsonSerializer } from "../../src/serializers/json.ts";
+import { msgpackSerializer } from "../../src/serializers/msgpack.ts";
+import type { BlobStore } from "../../src/interfaces/blob-store.ts";
 
 interface TestJobs {
   "test-job": { data: string };
@@ -15,7 +28,11 @@ interface TestJobs {
 
 class TestQueue extends Queue<TestJobs, JobRequestFull<any>> {
   public messages: Array<QueueMessage> = [];
-  public completedJobs: Array<{ id: string; message: QueueMessage }> = [];
+  public completedJobs: Array<{
+    id: string;
+    message: QueueMessage;
+    result?: unknown;
+  }> = [];
   public failedJobs: Array<{
     id: string;
     message: QueueMessage;
@@ -43,8 +60,11 @@ class TestQueue extends Queue<TestJobs, JobRequestFull<any>> {
     return message;
   }
 
-  protected async completeJob(message: QueueMessage): Promise<void> {
-    this.completedJobs.push({ id: message.id, message });
+  protected async completeJob(
+    message: QueueMessage,
+    result?: unknown
+  ): Promise<void> {
+    this.completedJobs.push({ id: message.id, message, result });
   }
 
   protected async failJob(
@@ -593,4 +613,1794 @@ describe("Queue", () => {
       expect(failHandler).toHaveBeenCalledTimes(1);
     });
   });
+
+  describe("concurrency", () => {
+    function trackingHandler(delayMs: number) {
+      const state = { active: 0, maxActive: 0, calls: 0 };
+      const handler = async () => {
+        state.calls++;
+        state.active++;
+        state.maxActive = Math.max(state.maxActive, state.active);
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+        state.active--;
+      };
+      return { handler, state };
+    }
+
+    it("should process jobs sequentially by default", async () => {
+      const { handler, state } = trackingHandler(20);
+      queue.setHandlers({
+        "test-job": handler,
+        "math-job": vi.fn(),
+        "success-job": vi.fn(),
+        "fail-job": vi.fn(),
+      });
+
+      for (let i = 0; i < 4; i++) {
+        await queue.addJob("test-job", { payload: { data: `job ${i}` } });
+      }
+
+      await queue.run(false, 0);
+
+      expect(state.calls).toBe(4);
+      expect(state.maxActive).toBe(1);
+      expect(queue.completedJobs).toHaveLength(4);
+    });
+
+    it("should keep up to `concurrency` jobs in flight", async () => {
+      const concurrentQueue = new TestQueue({ concurrency: 3 });
+      const { handler, state } = trackingHandler(50);
+      concurrentQueue.setHandlers({
+        "test-job": handler,
+        "math-job": vi.fn(),
+        "success-job": vi.fn(),
+        "fail-job": vi.fn(),
+      });
+
+      for (let i = 0; i < 7; i++) {
+        await concurrentQueue.addJob("test-job", {
+          payload: { data: `job ${i}` },
+        });
+      }
+
+      await concurrentQueue.run(false, 0);
+
+      expect(state.calls).toBe(7);
+      expect(state.maxActive).toBe(3);
+      expect(concurrentQueue.completedJobs).toHaveLength(7);
+    });
+
+    it("should allow overriding concurrency per run", async () => {
+      const { handler, state } = trackingHandler(30);
+      queue.setHandlers({
+        "test-job": handler,
+        "math-job": vi.fn(),
+        "success-job": vi.fn(),
+        "fail-job": vi.fn(),
+      });
+
+      for (let i = 0; i < 4; i++) {
+        await queue.addJob("test-job", { payload: { data: `job ${i}` } });
+      }
+
+      await queue.run(false, 0, { concurrency: 2 });
+
+      expect(state.maxActive).toBe(2);
+      expect(queue.completedJobs).toHaveLength(4);
+    });
+
+    it("should call plugin hooks and complete/fail each job", async () => {
+      const beforeJob = vi.fn(async () => {});
+      const afterJob = vi.fn(async () => {});
+      const beforePoll = vi.fn(async () => "continue" as const);
+      const concurrentQueue = new TestQueue({
+        concurrency: 4,
+        plugins: [{ beforeJob, afterJob, beforePoll }],
+      });
+      const error = new Error("boom");
+      concurrentQueue.setHandlers({
+        "test-job": vi.fn(),
+        "math-job": vi.fn(),
+        "success-job": async () => {
+          await new Promise((resolve) => setTimeout(resolve, 20));
+        },
+        "fail-job": async () => {
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          throw error;
+        },
+      });
+
+      await concurrentQueue.addJob("success-job", { payload: { data: "1" } });
+      await concurrentQueue.addJob("fail-job", { payload: { data: "2" } });
+      await concurrentQueue.addJob("success-job", { payload: { data: "3" } });
+
+      await concurrentQueue.run(false, 0);
+
+      expect(beforeJob).toHaveBeenCalledTimes(3);
+      expect(afterJob).toHaveBeenCalledTimes(3);
+      expect(afterJob).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "2" }),
+        error
+      );
+      // One poll per reserved job plus the final empty poll
+      expect(beforePoll).toHaveBeenCalledTimes(4);
+      expect(concurrentQueue.completedJobs.map((j) => j.id).sort()).toEqual([
+        "1",
+        "3",
+      ]);
+      expect(concurrentQueue.failedJobs.map((j) => j.id)).toEqual(["2"]);
+    });
+
+    it("should wait for in-flight jobs before disposing plugins", async () => {
+      const events: string[] = [];
+      const concurrentQueue = new TestQueue({
+        concurrency: 2,
+        plugins: [
+          {
+            async init() {
+              return async () => {
+                events.push("dispose");
+              };
+            },
+          },
+        ],
+      });
+      concurrentQueue.setHandlers({
+        "test-job": async ({ payload }) => {
+          await new Promise((resolve) => setTimeout(resolve, 30));
+          events.push(`done ${payload.data}`);
+        },
+        "math-job": vi.fn(),
+        "success-job": vi.fn(),
+        "fail-job": vi.fn(),
+      });
+
+      await concurrentQueue.addJob("test-job", { payload: { data: "a" } });
+      await concurrentQueue.addJob("test-job", { payload: { data: "b" } });
+
+      await concurrentQueue.run(false, 0);
+
+      expect(events).toEqual(["done a", "done b", "dispose"]);
+    });
+  });
+
+  describe("graceful stop", () => {
+    const handlers = {
+      "test-job": vi.fn(),
+      "math-job": vi.fn(),
+      "success-job": vi.fn(),
+      "fail-job": vi.fn(),
+    };
+
+    it("should resolve immediately when the queue is not running", async () => {
+      await expect(queue.stop()).resolves.toBeUndefined();
+      expect(queue.isRunning).toBe(false);
+    });
+
+    it("should interrupt the poll sleep and exit the loop", async () => {
+      queue.setHandlers(handlers);
+
+      const running = queue.run(true, 5);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(queue.isRunning).toBe(true);
+
+      const start = Date.now();
+      await queue.stop();
+      await running;
+
+      expect(Date.now() - start).toBeLessThan(200);
+      expect(queue.isRunning).toBe(false);
+    });
+
+    it("should wait for in-flight jobs and dispose plugins", async () => {
+      const events: string[] = [];
+      const stoppingQueue = new TestQueue({
+        concurrency: 2,
+        plugins: [
+          {
+            async init() {
+              return async () => {
+                events.push("dispose");
+              };
+            },
+          },
+        ],
+      });
+      stoppingQueue.setHandlers({
+        ...handlers,
+        "test-job": async ({ payload }) => {
+          await new Promise((resolve) => setTimeout(resolve, 50));
+          events.push(`done ${payload.data}`);
+        },
+      });
+
+      await stoppingQueue.addJob("test-job", { payload: { data: "a" } });
+      await stoppingQueue.addJob("test-job", { payload: { data: "b" } });
+
+      const running = stoppingQueue.run(true, 0);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      await stoppingQueue.stop();
+      events.push("stopped");
+      await running;
+
+      expect(events).toEqual(["done a", "done b", "dispose", "stopped"]);
+      expect(stoppingQueue.completedJobs).toHaveLength(2);
+    });
+
+    it("should stop when the run signal is aborted", async () => {
+      queue.setHandlers(handlers);
+      const controller = new AbortController();
+
+      const running = queue.run(true, 5, { signal: controller.signal });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      controller.abort();
+
+      await expect(running).resolves.toBeUndefined();
+      expect(queue.isRunning).toBe(false);
+    });
+
+    it("should not process jobs when the signal is already aborted", async () => {
+      const handler = vi.fn();
+      queue.setHandlers({ ...handlers, "test-job": handler });
+      await queue.addJob("test-job", { payload: { data: "never" } });
+
+      await queue.run(true, 0, { signal: AbortSignal.abort() });
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(queue.messages).toHaveLength(1);
+    });
+
+    it("should reject with QueueErrorStopTimeout when jobs take too long", async () => {
+      let finish!: () => void;
+      queue.setHandlers({
+        ...handlers,
+        "test-job": () => new Promise<void>((resolve) => (finish = resolve)),
+      });
+      await queue.addJob("test-job", { payload: { data: "slow" } });
+
+      const running = queue.run(true, 0);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      await expect(queue.stop({ timeoutMs: 20 })).rejects.toMatchObject({
+        name: "QueueErrorStopTimeout",
+      });
+      expect(queue.isRunning).toBe(true);
+
+      finish();
+      await running;
+      expect(queue.completedJobs).toHaveLength(1);
+    });
+  });
+
+  describe("retries", () => {
+    function failingHandlers(failTimes: number) {
+      const attempts: Array<number | undefined> = [];
+      const handler = vi.fn(async ({ meta }: { meta: JobMeta }) => {
+        attempts.push(meta.attempt);
+        if (attempts.length <= failTimes) {
+          throw new Error(`failure ${attempts.length}`);
+        }
+      });
+      return {
+        attempts,
+        handler,
+        handlers: {
+          "test-job": handler,
+          "math-job": vi.fn(),
+          "success-job": vi.fn(),
+          "fail-job": vi.fn(),
+        },
+      };
+    }
+
+    it("should fail jobs permanently by default", async () => {
+      const { handlers, handler } = failingHandlers(1);
+      queue.setHandlers(handlers);
+
+      await queue.addJob("test-job", { payload: { data: "once" } });
+      await queue.run(false, 0);
+
+      expect(handler).toHaveBeenCalledOnce();
+      expect(queue.failedJobs).toHaveLength(1);
+    });
+
+    it("should retry until the job succeeds", async () => {
+      const retryQueue = new TestQueue({ maxAttempts: 3 });
+      const { handlers, attempts } = failingHandlers(2);
+      retryQueue.setHandlers(handlers);
+
+      await retryQueue.addJob("test-job", { payload: { data: "retry" } });
+      await retryQueue.run(false, 0);
+
+      expect(attempts).toEqual([undefined, 2, 3]);
+      expect(retryQueue.failedJobs).toHaveLength(0);
+      // The base retryJob completes the failed copy and pushes a new one
+      expect(retryQueue.completedJobs).toHaveLength(3);
+    });
+
+    it("should fail the job once attempts are used up", async () => {
+      const retryQueue = new TestQueue({ maxAttempts: 2 });
+      const { handlers, handler } = failingHandlers(5);
+      retryQueue.setHandlers(handlers);
+
+      await retryQueue.addJob("test-job", { payload: { data: "retry" } });
+      await retryQueue.run(false, 0);
+
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(retryQueue.failedJobs).toHaveLength(1);
+      expect((retryQueue.failedJobs[0]?.error as Error).message).toBe(
+        "failure 2"
+      );
+    });
+
+    it("should apply the backoff delay to the retried job", async () => {
+      const retryQueue = new TestQueue({
+        maxAttempts: 3,
+        backoff: { type: "exponential", delaySeconds: 10 },
+      });
+      const { handlers } = failingHandlers(1);
+      retryQueue.setHandlers(handlers);
+
+      await retryQueue.addJob("test-job", { payload: { data: "retry" } });
+      const message = await retryQueue["reserve"](0);
+      await retryQueue["processMessage"]({
+        ...message!,
+        meta: { ...message!.meta, attempt: 2 },
+      });
+
+      expect(retryQueue.messages[0]?.meta.delaySeconds).toBe(20);
+      expect(retryQueue.messages[0]?.meta.attempt).toBe(3);
+    });
+
+    it("should prefer job options over job name and queue settings", async () => {
+      const retryQueue = new TestQueue({
+        maxAttempts: 5,
+        backoff: { type: "fixed", delaySeconds: 1 },
+        jobOptions: {
+          "test-job": { maxAttempts: 3, backoff: () => 2 },
+        },
+      });
+      const error = new Error("boom");
+
+      const fromQueue = retryQueue["getRetryDelay"](
+        { id: "1", payload: {}, meta: { name: "math-job", attempt: 4 } },
+        error
+      );
+      const fromJobName = retryQueue["getRetryDelay"](
+        { id: "2", payload: {}, meta: { name: "test-job", attempt: 2 } },
+        error
+      );
+      const exhausted = retryQueue["getRetryDelay"](
+        { id: "3", payload: {}, meta: { name: "test-job", attempt: 3 } },
+        error
+      );
+      const fromJob = retryQueue["getRetryDelay"](
+        {
+          id: "4",
+          payload: {},
+          meta: {
+            name: "test-job",
+            attempt: 3,
+            maxAttempts: 4,
+            backoff: { type: "fixed", delaySeconds: 9 },
+          },
+        },
+        error
+      );
+
+      expect(fromQueue).toBe(1);
+      expect(fromJobName).toBe(2);
+      expect(exhausted).toBeNull();
+      expect(fromJob).toBe(9);
+    });
+
+    it("should store retry options passed to addJob in the job meta", async () => {
+      await queue.addJob("test-job", {
+        payload: { data: "meta" },
+        maxAttempts: 4,
+        backoff: { type: "fixed", delaySeconds: 3 },
+      });
+
+      expect(queue.messages[0]?.meta.maxAttempts).toBe(4);
+      expect(queue.messages[0]?.meta.backoff).toEqual({
+        type: "fixed",
+        delaySeconds: 3,
+      });
+    });
+  });
+
+  describe("dead-letter queue", () => {
+    const handlers = {
+      "test-job": vi.fn(),
+      "math-job": vi.fn(),
+      "success-job": vi.fn(),
+      "fail-job": vi.fn(async () => {
+        throw new Error("Permanent failure");
+      }),
+    };
+
+    it("should push permanently failed jobs to the dead-letter queue", async () => {
+      const deadLetter = new TestQueue({ name: "dead-letter" });
+      const sourceQueue = new TestQueue({ name: "source", deadLetter });
+      sourceQueue.setHandlers(handlers);
+
+      await sourceQueue.addJob("fail-job", {
+        payload: { data: "lost?" },
+        ttr: 120,
+      });
+      await sourceQueue.run(false, 0);
+
+      expect(sourceQueue.failedJobs).toHaveLength(1);
+      expect(deadLetter.messages).toHaveLength(1);
+
+      const dead = deadLetter.messages[0]!;
+      expect(dead.meta.name).toBe("fail-job");
+      expect(dead.payload).toEqual({
+        payload: { data: "lost?" },
+        meta: expect.objectContaining({ name: "fail-job", ttr: 120 }),
+        originalId: "1",
+        queue: "source",
+        error: expect.objectContaining({
+          name: "Error",
+          message: "Permanent failure",
+        }),
+        attempts: 1,
+        failedAt: expect.any(String),
+      });
+    });
+
+    it("should only dead-letter jobs once their retries are used up", async () => {
+      const deadLetter = new TestQueue({ name: "dead-letter" });
+      const sourceQueue = new TestQueue({
+        name: "source",
+        deadLetter,
+        maxAttempts: 3,
+      });
+      sourceQueue.setHandlers(handlers);
+
+      await sourceQueue.addJob("fail-job", { payload: { data: "retry" } });
+      await sourceQueue.run(false, 0);
+
+      expect(deadLetter.messages).toHaveLength(1);
+      expect(
+        (deadLetter.messages[0]!.payload as { attempts: number }).attempts
+      ).toBe(3);
+    });
+
+    it("should not fail the job when the dead-letter push fails", async () => {
+      const deadLetter = new TestQueue({ name: "dead-letter" });
+      vi.spyOn(deadLetter as any, "pushMessage").mockRejectedValue(
+        new Error("DLQ unavailable")
+      );
+      const sourceQueue = new TestQueue({ name: "source", deadLetter });
+      sourceQueue.setHandlers(handlers);
+
+      await sourceQueue.addJob("fail-job", { payload: { data: "kept" } });
+
+      await expect(sourceQueue.run(false, 0)).rejects.toThrow(
+        "Error moving job to the dead-letter queue"
+      );
+      expect(sourceQueue.failedJobs).toHaveLength(0);
+    });
+  });
+
+  describe("TTR enforcement", () => {
+    it("should abort the handler signal and fail with QueueErrorTimeout", async () => {
+      let signal: AbortSignal | undefined;
+      const errorSpy = vi.fn();
+      queue.on("afterError", errorSpy);
+      queue.setHandlers({
+        "test-job": async (job) => {
+          signal = job.signal;
+          await new Promise((resolve) => setTimeout(resolve, 200));
+        },
+        "math-job": vi.fn(),
+        "success-job": vi.fn(),
+        "fail-job": vi.fn(),
+      });
+
+      const start = Date.now();
+      const result = await queue["handleMessage"]({
+        id: "1",
+        payload: { data: "slow" },
+        meta: { ttr: 0.05, name: "test-job" },
+      });
+
+      expect(Date.now() - start).toBeLessThan(150);
+      expect(result.success).toBe(false);
+      expect(signal?.aborted).toBe(true);
+      const error = (result as { error: Error }).error;
+      expect(error).toBeInstanceOf(QueueErrorTimeout);
+      expect(error).toBeInstanceOf(QueueError);
+      expect(error.name).toBe("QueueErrorTimeout");
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "afterError", error })
+      );
+    });
+
+    it("should not abort handlers that finish within their TTR", async () => {
+      let signal: AbortSignal | undefined;
+      queue.setHandlers({
+        "test-job": async (job) => {
+          signal = job.signal;
+        },
+        "math-job": vi.fn(),
+        "success-job": vi.fn(),
+        "fail-job": vi.fn(),
+      });
+
+      const result = await queue["handleMessage"]({
+        id: "1",
+        payload: { data: "fast" },
+        meta: { ttr: 0.05, name: "test-job" },
+      });
+      await new Promise((resolve) => setTimeout(resolve, 80));
+
+      expect(result.success).toBe(true);
+      expect(signal?.aborted).toBe(false);
+    });
+
+    it("should fail timed out jobs in the run loop", async () => {
+      queue.setHandlers({
+        "test-job": (job) =>
+          new Promise<void>((resolve, reject) => {
+            job.signal.addEventListener("abort", () => reject(job.signal.reason));
+          }),
+        "math-job": vi.fn(),
+        "success-job": vi.fn(),
+        "fail-job": vi.fn(),
+      });
+
+      await queue.addJob("test-job", { payload: { data: "stuck" }, ttr: 0.05 });
+      await queue.run(false, 0);
+
+      expect(queue.failedJobs).toHaveLength(1);
+      expect(queue.failedJobs[0]?.error).toBeInstanceOf(QueueErrorTimeout);
+    });
+  });
+
+  describe("progress", () => {
+    it("should emit progress events from handlers", async () => {
+      const progressSpy = vi.fn();
+      queue.on("progress", progressSpy);
+      queue.setHandlers({
+        "test-job": async ({ updateProgress }) => {
+          await updateProgress(25);
+          await updateProgress({ page: 2, of: 4 });
+        },
+        "math-job": vi.fn(),
+        "success-job": vi.fn(),
+        "fail-job": vi.fn(),
+      });
+
+      await queue.addJob("test-job", { payload: { data: "progress" } });
+      await queue.run(false, 0);
+
+      expect(progressSpy).toHaveBeenCalledTimes(2);
+      expect(progressSpy).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({
+          type: "progress",
+          id: "1",
+          name: "test-job",
+          progress: 25,
+        })
+      );
+      expect(progressSpy).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ progress: { page: 2, of: 4 } })
+      );
+    });
+
+    it("should return undefined progress when the driver doesn't persist it", async () => {
+      expect(await queue.getProgress("1")).toBeUndefined();
+    });
+  });
+
+  describe("job results", () => {
+    class ResultQueue extends TestQueue {
+      public results = new Map<string, JobResult>();
+      public prunedBefore: Date[] = [];
+
+      protected override async completeJob(
+        message: QueueMessage,
+        result?: unknown
+      ): Promise<void> {
+        await super.completeJob(message, result);
+        this.results.set(message.id, { status: "done", result });
+      }
+
+      protected override async failJob(
+        message: QueueMessage,
+        error: unknown
+      ): Promise<void> {
+        await super.failJob(message, error);
+        this.results.set(message.id, {
+          status: "failed",
+          error: (error as Error).message,
+        });
+      }
+
+      override async getJobResult(id: string) {
+        return this.results.get(id);
+      }
+
+      override async status(id: string): Promise<any> {
+        const finished = [...this.completedJobs, ...this.failedJobs];
+        return finished.some((job) => job.id === id) ? "done" : "waiting";
+      }
+
+      protected override async pruneResults(before: Date): Promise<void> {
+        this.prunedBefore.push(before);
+      }
+    }
+
+    let resultQueue: ResultQueue;
+
+    beforeEach(() => {
+      resultQueue = new ResultQueue({ resultRetentionSeconds: 3600 });
+      resultQueue.setHandlers({
+        "test-job": async ({ payload }) => payload.data.toUpperCase(),
+        "math-job": ({ payload }) => payload.a + payload.b,
+        "success-job": vi.fn(),
+        "fail-job": async () => {
+          throw new Error("Job failed");
+        },
+      });
+    });
+
+    it("should pass the handler's return value to completeJob", async () => {
+      await queue.addJob("math-job", { payload: { a: 2, b: 3 } });
+      queue.setHandlers({
+        "test-job": vi.fn(),
+        "math-job": ({ payload }) => payload.a + payload.b,
+        "success-job": vi.fn(),
+        "fail-job": vi.fn(),
+      });
+
+      await queue.run(false, 0);
+
+      expect(queue.completedJobs[0]?.result).toBe(5);
+    });
+
+    it("should return the job ID unless a handle is requested", async () => {
+      const id = await resultQueue.addJob("test-job", {
+        payload: { data: "a" },
+      });
+      const handle = await resultQueue.addJob("test-job", {
+        payload: { data: "b" },
+        handle: true,
+      });
+
+      expect(id).toBe("1");
+      expect(handle).toBeInstanceOf(JobHandle);
+      expect(handle.id).toBe("2");
+    });
+
+    it("should resolve waitUntilFinished with the result", async () => {
+      const handle = await resultQueue.addJob("test-job", {
+        payload: { data: "hello" },
+        handle: true,
+      });
+
+      const finished = handle.waitUntilFinished({ pollIntervalMs: 5 });
+      await resultQueue.run(false, 0);
+
+      await expect(finished).resolves.toBe("HELLO");
+      expect(await handle.result()).toEqual({
+        status: "done",
+        result: "HELLO",
+      });
+    });
+
+    it("should reject waitUntilFinished with the stored error", async () => {
+      const handle = await resultQueue.addJob("fail-job", {
+        payload: { data: "x" },
+        handle: true,
+      });
+
+      await resultQueue.run(false, 0);
+
+      await expect(handle.waitUntilFinished()).rejects.toMatchObject({
+        name: "QueueErrorJobFailed",
+        message: "Job failed",
+      });
+    });
+
+    it("should reject waitUntilFinished after the timeout", async () => {
+      const handle = await resultQueue.addJob("test-job", {
+        payload: { data: "never processed" },
+        handle: true,
+      });
+
+      await expect(
+        handle.waitUntilFinished({ timeoutMs: 20, pollIntervalMs: 5 })
+      ).rejects.toBeInstanceOf(QueueErrorTimeout);
+    });
+
+    it("should reject waitUntilFinished once the result expired", async () => {
+      const handle = await resultQueue.addJob("test-job", {
+        payload: { data: "pruned" },
+        handle: true,
+      });
+      await resultQueue.run(false, 0);
+      resultQueue.results.delete(handle.id);
+
+      await expect(
+        handle.waitUntilFinished({ pollIntervalMs: 5 })
+      ).rejects.toMatchObject({
+        name: "QueueErrorResultExpired",
+        message: `Job ${handle.id} finished, but its result is no longer stored`,
+      });
+    });
+
+    it("should prune results older than the retention", async () => {
+      await resultQueue.addJob("test-job", { payload: { data: "a" } });
+      await resultQueue.addJob("test-job", { payload: { data: "b" } });
+
+      const before = Date.now();
+      await resultQueue.run(false, 0);
+
+      // Pruning is throttled, so two finished jobs trigger it once
+      expect(resultQueue.prunedBefore).toHaveLength(1);
+      const cutoff = resultQueue.prunedBefore[0]!.getTime();
+      expect(cutoff).toBeGreaterThanOrEqual(before - 3600 * 1000);
+      expect(cutoff).toBeLessThanOrEqual(Date.now() - 3600 * 1000);
+    });
+
+    it("should return undefined results when the driver doesn't store them", async () => {
+      expect(await queue.getJobResult("1")).toBeUndefined();
+    });
+  });
+
+  describe("cancellation", () => {
+    class CancellableQueue extends TestQueue {
+      public cancelled = new Set<string>();
+
+      constructor(options: any = {}) {
+        super(options);
+        this.supportsCancellation = true;
+        this.cancelPollIntervalMs = 10;
+      }
+
+      protected override async cancelJob(id: string) {
+        const index = this.messages.findIndex((message) => message.id === id);
+        if (index !== -1) {
+          this.messages.splice(index, 1);
+        }
+        this.cancelled.add(id);
+        return "cancelled" as const;
+      }
+
+      protected override async isCancelled(id: string): Promise<boolean> {
+        return this.cancelled.has(id);
+      }
+    }
+
+    let cancellable: CancellableQueue;
+
+    beforeEach(() => {
+      cancellable = new CancellableQueue({ maxAttempts: 3 });
+    });
+
+    it("should reject cancel() when the driver doesn't support it", async () => {
+      await expect(queue.cancel("1")).rejects.toMatchObject({
+        name: "QueueErrorCancelNotSupported",
+      });
+    });
+
+    it("should remove cancelled waiting jobs", async () => {
+      const handler = vi.fn();
+      cancellable.setHandlers({
+        "test-job": handler,
+        "math-job": vi.fn(),
+        "success-job": vi.fn(),
+        "fail-job": vi.fn(),
+      });
+
+      const id = await cancellable.addJob("test-job", {
+        payload: { data: "cancel me" },
+      });
+      expect(await cancellable.cancel(id)).toBe("cancelled");
+      await cancellable.run(false, 0);
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("should abort the running handler without retrying or failing the job", async () => {
+      let reason: unknown;
+      cancellable.setHandlers({
+        "test-job": ({ id, signal }) =>
+          new Promise<void>((resolve) => {
+            signal.addEventListener("abort", () => {
+              reason = signal.reason;
+              resolve();
+            });
+            void cancellable.cancel(id);
+          }),
+        "math-job": vi.fn(),
+        "success-job": vi.fn(),
+        "fail-job": vi.fn(),
+      });
+
+      await cancellable.addJob("test-job", { payload: { data: "running" } });
+      await cancellable.run(false, 0);
+
+      expect(reason).toBeInstanceOf(QueueErrorJobCancelled);
+      expect(cancellable.completedJobs).toHaveLength(0);
+      expect(cancellable.failedJobs).toHaveLength(0);
+      expect(cancellable.messages).toHaveLength(0);
+    });
+
+    it("should abort handlers of jobs cancelled by another process", async () => {
+      let aborted = false;
+      cancellable.setHandlers({
+        "test-job": ({ id, signal }) =>
+          new Promise<void>((resolve) => {
+            signal.addEventListener("abort", () => {
+              aborted = true;
+              resolve();
+            });
+            // Only the stored flag is set, as a cancel() from another worker would
+            cancellable.cancelled.add(id);
+          }),
+        "math-job": vi.fn(),
+        "success-job": vi.fn(),
+        "fail-job": vi.fn(),
+      });
+
+      await cancellable.addJob("test-job", { payload: { data: "remote" } });
+      await cancellable.run(false, 0);
+
+      expect(aborted).toBe(true);
+      expect(cancellable.completedJobs).toHaveLength(0);
+    });
+  });
+
+  describe("flows", () => {
+    class FlowQueue extends TestQueue {
+      constructor() {
+        super();
+        this.supportsFlows = true;
+      }
+    }
+
+    it("should reject addFlow() when the driver doesn't support it", async () => {
+      await expect(
+        queue.addFlow({ name: "test-job", payload: { data: "parent" } })
+      ).rejects.toMatchObject({ name: "QueueErrorFlowsNotSupported" });
+    });
+
+    it("should push parents before their children with dependency meta", async () => {
+      const flowQueue = new FlowQueue();
+
+      const flow = await flowQueue.addFlow({
+        name: "test-job",
+        payload: { data: "merge" },
+        children: [
+          {
+            name: "test-job",
+            payload: { data: "ocr" },
+            children: [{ name: "math-job", payload: { a: 1, b: 2 } }],
+          },
+          { name: "success-job", payload: { data: "thumbnail" }, ttr: 60 },
+        ],
+      });
+
+      expect(flow).toEqual({
+        id: "1",
+        name: "test-job",
+        children: [
+          {
+            id: "2",
+            name: "test-job",
+            children: [{ id: "3", name: "math-job", children: [] }],
+          },
+          { id: "4", name: "success-job", children: [] },
+        ],
+      });
+      const metas = flowQueue.messages.map(({ meta }) => meta);
+      expect(metas[0]).toMatchObject({ childCount: 2 });
+      expect(metas[0]?.parentId).toBeUndefined();
+      expect(metas[1]).toMatchObject({ parentId: "1", childCount: 1 });
+      expect(metas[2]).toMatchObject({ parentId: "2" });
+      expect(metas[2]?.childCount).toBeUndefined();
+      expect(metas[3]).toMatchObject({ parentId: "1", ttr: 60 });
+    });
+  });
+
+  describe("rate limits", () => {
+    class DeferringQueue extends TestQueue {
+      public deferred: Array<{ id: string; delaySeconds: number }> = [];
+
+      protected override async deferJob(
+        message: QueueMessage,
+        delaySeconds: number
+      ): Promise<void> {
+        this.deferred.push({ id: message.id, delaySeconds });
+      }
+    }
+
+    const handlers = (executed: unknown[]) => ({
+      "test-job": async ({ payload }: any) => {
+        executed.push(payload.data);
+      },
+      "math-job": vi.fn(),
+      "success-job": vi.fn(),
+      "fail-job": vi.fn(),
+    });
+
+    it("should defer jobs over the limit without running them", async () => {
+      const limited = new DeferringQueue({
+        rateLimits: { "test-job": { max: 1, durationSeconds: 10 } },
+      });
+      const executed: unknown[] = [];
+      limited.setHandlers(handlers(executed));
+
+      await limited.addJob("test-job", { payload: { data: "first" } });
+      const id = await limited.addJob("test-job", { payload: { data: "second" } });
+      await limited.run(false, 0);
+
+      expect(executed).toEqual(["first"]);
+      expect(limited.completedJobs).toHaveLength(1);
+      expect(limited.failedJobs).toHaveLength(0);
+      expect(limited.deferred).toHaveLength(1);
+      expect(limited.deferred[0]?.id).toBe(id);
+      // Until the next fixed window starts
+      expect(limited.deferred[0]?.delaySeconds).toBeGreaterThan(0);
+      expect(limited.deferred[0]?.delaySeconds).toBeLessThanOrEqual(10);
+    });
+
+    it("should only limit the configured job names", async () => {
+      const limited = new DeferringQueue({
+        rateLimits: { "math-job": { max: 1, durationSeconds: 10 } },
+      });
+      const executed: unknown[] = [];
+      limited.setHandlers(handlers(executed));
+
+      await limited.addJob("test-job", { payload: { data: "first" } });
+      await limited.addJob("test-job", { payload: { data: "second" } });
+      await limited.run(false, 0);
+
+      expect(executed).toEqual(["first", "second"]);
+      expect(limited.deferred).toHaveLength(0);
+    });
+  });
+
+  describe("deduplication", () => {
+    it("should reject deduplication IDs when the driver doesn't support them", async () => {
+      await expect(
+        queue.addJob("test-job", {
+          payload: { data: "refund" },
+          deduplicationId: "refund-1",
+        })
+      ).rejects.toMatchObject({ name: "QueueErrorDeduplicationNotSupported" });
+      expect(queue.messages).toHaveLength(0);
+    });
+
+    it("should pass the deduplication settings in the job meta", async () => {
+      class DeduplicatingQueue extends TestQueue {
+        constructor() {
+          super();
+          this.supportsDeduplication = true;
+        }
+      }
+      const deduplicating = new DeduplicatingQueue();
+
+      await deduplicating.addJob("test-job", {
+        payload: { data: "refund" },
+        deduplicationId: "refund-1",
+        deduplicationSeconds: 60,
+      });
+      await deduplicating.addJob("test-job", {
+        payload: { data: "refund" },
+        deduplicationId: "refund-2",
+      });
+
+      expect(deduplicating.messages[0]?.meta).toMatchObject({
+        deduplicationId: "refund-1",
+        deduplicationSeconds: 60,
+      });
+      expect(deduplicating.messages[1]?.meta).toMatchObject({
+        deduplicationId: "refund-2",
+        deduplicationSeconds: 0,
+      });
+    });
+  });
+
+  describe("addJobs", () => {
+    it("should add all jobs and return their ids in input order", async () => {
+      const afterPushSpy = vi.fn();
+      queue.on("afterPush", afterPushSpy);
+
+      const results = await queue.addJobs([
+        { name: "test-job", payload: { data: "first" } },
+        { name: "math-job", payload: { a: 1, b: 2 }, ttr: 60 },
+      ]);
+
+      expect(results).toEqual([
+        { status: "added", id: "1" },
+        { status: "added", id: "2" },
+      ]);
+      expect(queue.messages[1]?.meta).toMatchObject({ name: "math-job", ttr: 60 });
+      expect(afterPushSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it("should report per job failures and still add the other jobs", async () => {
+      class FlakyQueue extends TestQueue {
+        protected override async pushMessage(payload: any, meta: JobMeta) {
+          if (payload.data === "broken") {
+            throw new Error("Storage rejected the job");
+          }
+          return super.pushMessage(payload, meta);
+        }
+      }
+      const flaky = new FlakyQueue();
+
+      const results = await flaky.addJobs([
+        { name: "test-job", payload: { data: "first" } },
+        { name: "test-job", payload: { data: "broken" } },
+        { name: "test-job", payload: { data: "deduplicated" }, deduplicationId: "a" },
+        { name: "test-job", payload: { data: "last" } },
+      ]);
+
+      expect(results.map((result) => result.status)).toEqual([
+        "added",
+        "failed",
+        "failed",
+        "added",
+      ]);
+      expect(results[1]).toMatchObject({
+        error: { message: "Error adding job to the queue", cause: { message: "Storage rejected the job" } },
+      });
+      expect(results[2]).toMatchObject({
+        error: { name: "QueueErrorDeduplicationNotSupported" },
+      });
+      expect(flaky.messages.map(({ payload }) => payload)).toEqual([
+        { data: "first" },
+        { data: "last" },
+      ]);
+    });
+  });
+
+  describe("batch reservation", () => {
+    class BatchQueue extends TestQueue {
+      public limits: number[] = [];
+      public released: Array<{ id: string; delaySeconds: number }> = [];
+
+      protected override async reserveMany(
+        _timeout: number,
+        limit: number
+      ): Promise<QueueMessage[]> {
+        this.limits.push(limit);
+        return this.messages.splice(0, limit);
+      }
+
+      protected override async deferJob(
+        message: QueueMessage,
+        delaySeconds: number
+      ): Promise<void> {
+        this.released.push({ id: message.id, delaySeconds });
+      }
+    }
+
+    const handlers = (executed: unknown[], run?: () => Promise<void>) => ({
+      "test-job": async ({ payload }: any) => {
+        executed.push(payload.data);
+        await run?.();
+      },
+      "math-job": vi.fn(),
+      "success-job": vi.fn(),
+      "fail-job": vi.fn(),
+    });
+
+    it("should reserve up to batchSize jobs per poll", async () => {
+      const batched = new BatchQueue({ batchSize: 3 });
+      const executed: unknown[] = [];
+      batched.setHandlers(handlers(executed));
+
+      for (const data of ["a", "b", "c", "d", "e"]) {
+        await batched.addJob("test-job", { payload: { data } });
+      }
+      await batched.run(false, 0);
+
+      expect(batched.limits).toEqual([3, 3, 3]);
+      expect(executed).toEqual(["a", "b", "c", "d", "e"]);
+      expect(batched.completedJobs).toHaveLength(5);
+    });
+
+    it("should skip buffered jobs whose TTR ran out before they started", async () => {
+      const batched = new BatchQueue();
+      const executed: unknown[] = [];
+      batched.setHandlers(
+        handlers(executed, () => new Promise((resolve) => setTimeout(resolve, 100)))
+      );
+
+      await batched.addJob("test-job", { payload: { data: "slow" }, ttr: 10 });
+      await batched.addJob("test-job", { payload: { data: "expired" }, ttr: 0.05 });
+      await batched.run(false, 0, { batchSize: 2 });
+
+      expect(executed).toEqual(["slow"]);
+      expect(batched.completedJobs.map(({ id }) => id)).toEqual(["1"]);
+      expect(batched.failedJobs).toHaveLength(0);
+      expect(batched.released).toHaveLength(0);
+    });
+
+    it("should put back buffered jobs when the run stops", async () => {
+      const batched = new BatchQueue({ batchSize: 3 });
+      const controller = new AbortController();
+      const executed: unknown[] = [];
+      batched.setHandlers(handlers(executed, async () => controller.abort()));
+
+      for (const data of ["a", "b", "c"]) {
+        await batched.addJob("test-job", { payload: { data } });
+      }
+      await batched.run(true, 0, { signal: controller.signal });
+
+      expect(executed).toEqual(["a"]);
+      expect(batched.released).toEqual([
+        { id: "2", delaySeconds: 0 },
+        { id: "3", delaySeconds: 0 },
+      ]);
+    });
+  });
+
+  describe("extending jobs", () => {
+    class ExtendingQueue extends TestQueue {
+      public extended: Array<{ id: string; seconds: number }> = [];
+
+      constructor(options: any = {}) {
+        super(options);
+        this.supportsExtension = true;
+      }
+
+      protected override async extendJob(
+        message: QueueMessage,
+        seconds: number
+      ): Promise<void> {
+        this.extended.push({ id: message.id, seconds });
+      }
+    }
+
+    const handlers = (handler: (context: any) => Promise<unknown>) => ({
+      "test-job": handler,
+      "math-job": vi.fn(),
+      "success-job": vi.fn(),
+      "fail-job": vi.fn(),
+    });
+
+    it("should restart the TTR countdown when a job is extended", async () => {
+      const extending = new ExtendingQueue();
+      extending.setHandlers(
+        handlers(async ({ extend, signal }) => {
+          await new Promise((resolve) => setTimeout(resolve, 50));
+          await extend(0.5);
+          await new Promise((resolve) => setTimeout(resolve, 100));
+          return signal.aborted;
+        })
+      );
+
+      const id = await extending.addJob("test-job", {
+        payload: { data: "long" },
+        ttr: 0.1,
+      });
+      await extending.run(false);
+
+      expect(extending.extended).toEqual([{ id, seconds: 0.5 }]);
+      expect(extending.failedJobs).toHaveLength(0);
+      expect(extending.completedJobs[0]?.result).toBe(false);
+    });
+
+    it("should extend by the job's TTR by default", async () => {
+      const extending = new ExtendingQueue();
+      extending.setHandlers(handlers(({ extend }) => extend()));
+
+      await extending.addJob("test-job", { payload: { data: "long" }, ttr: 60 });
+      await extending.run(false);
+
+      expect(extending.extended[0]?.seconds).toBe(60);
+    });
+
+    it("should still time out when the job isn't extended again", async () => {
+      const extending = new ExtendingQueue();
+      extending.setHandlers(
+        handlers(async ({ extend }) => {
+          await extend(0.05);
+          await new Promise((resolve) => setTimeout(resolve, 200));
+        })
+      );
+
+      await extending.addJob("test-job", { payload: { data: "long" }, ttr: 10 });
+      await extending.run(false);
+
+      expect(extending.failedJobs[0]?.error).toBeInstanceOf(QueueErrorTimeout);
+    });
+
+    it("should reject extensions when the driver doesn't support them", async () => {
+      let error: unknown;
+      queue.setHandlers(
+        handlers(async ({ extend }) => {
+          error = await extend(10).catch((error: unknown) => error);
+        })
+      );
+
+      await queue.addJob("test-job", { payload: { data: "long" } });
+      await queue.run(false);
+
+      expect(error).toMatchObject({ name: "QueueErrorExtendNotSupported" });
+    });
+  });
+
+  describe("events", () => {
+    const handlers = {
+      "test-job": async () => "done",
+      "math-job": async ({ payload }: any) => payload.a + payload.b,
+      "success-job": vi.fn(),
+      "fail-job": async () => {
+        throw new Error("Job failed");
+      },
+    };
+
+    it("should type event payloads by job name", async () => {
+      const sums: number[] = [];
+      queue.setHandlers(handlers);
+      queue.on("afterExec", (event) => {
+        if (event.name === "math-job") {
+          sums.push(event.payload.a + event.payload.b);
+        }
+      });
+
+      await queue.addJob("math-job", { payload: { a: 1, b: 2 } });
+      await queue.addJob("test-job", { payload: { data: "test" } });
+      await queue.run(false);
+
+      expect(sums).toEqual([3]);
+    });
+
+    it("should emit afterComplete with the handler result", async () => {
+      const completeSpy = vi.fn();
+      queue.setHandlers(handlers);
+      queue.on("afterComplete", completeSpy);
+
+      const id = await queue.addJob("math-job", { payload: { a: 2, b: 3 } });
+      await queue.run(false);
+
+      expect(completeSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "afterComplete", id, name: "math-job", result: 5 })
+      );
+    });
+
+    it("should emit retrying for each retry and afterFail once attempts are used up", async () => {
+      const retryingQueue = new TestQueue({ maxAttempts: 2, backoff: { type: "fixed", delaySeconds: 0 } });
+      const events: string[] = [];
+      retryingQueue.setHandlers(handlers);
+      retryingQueue.on("retrying", (event) => {
+        events.push(`${event.type}:${event.attempt}:${event.delaySeconds}`);
+      });
+      retryingQueue.on("afterFail", (event) => {
+        events.push(`${event.type}:${(event.error as Error).message}`);
+      });
+
+      await retryingQueue.addJob("fail-job", { payload: { data: "test" } });
+      await retryingQueue.run(false);
+
+      expect(events).toEqual(["retrying:1:0", "afterFail:Job failed"]);
+    });
+
+    it("should emit drained and idle once the queue is empty", async () => {
+      const events: string[] = [];
+      queue.setHandlers(handlers);
+      queue.on("drained", () => events.push("drained"));
+      queue.on("idle", () => events.push("idle"));
+
+      await queue.run(false);
+      expect(events).toEqual(["idle"]);
+
+      events.length = 0;
+      await queue.addJob("test-job", { payload: { data: "test" } });
+      await queue.run(false);
+      expect(events).toEqual(["drained", "idle"]);
+    });
+
+    it("should iterate over events with events()", async () => {
+      const controller = new AbortController();
+      const iterator = queue.events({
+        types: ["afterPush", "afterComplete"],
+        signal: controller.signal,
+      });
+      queue.setHandlers(handlers);
+
+      const id = await queue.addJob("test-job", { payload: { data: "test" } });
+      await queue.run(false);
+      controller.abort();
+
+      const events: string[] = [];
+      for await (const event of iterator) {
+        events.push(`${event.type}:${event.id}`);
+      }
+
+      expect(events).toEqual([`afterPush:${id}`, `afterComplete:${id}`]);
+      expect(queue.listenerCount("afterPush")).toBe(0);
+    });
+
+    it("should stop listening when the loop exits", async () => {
+      queue.setHandlers(handlers);
+      await queue.addJob("test-job", { payload: { data: "test" } });
+
+      const running = queue.run(false);
+      for await (const event of queue.events()) {
+        if (event.type === "afterComplete") break;
+      }
+      await running;
+
+      expect(queue.listenerCount("afterComplete")).toBe(0);
+    });
+  });
+
+  describe("payload validation", () => {
+    // Minimal Standard Schema, trimming `data` like a schema transform would
+    const dataSchema: StandardSchemaV1<{ data: string }> = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: (value: any) =>
+          typeof value?.data === "string"
+            ? { value: { data: value.data.trim() } }
+            : { issues: [{ message: "Expected a string", path: ["data"] }] },
+      },
+    };
+
+    const handlers = (executed: unknown[]) => ({
+      "test-job": async ({ payload }: any) => {
+        executed.push(payload);
+      },
+      "math-job": vi.fn(),
+      "success-job": vi.fn(),
+      "fail-job": vi.fn(),
+    });
+
+    it("should reject invalid payloads in addJob", async () => {
+      const validating = new TestQueue({ schemas: { "test-job": dataSchema } });
+
+      const error = await validating
+        .addJob("test-job", { payload: { data: 42 } as any })
+        .catch((error) => error);
+
+      expect(error).toBeInstanceOf(QueueErrorValidation);
+      expect(error).toMatchObject({
+        name: "QueueErrorValidation",
+        jobName: "test-job",
+        message: "Invalid payload for job test-job: data: Expected a string",
+        issues: [{ message: "Expected a string", path: ["data"] }],
+      });
+      expect(validating.messages).toHaveLength(0);
+    });
+
+    it("should push the payload as output by the schema", async () => {
+      const validating = new TestQueue({ schemas: { "test-job": dataSchema } });
+
+      await validating.addJob("test-job", { payload: { data: "  padded  " } });
+      await validating.addJob("math-job", { payload: { a: 1, b: 2 } });
+
+      expect(validating.messages.map(({ payload }) => payload)).toEqual([
+        { data: "padded" },
+        { a: 1, b: 2 },
+      ]);
+    });
+
+    it("should report invalid payloads in addJobs and addFlow", async () => {
+      class FlowQueue extends TestQueue {
+        constructor(options: any) {
+          super(options);
+          this.supportsFlows = true;
+        }
+      }
+      const validating = new FlowQueue({ schemas: { "test-job": dataSchema } });
+
+      const results = await validating.addJobs([
+        { name: "test-job", payload: { data: "valid" } },
+        { name: "test-job", payload: {} as any },
+      ]);
+      expect(results[0]?.status).toBe("added");
+      expect(results[1]).toMatchObject({ status: "failed", error: { name: "QueueErrorValidation" } });
+
+      await expect(
+        validating.addFlow({
+          name: "math-job",
+          payload: { a: 1, b: 2 },
+          children: [{ name: "test-job", payload: {} as any }],
+        })
+      ).rejects.toBeInstanceOf(QueueErrorValidation);
+      // No part of the flow was added
+      expect(validating.messages).toHaveLength(1);
+    });
+
+    it("should fail invalid jobs in the worker without retrying them", async () => {
+      const validating = new TestQueue({
+        schemas: { "test-job": dataSchema },
+        maxAttempts: 3,
+      });
+      const executed: unknown[] = [];
+      validating.setHandlers(handlers(executed));
+
+      // Pushed by a producer that doesn't validate
+      validating.messages.push(
+        { id: "a", payload: { data: 42 }, meta: { name: "test-job", attempt: 1 } },
+        { id: "b", payload: { data: " ok " }, meta: { name: "test-job", attempt: 1 } }
+      );
+      await validating.run(false);
+
+      expect(executed).toEqual([{ data: "ok" }]);
+      expect(validating.failedJobs.map(({ id }) => id)).toEqual(["a"]);
+      expect(validating.failedJobs[0]?.error).toBeInstanceOf(QueueErrorValidation);
+      expect(validating.messages).toHaveLength(0);
+    });
+  });
+
+  describe("serializers", () => {
+    const handlers = (executed: unknown[]) => ({
+      "test-job": async ({ payload }: any) => {
+        executed.push(payload);
+      },
+      "math-job": vi.fn(),
+      "success-job": vi.fn(),
+      "fail-job": vi.fn(),
+    });
+
+    it("should pass payloads as they are with the default JSON serializer", async () => {
+      await queue.addJob("test-job", { payload: { data: "plain" } });
+
+      expect(queue.messages[0]?.payload).toEqual({ data: "plain" });
+      expect(queue.messages[0]?.meta.serializer).toBeUndefined();
+    });
+
+    it("should store encoded payloads and record the serializer", async () => {
+      const typed = new TestQueue({ serializer: typedJsonSerializer });
+      const executed: unknown[] = [];
+      typed.setHandlers(handlers(executed));
+
+      const at = new Date("2024-01-02T03:04:05.678Z");
+      await typed.addJob("test-job", { payload: { data: "typed", at } as any });
+
+      expect(typeof typed.messages[0]?.payload).toBe("string");
+      expect(typed.messages[0]?.meta.serializer).toBe("typed-json");
+
+      await typed.run(false);
+      expect(executed).toEqual([{ data: "typed", at }]);
+    });
+
+    it("should push jobs again with their stored payload", async () => {
+      const typed = new TestQueue({
+        serializer: msgpackSerializer,
+        maxAttempts: 2,
+      });
+      let attempts = 0;
+      typed.setHandlers({
+        ...handlers([]),
+        "test-job": async () => {
+          if (++attempts === 1) throw new Error("Try again");
+        },
+      });
+
+      await typed.addJob("test-job", { payload: { data: "retried" } });
+      await typed.run(false);
+
+      expect(attempts).toBe(2);
+      expect(typed.completedJobs.map(({ message }) => message.payload)).toEqual([
+        { data: "retried" },
+        { data: "retried" },
+      ]);
+    });
+
+    it("should fail jobs that can't be decoded without running them", async () => {
+      const executed: unknown[] = [];
+      queue.setHandlers(handlers(executed));
+      const failed: string[] = [];
+      queue.on("afterFail", (event) => failed.push(event.id));
+
+      queue.messages.push(
+        { id: "a", payload: "?", meta: { name: "test-job", serializer: "unknown" } },
+        { id: "b", payload: "{", meta: { name: "test-job", serializer: "typed-json" } },
+        { id: "c", payload: { data: "ok" }, meta: { name: "test-job" } }
+      );
+      await queue.run(false);
+
+      expect(executed).toEqual([{ data: "ok" }]);
+      expect(failed).toEqual(["a", "b"]);
+      expect(queue.failedJobs.map(({ error }) => error)).toMatchObject([
+        {
+          name: "QueueErrorSerialization",
+          message: "Job a was stored with the unknown serializer unknown",
+        },
+        {
+          name: "QueueErrorSerialization",
+          message: "Error deserializing the payload of job b with typed-json",
+        },
+      ]);
+    });
+  });
+
+  describe("compression", () => {
+    const text = "repeated text ".repeat(200);
+
+    it("should compress payloads above the threshold only", async () => {
+      const compressing = new TestQueue({ compression: { algorithm: "brotli" } });
+      const executed: unknown[] = [];
+      compressing.setHandlers({
+        "test-job": async ({ payload }) => {
+          executed.push(payload);
+        },
+        "math-job": vi.fn(),
+        "success-job": vi.fn(),
+        "fail-job": vi.fn(),
+      });
+
+      await compressing.addJob("test-job", { payload: { data: text } });
+      await compressing.addJob("test-job", { payload: { data: "small" } });
+
+      const [large, small] = compressing.messages;
+      expect(large?.meta).toMatchObject({ compression: "brotli" });
+      expect(large?.meta.serializer).toBeUndefined();
+      expect(typeof large?.payload).toBe("string");
+      expect(small?.meta.compression).toBeUndefined();
+      expect(small?.payload).toEqual({ data: "small" });
+
+      await compressing.run(false);
+      expect(executed).toEqual([{ data: text }, { data: "small" }]);
+    });
+
+    it("should compress the output of the serializer", async () => {
+      const compressing = new TestQueue({
+        serializer: typedJsonSerializer,
+        compression: { thresholdBytes: 0 },
+      });
+      const executed: unknown[] = [];
+      compressing.setHandlers({
+        "test-job": async ({ payload }) => {
+          executed.push(payload);
+        },
+        "math-job": vi.fn(),
+        "success-job": vi.fn(),
+        "fail-job": vi.fn(),
+      });
+
+      const payload = { data: text, at: new Date(0) };
+      await compressing.addJob("test-job", { payload: payload as any });
+
+      expect(compressing.messages[0]?.meta).toMatchObject({
+        serializer: "typed-json",
+        compression: "gzip",
+      });
+      await compressing.run(false);
+      expect(executed).toEqual([payload]);
+    });
+
+    it("should fail jobs that can't be decompressed", async () => {
+      queue.setHandlers({
+        "test-job": vi.fn(),
+        "math-job": vi.fn(),
+        "success-job": vi.fn(),
+        "fail-job": vi.fn(),
+      });
+      queue.messages.push({
+        id: "a",
+        payload: "not gzip",
+        meta: { name: "test-job", compression: "gzip" },
+      });
+      await queue.run(false);
+
+      expect(queue.failedJobs[0]?.error).toMatchObject({
+        name: "QueueErrorSerialization",
+        message: "Error decompressing the payload of job a with gzip",
+      });
+    });
+  });
+
+  describe("claim check", () => {
+    class MapBlobStore implements BlobStore {
+      blobs = new Map<string, string>();
+      expiring = new Map<string, Date>();
+
+      async put(key: string, data: string) {
+        this.blobs.set(key, data);
+      }
+      async get(key: string) {
+        const data = this.blobs.get(key);
+        if (data === undefined) throw new Error(`No blob ${key}`);
+        return data;
+      }
+      async delete(key: string) {
+        this.blobs.delete(key);
+      }
+      async expire(key: string, at: Date) {
+        this.expiring.set(key, at);
+      }
+      async prune() {}
+    }
+
+    const large = "x".repeat(100);
+
+    it("should offload large payloads and fetch them before the handler runs", async () => {
+      const store = new MapBlobStore();
+      const offloading = new TestQueue({ claimCheck: { store, thresholdBytes: 100 } });
+      const executed: unknown[] = [];
+      offloading.setHandlers({
+        "test-job": async ({ payload }) => {
+          executed.push(payload);
+        },
+        "math-job": vi.fn(),
+        "success-job": vi.fn(),
+        "fail-job": vi.fn(),
+      });
+
+      await offloading.addJob("test-job", { payload: { data: large } });
+      await offloading.addJob("test-job", { payload: { data: "small" } });
+
+      const [offloaded, inline] = offloading.messages;
+      const key = offloaded?.meta.claimCheck;
+      expect(key).toBeDefined();
+      expect(offloaded?.payload).toBe(key);
+      expect(store.blobs.get(key!)).toBe(JSON.stringify({ data: large }));
+      expect(inline?.payload).toEqual({ data: "small" });
+      expect(inline?.meta.claimCheck).toBeUndefined();
+
+      await offloading.run(false);
+
+      expect(executed).toEqual([{ data: large }, { data: "small" }]);
+      // Deleted once the job completed
+      expect(store.blobs.size).toBe(0);
+    });
+
+    it("should keep blobs of failed jobs for the dead-letter retention period", async () => {
+      const store = new MapBlobStore();
+      const offloading = new TestQueue({
+        claimCheck: { store, thresholdBytes: 0, deadLetterRetentionSeconds: 60 },
+      });
+      offloading.setHandlers({
+        "test-job": async () => {
+          throw new Error("Failed");
+        },
+        "math-job": vi.fn(),
+        "success-job": vi.fn(),
+        "fail-job": vi.fn(),
+      });
+
+      const before = Date.now();
+      await offloading.addJob("test-job", { payload: { data: large } });
+      const key = offloading.messages[0]!.meta.claimCheck!;
+      await offloading.run(false);
+
+      expect(store.blobs.has(key)).toBe(true);
+      const expiry = store.expiring.get(key)!.getTime();
+      expect(expiry).toBeGreaterThanOrEqual(before + 60_000);
+      expect(expiry).toBeLessThanOrEqual(Date.now() + 60_000);
+    });
+
+    it("should fail offloaded jobs on queues without a blob store", async () => {
+      queue.setHandlers({
+        "test-job": vi.fn(),
+        "math-job": vi.fn(),
+        "success-job": vi.fn(),
+        "fail-job": vi.fn(),
+      });
+      queue.messages.push({
+        id: "a",
+        payload: "key",
+        meta: { name: "test-job", claimCheck: "key" },
+      });
+      await queue.run(false);
+
+      expect(queue.failedJobs[0]?.error).toMatchObject({
+        name: "QueueErrorClaimCheck",
+        message:
+          "The payload of job a is in a blob store, but the queue has no claimCheck option",
+      });
+    });
+  });
+
+  describe("encryption", () => {
+    const oldKey = randomBytes(32);
+    const newKey = randomBytes(32);
+
+    const collect = (target: TestQueue) => {
+      const executed: unknown[] = [];
+      target.setHandlers({
+        "test-job": async ({ payload }) => {
+          executed.push(payload);
+        },
+        "math-job": vi.fn(),
+        "success-job": vi.fn(),
+        "fail-job": vi.fn(),
+      });
+      return executed;
+    };
+
+    it("should store encrypted payloads with their key ID", async () => {
+      const encrypting = new TestQueue({
+        encryption: { keys: { old: oldKey }, currentKeyId: "old" },
+      });
+      const executed = collect(encrypting);
+
+      await encrypting.addJob("test-job", { payload: { data: "user@example.com" } });
+
+      const [stored] = encrypting.messages;
+      expect(stored?.meta.encryptionKeyId).toBe("old");
+      expect(typeof stored?.payload).toBe("string");
+      expect(stored?.payload).not.toContain("user@example.com");
+
+      await encrypting.run(false);
+      expect(executed).toEqual([{ data: "user@example.com" }]);
+    });
+
+    it("should decrypt jobs encrypted with a rotated key", async () => {
+      const before = new TestQueue({
+        encryption: { keys: { old: oldKey }, currentKeyId: "old" },
+      });
+      await before.addJob("test-job", { payload: { data: "old" } });
+
+      const after = new TestQueue({
+        encryption: { keys: { old: oldKey, new: newKey }, currentKeyId: "new" },
+      });
+      const executed = collect(after);
+      after.messages.push(...before.messages);
+      await after.addJob("test-job", { payload: { data: "new" } });
+
+      expect(after.messages.map(({ meta }) => meta.encryptionKeyId)).toEqual(["old", "new"]);
+      await after.run(false);
+      expect(executed).toEqual([{ data: "old" }, { data: "new" }]);
+    });
+
+    it("should fail jobs encrypted with a key missing from the keyring", async () => {
+      const before = new TestQueue({
+        encryption: { keys: { old: oldKey }, currentKeyId: "old" },
+      });
+      await before.addJob("test-job", { payload: { data: "old" } });
+
+      const after = new TestQueue({
+        encryption: { keys: { new: newKey }, currentKeyId: "new" },
+      });
+      const executed = collect(after);
+      after.messages.push(...before.messages);
+      await after.run(false);
+
+      expect(executed).toEqual([]);
+      expect(after.failedJobs[0]?.error).toMatchObject({
+        name: "QueueErrorEncryption",
+        message: "Job 1 was encrypted with the unknown key old",
+      });
+    });
+
+    it("should fail payloads copied to another job name or queue", async () => {
+      const encryption = { keys: { old: oldKey }, currentKeyId: "old" };
+      const source = new TestQueue({ encryption });
+      await source.addJob("test-job", { payload: { data: "secret" } });
+      const [stored] = source.messages;
+
+      const other = new TestQueue({ name: "other-queue", encryption });
+      const executed = collect(other);
+      other.messages.push(
+        { ...stored!, id: "2", meta: { ...stored!.meta, name: "math-job" } },
+        { ...stored!, id: "3" }
+      );
+      await other.run(false);
+
+      expect(executed).toEqual([]);
+      expect(other.failedJobs.map(({ error }) => error)).toEqual([
+        expect.objectContaining({ name: "QueueErrorEncryption" }),
+        expect.objectContaining({ name: "QueueErrorEncryption" }),
+      ]);
+    });
+
+    it("should reject invalid keyrings", () => {
+      expect(
+        () => new TestQueue({ encryption: { keys: { a: oldKey }, currentKeyId: "b" } })
+      ).toThrow("The current key b is not in the keyring");
+      expect(
+        () =>
+          new TestQueue({
+            encryption: { keys: { a: oldKey, b: randomBytes(16) }, currentKeyId: "a" },
+          })
+      ).toThrow("Key b is 16 bytes long, AES-256 keys are 32 bytes");
+    });
+  });
 });
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { InProcessRateLimiter } from "../../src/core/rate-limit.ts";
+
+describe("InProcessRateLimiter", () => {
+  it("should allow up to max slots per window", () => {
+    const limiter = new InProcessRateLimiter();
+
+    expect(limiter.consume("send-email", 2, 1000, 0)).toBe(0);
+    expect(limiter.consume("send-email", 2, 1000, 100)).toBe(0);
+    expect(limiter.consume("send-email", 2, 1000, 200)).toBe(800);
+  });
+
+  it("should free all slots when the next window starts", () => {
+    const limiter = new InProcessRateLimiter();
+    limiter.consume("send-email", 2, 1000, 0);
+    limiter.consume("send-email", 2, 1000, 900);
+
+    expect(limiter.consume("send-email", 2, 1000, 950)).toBe(50);
+    expect(limiter.consume("send-email", 2, 1000, 1000)).toBe(0);
+    expect(limiter.consume("send-email", 2, 1000, 1100)).toBe(0);
+    expect(limiter.consume("send-email", 2, 1000, 1200)).toBe(800);
+  });
+
+  it("should align windows to multiples of their length", () => {
+    const limiter = new InProcessRateLimiter();
+
+    expect(limiter.consume("send-email", 1, 1000, 1700)).toBe(0);
+    expect(limiter.consume("send-email", 1, 1000, 1800)).toBe(200);
+    expect(limiter.consume("send-email", 1, 1000, 2000)).toBe(0);
+  });
+
+  it("should not count denied attempts", () => {
+    const limiter = new InProcessRateLimiter();
+    limiter.consume("send-email", 1, 1000, 0);
+
+    expect(limiter.consume("send-email", 1, 1000, 500)).toBe(500);
+    expect(limiter.consume("send-email", 1, 1000, 1000)).toBe(0);
+  });
+
+  it("should keep separate limits per key", () => {
+    const limiter = new InProcessRateLimiter();
+
+    expect(limiter.consume("sync:tenant-a", 1, 1000, 0)).toBe(0);
+    expect(limiter.consume("sync:tenant-b", 1, 1000, 0)).toBe(0);
+    expect(limiter.consume("sync:tenant-a", 1, 1000, 0)).toBe(1000);
+  });
+
+  it("should drop windows that ended", () => {
+    const limiter = new InProcessRateLimiter();
+    limiter.consume("sync:tenant-a", 1, 1000, 0);
+    limiter.consume("sync:tenant-b", 1, 5000, 0);
+
+    limiter.consume("sync:tenant-c", 1, 1000, 1500);
+
+    expect([...limiter["windows"].keys()]).toEqual(["sync:tenant-b", "sync:tenant-c"]);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { toJsonSchema } from "../../src/core/schema.ts";
+import type {
+  StandardJSONSchemaV1,
+  StandardSchemaV1,
+} from "../../src/interfaces/schema.ts";
+
+const validate = (value: unknown) => ({ value });
+
+const withJsonSchema: StandardJSONSchemaV1 = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate,
+    jsonSchema: {
+      input: ({ target }) => ({ $schema: target, type: "object" }),
+      output: () => ({ type: "object" }),
+    },
+  },
+};
+
+const withoutJsonSchema: StandardSchemaV1 = {
+  "~standard": { version: 1, vendor: "plain", validate },
+};
+
+describe("toJsonSchema", () => {
+  it("should convert schemas implementing Standard JSON Schema", () => {
+    expect(toJsonSchema({ "send-email": withJsonSchema })).toEqual({
+      "send-email": { $schema: "draft-2020-12", type: "object" },
+    });
+    expect(
+      toJsonSchema({ "send-email": withJsonSchema }, { target: "draft-07" })
+    ).toEqual({
+      "send-email": { $schema: "draft-07", type: "object" },
+    });
+  });
+
+  it("should fall back to the convert option", () => {
+    const schemas = { "send-email": withJsonSchema, cleanup: withoutJsonSchema };
+
+    expect(
+      toJsonSchema(schemas, { convert: (_schema, name) => ({ title: name }) })
+    ).toEqual({
+      "send-email": { $schema: "draft-2020-12", type: "object" },
+      cleanup: { title: "cleanup" },
+    });
+  });
+
+  it("should reject schemas it can't convert", () => {
+    expect(() => toJsonSchema({ cleanup: withoutJsonSchema })).toThrow(
+      expect.objectContaining({ name: "QueueErrorJsonSchemaNotSupported" })
+    );
+  });
+});
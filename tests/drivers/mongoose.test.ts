@@ -101,6 +101,25 @@ describe("Mongoose Adapter", () => {
       expect(doc?.status).toBe("reserved");
     });
 
+    it("should reserve jobs in batches, in priority order", async () => {
+      const adapter = new MongooseDatabaseAdapter(testModel);
+
+      const low = await adapter.insertJob({ n: 1 }, { ttr: 60, name: "test-job" });
+      const high = await adapter.insertJob({ n: 2 }, { ttr: 120, name: "test-job", priority: 5 });
+      const next = await adapter.insertJob({ n: 3 }, { ttr: 60, name: "test-job" });
+
+      const batch = await adapter.reserveJobs(0, 2);
+
+      expect(batch.map((job) => job.id)).toEqual([high, low]);
+      expect(batch.map((job) => job.meta.attempt)).toEqual([1, 1]);
+      const reserved = await testModel.findById(high);
+      expect(reserved?.status).toBe("reserved");
+      expect(reserved!.expireTime!.getTime() - reserved!.reserveTime!.getTime()).toBe(120000);
+
+      expect((await adapter.reserveJobs(0, 2)).map((job) => job.id)).toEqual([next]);
+      expect(await adapter.reserveJobs(0, 2)).toEqual([]);
+    });
+
     it("should implement completeJob correctly", async () => {
       const adapter = new MongooseDatabaseAdapter(testModel);
 
@@ -388,6 +407,66 @@ describe("Mongoose Adapter", () => {
     });
   });
 
+  describe("Named queues", () => {
+    it("should keep queues sharing a collection apart", async () => {
+      const emails = new MongooseQueue({ model: testModel, name: "emails" });
+      const images = new MongooseQueue({ model: testModel, name: "images" });
+
+      const emailId = await emails.addJob("test-job", { payload: { to: "a" } });
+      await images.addJob("test-job", { payload: { size: 1 } });
+
+      const processed: unknown[] = [];
+      images.setHandlers({
+        "test-job": async (job) => {
+          processed.push(job.payload);
+        },
+      });
+      await images.run();
+
+      expect(processed).toEqual([{ size: 1 }]);
+      expect(await emails.status(emailId)).toBe("waiting");
+    });
+
+    it("should let queues claim the jobs stored without a queue name they handle", async () => {
+      const emails = new MongooseDatabaseAdapter(testModel, "emails");
+      const images = new MongooseDatabaseAdapter(testModel, "images");
+      const emailId = await emails.insertJob({}, { name: "send-email", ttr: 300 });
+      const imageId = await emails.insertJob({}, { name: "resize-image", ttr: 300 });
+      await testModel.updateMany({}, { $unset: { queueName: 1 } });
+
+      // Polling gives legacy jobs to no queue but "default"
+      await images.recoverStalledJobs();
+      expect(await images.reserveJob(300)).toBeNull();
+      expect(await emails.reserveJob(300)).toBeNull();
+
+      expect(await images.claimLegacyJobs(["resize-image"])).toBe(1);
+      expect(await emails.claimLegacyJobs(["send-email"])).toBe(1);
+      expect((await images.reserveJob(300))?.id).toBe(imageId);
+      expect((await emails.reserveJob(300))?.id).toBe(emailId);
+    });
+  });
+
+  describe("Rate limits", () => {
+    it("should let MongoDB remove windows once they ended", async () => {
+      const adapter = new MongooseDatabaseAdapter(testModel, "sync");
+      const before = Date.now();
+      await adapter.consumeRateLimit("sync:tenant-a", 1, 60_000);
+
+      const window = await testModel.db
+        .collection("queue_rate_limits")
+        .findOne({ _id: "sync:sync:tenant-a" as any });
+      assert(window);
+      expect(window.expireAt).toEqual(new Date(window.windowStart + 60_000));
+      expect(window.expireAt.getTime()).toBeGreaterThan(before);
+
+      await adapter["rateLimitModel"]().init();
+      const indexes = await testModel.db.collection("queue_rate_limits").indexes();
+      expect(indexes).toContainEqual(
+        expect.objectContaining({ key: { expireAt: 1 }, expireAfterSeconds: 0 })
+      );
+    });
+  });
+
   describe("Integration with Mongoose features", () => {
     it("provides the model to use however we want", async () => {
       const queue = new MongooseQueue({ name: "test-queue" });
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import Database from "better-sqlite3";
+import {
+  SQLiteDatabaseAdapter,
+  SQLiteQueue,
+} from "../../src/drivers/sqlite.ts";
+
+type TestJobs = { "test-job": { value: string } };
+
+describe("SQLite named queues", () => {
+  it("should keep queues sharing a database apart", async () => {
+    const db = new Database(":memory:");
+    const emails = new SQLiteQueue<TestJobs>({ database: db, name: "emails" });
+    const images = new SQLiteQueue<TestJobs>({ database: db, name: "images" });
+
+    const emailId = await emails.addJob("test-job", { payload: { value: "email" } });
+    await images.addJob("test-job", { payload: { value: "image" } });
+
+    const processed: string[] = [];
+    images.setHandlers({
+      "test-job": async (job) => {
+        processed.push(job.payload.value);
+      },
+    });
+    await images.run();
+
+    expect(processed).toEqual(["image"]);
+    expect(await emails.status(emailId)).toBe("waiting");
+  });
+
+  it("should deduplicate jobs per queue", async () => {
+    const db = new Database(":memory:");
+    const emails = new SQLiteDatabaseAdapter(db, "emails");
+    const images = new SQLiteDatabaseAdapter(db, "images");
+    const meta = { name: "test-job", deduplicationId: "same" };
+
+    const first = await emails.insertJob({}, meta);
+    expect(await emails.insertJob({}, meta)).toBe(first);
+    expect(await images.insertJob({}, meta)).not.toBe(first);
+  });
+
+  it("should clear only its own queue", async () => {
+    const db = new Database(":memory:");
+    const emails = new SQLiteDatabaseAdapter(db, "emails");
+    const images = new SQLiteDatabaseAdapter(db, "images");
+    await emails.insertJob({}, { name: "test-job" });
+    const imageId = await images.insertJob({}, { name: "test-job" });
+
+    await emails.clear();
+
+    expect(await emails.reserveJob(300)).toBeNull();
+    expect((await images.reserveJob(300))?.id).toBe(imageId);
+  });
+
+  it("should let queues sharing a legacy table claim the jobs they handle", async () => {
+    const db = new Database(":memory:");
+    db.exec(`
+      CREATE TABLE jobs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        payload BLOB NOT NULL,
+        ttr INTEGER DEFAULT 300,
+        delay_seconds INTEGER DEFAULT 0,
+        priority INTEGER DEFAULT 0,
+        push_time INTEGER NOT NULL,
+        delay_time INTEGER,
+        reserve_time INTEGER,
+        expire_time INTEGER,
+        done_time INTEGER,
+        attempt INTEGER DEFAULT 0,
+        status TEXT DEFAULT 'waiting' CHECK (status IN ('waiting', 'waiting-children', 'reserved', 'done', 'failed', 'cancelled')),
+        error_message TEXT
+      );
+      CREATE UNIQUE INDEX idx_jobs_deduplication_id ON jobs (name);
+      INSERT INTO jobs (name, payload, push_time) VALUES ('send-email', jsonb('{}'), 0);
+      INSERT INTO jobs (name, payload, push_time) VALUES ('resize-image', jsonb('{}'), 0);
+      INSERT INTO jobs (name, payload, push_time) VALUES ('unknown-job', jsonb('{}'), 0);
+    `);
+
+    const emails = new SQLiteQueue<{ "send-email": {} }>({ database: db, name: "emails" });
+    const images = new SQLiteQueue<{ "resize-image": {} }>({ database: db, name: "images" });
+
+    // Opening the table gives legacy jobs to no queue but "default"
+    expect(await emails.countJobs()).toMatchObject({ waiting: 0 });
+    expect(await images.countJobs()).toMatchObject({ waiting: 0 });
+
+    emails.setHandlers({ "send-email": async () => {} });
+    images.setHandlers({ "resize-image": async () => {} });
+    expect(await images.claimLegacyJobs()).toBe(1);
+    expect(await emails.claimLegacyJobs()).toBe(1);
+
+    expect((await emails.listJobs()).map((job) => job.name)).toEqual(["send-email"]);
+    expect((await images.listJobs()).map((job) => job.name)).toEqual(["resize-image"]);
+    const legacy = new SQLiteDatabaseAdapter(db, "default");
+    expect((await legacy.reserveJob(300))?.meta.name).toBe("unknown-job");
+
+    // The index replaced by the per queue one is gone
+    await emails.addJob("send-email", { payload: {} });
+  });
+});
+
+describe("SQLite rate limits", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should delete windows that ended", async () => {
+    const db = new Database(":memory:");
+    const adapter = new SQLiteDatabaseAdapter(db, "sync");
+    vi.useFakeTimers({ now: 0 });
+    await adapter.consumeRateLimit("sync:tenant-a", 1, 1000);
+    await adapter.consumeRateLimit("sync:tenant-b", 1, 5000);
+
+    vi.setSystemTime(1500);
+    expect(await adapter.consumeRateLimit("sync:tenant-c", 1, 1000)).toBe(0);
+
+    const keys = db.prepare("SELECT key FROM rate_limits ORDER BY key").all();
+    expect(keys).toEqual([{ key: "sync:sync:tenant-b" }, { key: "sync:sync:tenant-c" }]);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, assert } from "vitest";
+import { SqsQueue } from "../../src/drivers/sqs.ts";
+import { TestSQSClient } from "../mocks/test-sqs-client.ts";
+
+type TestJobs = { "send-email": { to: string } };
+
+const queueUrl = "https://sqs.eu-west-1.amazonaws.com/123456789012/emails";
+
+describe("SQS rate limits", () => {
+  it("should not count deferred deliveries as attempts", async () => {
+    const client = new TestSQSClient();
+    const queue = new SqsQueue<TestJobs>(client, queueUrl, {
+      name: "emails",
+      onFailure: "delete",
+    });
+    await queue.addJob("send-email", { payload: { to: "a@example.com" }, ttr: 1 });
+
+    const first = await queue["reserve"](0);
+    assert(first);
+    expect(first.meta.attempt).toBe(1);
+
+    // A failed attempt counts, the deferrals after it don't
+    await queue["retryJob"](first, 0);
+    const retried = await queue["reserve"](0);
+    assert(retried);
+    expect(retried.meta.attempt).toBe(2);
+
+    await queue["deferJob"](retried, 0);
+    const deferred = await queue["reserve"](0);
+    assert(deferred);
+    expect(deferred.meta.attempt).toBe(2);
+    expect(deferred.id).not.toBe(retried.id);
+
+    await queue["deferJob"](deferred, 0);
+    const deferredAgain = await queue["reserve"](0);
+    expect(deferredAgain?.meta.attempt).toBe(2);
+    expect(client.getAllMessages()).toHaveLength(1);
+  });
+
+  it("should defer throttled jobs with a delayed copy", async () => {
+    const client = new TestSQSClient();
+    const queue = new SqsQueue<TestJobs>(client, queueUrl, {
+      name: "emails",
+      onFailure: "delete",
+      rateLimits: { "send-email": { max: 1, durationSeconds: 60 } },
+    });
+    await queue.addJob("send-email", { payload: { to: "a@example.com" } });
+    await queue.addJob("send-email", { payload: { to: "b@example.com" } });
+
+    const sent: string[] = [];
+    queue.setHandlers({
+      "send-email": async ({ payload }) => {
+        sent.push(payload.to);
+      },
+    });
+    await queue.run(false);
+
+    expect(sent).toHaveLength(1);
+    const [copy] = client.getAllMessages();
+    assert(copy);
+    expect(copy.delaySeconds).toBeGreaterThan(0);
+    expect(copy.delaySeconds).toBeLessThanOrEqual(60);
+    expect(copy.MessageAttributes?.previousAttempts).toBeUndefined();
+  });
+});
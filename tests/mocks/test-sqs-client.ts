@@ -3,10 +3,12 @@ import {
   ReceiveMessageCommand,
   DeleteMessageCommand,
   ChangeMessageVisibilityCommand,
+  ChangeMessageVisibilityBatchCommand,
   type SendMessageCommandOutput,
   type ReceiveMessageCommandOutput, 
   type DeleteMessageCommandOutput, 
-  type ChangeMessageVisibilityCommandOutput 
+  type ChangeMessageVisibilityCommandOutput,
+  type ChangeMessageVisibilityBatchCommandOutput
 } from "@aws-sdk/client-sqs";
 
 interface StoredMessage {
@@ -18,6 +20,7 @@ interface StoredMessage {
   delaySeconds: number;
   visible: boolean;
   visibilityTimeoutUntil?: Date;
+  receiveCount: number;
 }
 
 export class TestSQSClient {
@@ -35,7 +38,7 @@ export class TestSQSClient {
   
   public deletedMessages: Array<{ MessageId: string; ReceiptHandle: string }> = [];
 
-  async send(command: SendMessageCommand | ReceiveMessageCommand | DeleteMessageCommand | ChangeMessageVisibilityCommand): Promise<any> {
+  async send(command: SendMessageCommand | ReceiveMessageCommand | DeleteMessageCommand | ChangeMessageVisibilityCommand | ChangeMessageVisibilityBatchCommand): Promise<any> {
     if (command instanceof SendMessageCommand) {
       return this.handleSendMessage(command.input as any);
     } else if (command instanceof ReceiveMessageCommand) {
@@ -44,6 +47,8 @@ export class TestSQSClient {
       return this.handleDeleteMessage(command.input as any);
     } else if (command instanceof ChangeMessageVisibilityCommand) {
       return this.handleChangeMessageVisibility(command.input as any);
+    } else if (command instanceof ChangeMessageVisibilityBatchCommand) {
+      return this.handleChangeMessageVisibilityBatch(command.input as any);
     }
     throw new Error(`Unsupported command type: ${(command as any).constructor.name}`);
   }
@@ -71,7 +76,8 @@ export class TestSQSClient {
       MessageAttributes: messageAttributes,
       sentAt: new Date(),
       delaySeconds: params.DelaySeconds || 0,
-      visible: true
+      visible: true,
+      receiveCount: 0
     };
 
     this.nextReceiptHandle++;
@@ -107,11 +113,13 @@ export class TestSQSClient {
 
       if (message.visibilityTimeoutUntil && now < message.visibilityTimeoutUntil) continue;
 
+      message.receiveCount++;
       messages.push({
         MessageId: message.MessageId,
         Body: message.Body,
         ReceiptHandle: message.ReceiptHandle,
-        MessageAttributes: message.MessageAttributes
+        MessageAttributes: message.MessageAttributes,
+        Attributes: { ApproximateReceiveCount: message.receiveCount.toString() }
       });
 
       if (messages.length >= maxMessages) break;
@@ -168,6 +176,24 @@ export class TestSQSClient {
     } as ChangeMessageVisibilityCommandOutput;
   }
 
+  private async handleChangeMessageVisibilityBatch(params: {
+    QueueUrl: string;
+    Entries: Array<{ Id: string; ReceiptHandle: string; VisibilityTimeout: number }>;
+  }): Promise<ChangeMessageVisibilityBatchCommandOutput> {
+    for (const entry of params.Entries) {
+      await this.handleChangeMessageVisibility({ QueueUrl: params.QueueUrl, ...entry });
+    }
+
+    return {
+      Successful: params.Entries.map((entry) => ({ Id: entry.Id })),
+      Failed: [],
+      $metadata: {
+        httpStatusCode: 200,
+        requestId: 'test-request-id'
+      }
+    } as ChangeMessageVisibilityBatchCommandOutput;
+  }
+
   getAllMessages(): StoredMessage[] {
     return Array.from(this.messages.values());
   }
@@ -0,0 +1,142 @@
+import { describe, it, expect } from "vitest";
+import { nextCronRun, parseCron } from "../../src/scheduler/cron.ts";
+
+describe("parseCron", () => {
+  it("should parse wildcards, lists, ranges and steps", () => {
+    const cron = parseCron("*/15 9-17 1,15 * mon-fri");
+
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...cron.daysOfMonth]).toEqual([1, 15]);
+    expect(cron.months.size).toBe(12);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("should treat 7 as Sunday and expand macros", () => {
+    expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+    expect(parseCron("@daily")).toEqual(parseCron("0 0 * * *"));
+  });
+
+  it.each(["* * * *", "60 * * * *", "* * * 13 *", "*/0 * * * *", "5-1 * * * *"])(
+    "should reject %s",
+    (expression) => {
+      expect(() => parseCron(expression)).toThrow(
+        expect.objectContaining({ name: "QueueErrorInvalidCron" })
+      );
+    }
+  );
+});
+
+describe("nextCronRun", () => {
+  it("should return the next matching minute after the given time", () => {
+    const after = new Date("2024-03-01T10:07:30Z");
+
+    expect(nextCronRun("*/5 * * * *", after)).toEqual(
+      new Date("2024-03-01T10:10:00Z")
+    );
+    expect(nextCronRun("0 2 * * *", after)).toEqual(
+      new Date("2024-03-02T02:00:00Z")
+    );
+  });
+
+  it("should be strictly later than the given time", () => {
+    const after = new Date("2024-03-01T02:00:00Z");
+
+    expect(nextCronRun("0 2 * * *", after)).toEqual(
+      new Date("2024-03-02T02:00:00Z")
+    );
+  });
+
+  it("should evaluate expressions in the given time zone", () => {
+    const after = new Date("2024-07-01T00:00:00Z");
+
+    // 2:00 in Madrid is 0:00 UTC during summer time
+    expect(nextCronRun("0 2 * * *", after, "Europe/Madrid")).toEqual(
+      new Date("2024-07-02T00:00:00Z")
+    );
+    expect(nextCronRun("30 9 * * *", after, "America/New_York")).toEqual(
+      new Date("2024-07-01T13:30:00Z")
+    );
+  });
+
+  it("should follow daylight saving time changes", () => {
+    // Madrid moves from UTC+1 to UTC+2 on 2024-03-31
+    const before = nextCronRun("0 9 * * *", new Date("2024-03-30T12:00:00Z"), "Europe/Madrid");
+    const after = nextCronRun("0 9 * * *", before, "Europe/Madrid");
+
+    expect(before).toEqual(new Date("2024-03-31T07:00:00Z"));
+    expect(after).toEqual(new Date("2024-04-01T07:00:00Z"));
+    expect(
+      nextCronRun("0 9 * * *", new Date("2024-03-30T00:00:00Z"), "Europe/Madrid")
+    ).toEqual(new Date("2024-03-30T08:00:00Z"));
+  });
+
+  it("should run a wall clock time repeated when clocks go back once", () => {
+    // Madrid goes back from 3:00 UTC+2 to 2:00 UTC+1 on 2026-10-25
+    const first = nextCronRun("30 2 * * *", new Date("2026-10-24T12:00:00Z"), "Europe/Madrid");
+    const next = nextCronRun("30 2 * * *", first, "Europe/Madrid");
+
+    expect(first).toEqual(new Date("2026-10-25T00:30:00Z"));
+    expect(next).toEqual(new Date("2026-10-26T01:30:00Z"));
+    expect(
+      nextCronRun("30 2 * * *", new Date("2026-10-25T01:00:00Z"), "Europe/Madrid")
+    ).toEqual(new Date("2026-10-26T01:30:00Z"));
+  });
+
+  it("should run a wall clock time skipped when clocks go forward once it ends", () => {
+    // Madrid jumps from 2:00 UTC+1 to 3:00 UTC+2 on 2026-03-29
+    const skipped = nextCronRun("30 2 * * *", new Date("2026-03-28T12:00:00Z"), "Europe/Madrid");
+
+    expect(skipped).toEqual(new Date("2026-03-29T01:00:00Z"));
+    expect(nextCronRun("30 2 * * *", skipped, "Europe/Madrid")).toEqual(
+      new Date("2026-03-30T00:30:00Z")
+    );
+  });
+
+  it("should follow elapsed time across DST changes when running every hour", () => {
+    const runs = (from: string, count: number) => {
+      const times: string[] = [];
+      let time = new Date(from);
+      for (let i = 0; i < count; i++) {
+        time = nextCronRun("30 * * * *", time, "Europe/Madrid");
+        times.push(time.toISOString());
+      }
+      return times;
+    };
+
+    expect(runs("2026-10-24T23:45:00Z", 3)).toEqual([
+      "2026-10-25T00:30:00.000Z",
+      "2026-10-25T01:30:00.000Z",
+      "2026-10-25T02:30:00.000Z",
+    ]);
+    expect(runs("2026-03-28T23:45:00Z", 2)).toEqual([
+      "2026-03-29T00:30:00.000Z",
+      "2026-03-29T01:30:00.000Z",
+    ]);
+  });
+
+  it("should not skip days that are shorter because of DST", () => {
+    // Sunday 2026-03-29 lasts 23 hours in Madrid
+    expect(
+      nextCronRun("30 0 * * 1", new Date("2026-03-28T23:10:00Z"), "Europe/Madrid")
+    ).toEqual(new Date("2026-03-29T22:30:00Z"));
+  });
+
+  it("should run when either restricted day field matches", () => {
+    // The 13th of the month or any Friday
+    const after = new Date("2024-09-01T00:00:00Z");
+
+    expect(nextCronRun("0 0 13 * 5", after)).toEqual(
+      new Date("2024-09-06T00:00:00Z")
+    );
+  });
+
+  it("should find yearly runs", () => {
+    expect(nextCronRun("@yearly", new Date("2024-06-15T00:00:00Z"))).toEqual(
+      new Date("2025-01-01T00:00:00Z")
+    );
+    expect(nextCronRun("0 0 29 2 *", new Date("2024-03-01T00:00:00Z"))).toEqual(
+      new Date("2028-02-29T00:00:00Z")
+    );
+  });
+});
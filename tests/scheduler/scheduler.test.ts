@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import Database from "better-sqlite3";
+import { InMemoryQueue } from "../../src/drivers/memory.ts";
+import { Scheduler } from "../../src/scheduler/scheduler.ts";
+import { InMemoryScheduleStore } from "../../src/scheduler/memory-store.ts";
+import { SQLiteScheduleStore } from "../../src/scheduler/sqlite-store.ts";
+import type { ScheduleStore } from "../../src/interfaces/scheduler.ts";
+
+interface TestJobs {
+  report: { type: string };
+  cleanup: {};
+}
+
+const stores: Array<[string, () => ScheduleStore]> = [
+  ["InMemoryScheduleStore", () => new InMemoryScheduleStore()],
+  ["SQLiteScheduleStore", () => new SQLiteScheduleStore(new Database(":memory:"))],
+];
+
+describe.each(stores)("Scheduler with %s", (_name, createStore) => {
+  let queue: InMemoryQueue<TestJobs>;
+  let store: ScheduleStore;
+
+  const createScheduler = () => {
+    const scheduler = new Scheduler({ queue, store });
+    scheduler.add(
+      "nightly",
+      { cron: "0 2 * * *", timezone: "Europe/Madrid" },
+      { name: "report", payload: { type: "nightly" } }
+    );
+    return scheduler;
+  };
+
+  beforeEach(() => {
+    queue = new InMemoryQueue<TestJobs>({ name: "scheduled" });
+    store = createStore();
+  });
+
+  it("should add the job once it is due", async () => {
+    const scheduler = createScheduler();
+
+    // 2:00 in Madrid is 0:00 UTC in summer
+    expect(await scheduler.tick(new Date("2024-07-01T12:00:00Z"))).toEqual([]);
+    expect(await scheduler.nextRunAt("nightly")).toEqual(
+      new Date("2024-07-02T00:00:00Z")
+    );
+
+    const jobIds = await scheduler.tick(new Date("2024-07-02T00:00:05Z"));
+
+    expect(jobIds).toHaveLength(1);
+    expect(queue.getJob(jobIds[0]!)?.payload).toEqual({ type: "nightly" });
+    expect(await scheduler.nextRunAt("nightly")).toEqual(
+      new Date("2024-07-03T00:00:00Z")
+    );
+  });
+
+  it("should emit scheduled events", async () => {
+    const scheduler = createScheduler();
+    const scheduledSpy = vi.fn();
+    scheduler.on("scheduled", scheduledSpy);
+
+    await scheduler.tick(new Date("2024-07-01T12:00:00Z"));
+    const [jobId] = await scheduler.tick(new Date("2024-07-02T00:00:05Z"));
+
+    expect(scheduledSpy).toHaveBeenCalledWith({
+      type: "scheduled",
+      scheduleId: "nightly",
+      jobId,
+      name: "report",
+      runAt: new Date("2024-07-02T00:00:00Z"),
+    });
+  });
+
+  it("should not add a run twice across scheduler instances", async () => {
+    const replicas = [createScheduler(), createScheduler(), createScheduler()];
+    for (const replica of replicas) {
+      await replica.tick(new Date("2024-07-01T12:00:00Z"));
+    }
+
+    const due = new Date("2024-07-02T00:00:05Z");
+    const results = await Promise.all(replicas.map((replica) => replica.tick(due)));
+
+    expect(results.flat()).toHaveLength(1);
+    expect(queue.getStats().waiting).toBe(1);
+  });
+
+  it("should add a run again when adding its job failed", async () => {
+    const scheduler = createScheduler();
+    await scheduler.tick(new Date("2024-07-01T12:00:00Z"));
+    vi.spyOn(queue, "addJob").mockRejectedValueOnce(new Error("Queue unavailable"));
+
+    const due = new Date("2024-07-02T00:00:05Z");
+    await expect(scheduler.tick(due)).rejects.toThrow("Queue unavailable");
+    const jobIds = await scheduler.tick(due);
+
+    expect(jobIds).toHaveLength(1);
+    expect(queue.getStats().waiting).toBe(1);
+  });
+
+  it("should not add a run twice when its claim failed", async () => {
+    const scheduler = createScheduler();
+    await scheduler.tick(new Date("2024-07-01T12:00:00Z"));
+    vi.spyOn(store, "claim").mockRejectedValueOnce(new Error("Store unavailable"));
+
+    const due = new Date("2024-07-02T00:00:05Z");
+    await expect(scheduler.tick(due)).rejects.toThrow("Store unavailable");
+    const jobIds = await scheduler.tick(due);
+
+    expect(jobIds).toHaveLength(1);
+    expect(queue.getStats().waiting).toBe(1);
+    expect(await scheduler.nextRunAt("nightly")).toEqual(
+      new Date("2024-07-03T00:00:00Z")
+    );
+  });
+
+  it("should catch up runs missed while stopped", async () => {
+    await createScheduler().tick(new Date("2024-07-01T12:00:00Z"));
+
+    // A new instance, as after a restart, three nights later
+    const restarted = createScheduler();
+    const jobIds = await restarted.tick(new Date("2024-07-04T12:00:00Z"));
+
+    expect(jobIds).toHaveLength(3);
+    expect(await restarted.nextRunAt("nightly")).toEqual(
+      new Date("2024-07-05T00:00:00Z")
+    );
+  });
+
+  it("should collapse missed runs without catch up", async () => {
+    const scheduler = new Scheduler({ queue, store });
+    scheduler.add(
+      "cleanup",
+      { everySeconds: 60 },
+      { name: "cleanup", payload: {} },
+      { catchUp: false }
+    );
+
+    await scheduler.tick(new Date("2024-07-01T12:00:00Z"));
+    const jobIds = await scheduler.tick(new Date("2024-07-01T12:10:30Z"));
+
+    expect(jobIds).toHaveLength(1);
+    expect(await scheduler.nextRunAt("cleanup")).toEqual(
+      new Date("2024-07-01T12:11:00Z")
+    );
+  });
+
+  it("should reset the state when the definition changes", async () => {
+    await createScheduler().tick(new Date("2024-07-01T12:00:00Z"));
+
+    const changed = new Scheduler({ queue, store });
+    changed.add(
+      "nightly",
+      { cron: "0 3 * * *" },
+      { name: "report", payload: { type: "nightly" } }
+    );
+
+    expect(await changed.tick(new Date("2024-07-04T12:00:00Z"))).toEqual([]);
+    expect(await changed.nextRunAt("nightly")).toEqual(
+      new Date("2024-07-05T03:00:00Z")
+    );
+  });
+
+  it("should run due schedules after start() until stopped", async () => {
+    const scheduler = new Scheduler({ queue, store, pollIntervalMs: 10 });
+    scheduler.add("cleanup", { everySeconds: 0.02 }, { name: "cleanup", payload: {} });
+
+    scheduler.start();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await scheduler.stop();
+
+    const added = queue.getStats().waiting;
+    expect(added).toBeGreaterThan(0);
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(queue.getStats().waiting).toBe(added);
+  });
+
+  it("should reject invalid schedules", () => {
+    const scheduler = new Scheduler({ queue, store });
+
+    expect(() =>
+      scheduler.add("bad", { cron: "0 2 * *" }, { name: "cleanup", payload: {} })
+    ).toThrow(expect.objectContaining({ name: "QueueErrorInvalidCron" }));
+    expect(() =>
+      scheduler.add(
+        "bad-zone",
+        { cron: "0 2 * * *", timezone: "Mars/Olympus" },
+        { name: "cleanup", payload: {} }
+      )
+    ).toThrow();
+    expect(() =>
+      scheduler.add("bad-interval", { everySeconds: 0 }, { name: "cleanup", payload: {} })
+    ).toThrow();
+  });
+});
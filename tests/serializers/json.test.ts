@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import {
+  jsonSerializer,
+  typedJsonSerializer,
+} from "../../src/serializers/json.ts";
+
+const roundTrip = (value: unknown) =>
+  typedJsonSerializer.deserialize(typedJsonSerializer.serialize(value));
+
+describe("jsonSerializer", () => {
+  it("should round-trip plain JSON values", () => {
+    const value = { a: 1, b: ["x", null, true], c: { d: "e" } };
+    expect(jsonSerializer.deserialize(jsonSerializer.serialize(value))).toEqual(value);
+  });
+});
+
+describe("typedJsonSerializer", () => {
+  it("should keep types plain JSON loses", () => {
+    const value = {
+      at: new Date("2024-01-02T03:04:05.678Z"),
+      big: -12345678901234567890n,
+      map: new Map<unknown, unknown>([["a", 1], [2, new Date(0)]]),
+      set: new Set(["x", "y"]),
+      bytes: Buffer.from("hello"),
+      pattern: /a+b/gi,
+      missing: undefined,
+      numbers: [NaN, Infinity, -Infinity, 1.5],
+    };
+
+    const decoded = roundTrip(value) as typeof value;
+
+    expect(decoded).toEqual(value);
+    expect(decoded.big).toBe(-12345678901234567890n);
+    expect(decoded.map.get(2)).toBeInstanceOf(Date);
+    expect(decoded).toHaveProperty("missing", undefined);
+  });
+
+  it("should decode typed arrays as Buffer", () => {
+    expect(roundTrip(new Uint8Array([1, 2, 3]))).toEqual(Buffer.from([1, 2, 3]));
+  });
+
+  it("should keep plain objects that look like encoded values", () => {
+    const value = { $t: "Date", v: "not a date", nested: { $t: "BigInt" } };
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it("should store readable JSON", () => {
+    expect(JSON.parse(typedJsonSerializer.serialize({ at: new Date(0) }))).toEqual({
+      at: { $t: "Date", v: "1970-01-01T00:00:00.000Z" },
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import {
+  decodeMsgpack,
+  encodeMsgpack,
+  msgpackSerializer,
+} from "../../src/serializers/msgpack.ts";
+
+const roundTrip = (value: unknown) => decodeMsgpack(encodeMsgpack(value));
+
+describe("msgpack", () => {
+  it("should encode values in the smallest format", () => {
+    expect([...encodeMsgpack(null)]).toEqual([0xc0]);
+    expect([...encodeMsgpack(true)]).toEqual([0xc3]);
+    expect([...encodeMsgpack(5)]).toEqual([0x05]);
+    expect([...encodeMsgpack(-1)]).toEqual([0xff]);
+    expect([...encodeMsgpack(200)]).toEqual([0xcc, 200]);
+    expect([...encodeMsgpack(-200)]).toEqual([0xd1, 0xff, 0x38]);
+    expect([...encodeMsgpack("ab")]).toEqual([0xa2, 0x61, 0x62]);
+    expect([...encodeMsgpack([1, 2])]).toEqual([0x92, 0x01, 0x02]);
+    expect([...encodeMsgpack({ a: 1 })]).toEqual([0x81, 0xa1, 0x61, 0x01]);
+  });
+
+  it("should round-trip numbers of every size", () => {
+    const numbers = [
+      0, 127, 128, 255, 256, 65535, 65536, 0xffffffff, 0x100000000,
+      Number.MAX_SAFE_INTEGER, -32, -33, -128, -129, -32768, -32769,
+      -0x80000000, -0x80000001, 1.5, -0.25, NaN, Infinity,
+    ];
+    expect(roundTrip(numbers)).toEqual(numbers);
+  });
+
+  it("should round-trip BigInt, dates, binary data and long values", () => {
+    const value = {
+      big: 18446744073709551615n,
+      negative: -9223372036854775808n,
+      at: new Date("2024-01-02T03:04:05.678Z"),
+      before1970: new Date("1969-12-31T23:59:59.001Z"),
+      bytes: Buffer.alloc(300, 7),
+      text: "é".repeat(40000),
+      list: Array.from({ length: 20 }, (_, index) => index),
+    };
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it("should keep undefined apart from null", () => {
+    expect([...encodeMsgpack(undefined)]).toEqual([0xd4, 0x00, 0x00]);
+    const value = { missing: undefined, empty: null, list: [undefined, 1] };
+    expect(roundTrip(value)).toStrictEqual(value);
+  });
+
+  it("should decode maps with other than string keys as Map", () => {
+    const value = new Map<unknown, unknown>([[1, "one"], ["two", 2]]);
+    expect(roundTrip(value)).toEqual(value);
+    expect(roundTrip(new Map([["a", 1]]))).toEqual({ a: 1 });
+    expect(roundTrip(new Set([1, 2]))).toEqual([1, 2]);
+  });
+
+  it("should decode the 32 and 64 bit timestamp formats", () => {
+    expect(decodeMsgpack(Uint8Array.from([0xd6, 0xff, 0, 0, 0, 1]))).toEqual(new Date(1000));
+    // 1 ms (1e6 ns shifted by 2 bits) and 2 seconds
+    const timestamp64 = [0xd7, 0xff, 0x00, 0x3d, 0x09, 0x00, 0, 0, 0, 2];
+    expect(decodeMsgpack(Uint8Array.from(timestamp64))).toEqual(new Date(2001));
+  });
+
+  it("should reject truncated or unsupported data", () => {
+    expect(() => decodeMsgpack(Uint8Array.from([0xa2, 0x61]))).toThrow(
+      "Unexpected end of MessagePack data"
+    );
+    expect(() => decodeMsgpack(Uint8Array.from([0xc1]))).toThrow(
+      "Unsupported MessagePack type 0xc1"
+    );
+    expect(() => encodeMsgpack(2n ** 64n)).toThrow("exceeds 64 bits");
+    expect(() => encodeMsgpack(() => {})).toThrow("Can't encode function");
+  });
+
+  it("should store payloads as base64", () => {
+    const data = msgpackSerializer.serialize({ a: 1 });
+    expect(data).toBe(Buffer.from([0x81, 0xa1, 0x61, 0x01]).toString("base64"));
+    expect(msgpackSerializer.deserialize(data)).toEqual({ a: 1 });
+  });
+});